@@ -7,7 +7,10 @@ import {
   JSONParseError,
   NoObjectGeneratedError,
 } from "ai";
-import { jsonrepair } from "jsonrepair";
+import {
+  parseStructuredOutput,
+  StructuredOutputError,
+} from "../utils/structured-output.js";
 
 /**
  * Base class for all AI providers
@@ -93,8 +96,10 @@ export abstract class BaseAIProvider {
    */
   handleError(operation: string, error: Error) {
     console.error(`${this.name} ${operation} failed: ${error.message}`);
+    // Keep the original API error so callers can inspect its status code
     throw new Error(
-      `${this.name} API error during ${operation}: ${error.message}`
+      `${this.name} API error during ${operation}: ${error.message}`,
+      { cause: error }
     );
   }
 
@@ -165,6 +170,8 @@ export abstract class BaseAIProvider {
         messages: params.messages,
         ...this.prepareTokenParam(params.modelId, params.maxTokens),
         temperature: params.temperature,
+        maxRetries: params.maxRetries,
+        abortSignal: params.abortSignal,
       });
 
       console.log(
@@ -192,7 +199,7 @@ export abstract class BaseAIProvider {
       this.validateParams(params);
       this.validateMessages(params.messages);
 
-      console.log(`Streaming ${this.name} text with model: ${params.modelId}`);
+      console.error(`Streaming ${this.name} text with model: ${params.modelId}`);
 
       const client = await this.getClient(params);
       const stream = await streamText({
@@ -200,9 +207,12 @@ export abstract class BaseAIProvider {
         messages: params.messages,
         ...this.prepareTokenParam(params.modelId, params.maxTokens),
         temperature: params.temperature,
+        maxRetries: params.maxRetries,
+        abortSignal: params.abortSignal,
+        onError: params.onError,
       });
 
-      console.log(
+      console.error(
         `${this.name} streamText initiated successfully for model: ${params.modelId}`
       );
 
@@ -236,6 +246,8 @@ export abstract class BaseAIProvider {
         mode: params.mode || "auto",
         ...this.prepareTokenParam(params.modelId, params.maxTokens),
         temperature: params.temperature,
+        maxRetries: params.maxRetries,
+        abortSignal: params.abortSignal,
       });
 
       console.log(
@@ -265,7 +277,7 @@ export abstract class BaseAIProvider {
         throw new Error("Object name is required for object generation");
       }
 
-      console.log(
+      console.error(
         `Generating ${this.name} object ('${params.objectName}') with model: ${params.modelId}`
       );
 
@@ -277,9 +289,11 @@ export abstract class BaseAIProvider {
         mode: params.mode || "auto",
         ...this.prepareTokenParam(params.modelId, params.maxTokens),
         temperature: params.temperature,
+        maxRetries: params.maxRetries,
+        abortSignal: params.abortSignal,
       });
 
-      console.log(
+      console.error(
         `${this.name} generateObject completed successfully for model: ${params.modelId}`
       );
 
@@ -292,40 +306,37 @@ export abstract class BaseAIProvider {
         },
       };
     } catch (error) {
-      // Check if this is a JSON parsing error that we can potentially fix
-      if (
-        NoObjectGeneratedError.isInstance(error) &&
-        JSONParseError.isInstance(error.cause) &&
-        error.cause.text
-      ) {
-        console.warn(
-          `${this.name} generated malformed JSON, attempting to repair...`
-        );
+      // Malformed or schema-violating output: try to repair it before failing
+      if (NoObjectGeneratedError.isInstance(error)) {
+        const rawText =
+          error.text ??
+          (JSONParseError.isInstance(error.cause) ? error.cause.text : undefined);
 
-        try {
-          // Use jsonrepair to fix the malformed JSON
-          const repairedJson = jsonrepair(error.cause.text);
-          const parsed = JSON.parse(repairedJson);
-
-          console.log(`Successfully repaired ${this.name} JSON output`);
-
-          // Return in the expected format
-          return {
-            object: parsed,
-            usage: {
-              // Extract usage information from the error if available
-              inputTokens: 0,
-              outputTokens: 0,
-              totalTokens: 0,
-            },
-          };
-        } catch (repairError) {
+        if (rawText) {
           console.error(
-            `Failed to repair ${this.name} JSON: ${
-              (repairError as Error).message
-            }`
+            `${this.name} generated malformed JSON, attempting to repair...`
+          );
+
+          const repaired = parseStructuredOutput(rawText, params.schema);
+          if (repaired.success) {
+            console.error(`Successfully repaired ${this.name} JSON output`);
+
+            return {
+              object: repaired.data,
+              usage: error.usage || {
+                inputTokens: 0,
+                outputTokens: 0,
+                totalTokens: 0,
+              },
+              repaired: true,
+            };
+          }
+
+          console.error(`Failed to repair ${this.name} JSON: ${repaired.error}`);
+          throw new StructuredOutputError(
+            `${this.name} returned output that does not match '${params.objectName}': ${repaired.error}`,
+            rawText
           );
-          // Fall through to handleError with original error
         }
       }
 
@@ -1,4 +1,24 @@
 import { getConfiguredProviders, getApiKey } from "../config-manager.js";
+import { getMetricsCollector } from "../utils/metrics-collector.js";
+
+/**
+ * Describe a provider's circuit breaker state for the health check output
+ */
+function formatCircuitBreaker(providerName: string): string {
+  const status = getMetricsCollector().getCircuitBreakerStatus(providerName);
+  const rate = `${status.recentFailureRate.toFixed(1)}% failures over last ${
+    status.recentRequests
+  } calls`;
+
+  switch (status.state) {
+    case "open":
+      return `🔴 OPEN - skipped until ${status.nextProbeAt?.toISOString()} (${rate})`;
+    case "half_open":
+      return `🟡 HALF-OPEN - next call probes the provider (${rate})`;
+    default:
+      return `🟢 CLOSED (${rate})`;
+  }
+}
 
 /**
  * Simple health check tool that shows system status and active provider information
@@ -11,6 +31,7 @@ export const HEALTH_CHECK_TOOL = {
 This tool provides:
 - Current default LLM provider from .env configuration
 - List of all ACTIVE providers (with valid API keys and models)
+- Circuit breaker state of each active provider
 - Simple overview of system health
 
 Use this tool to:
@@ -22,6 +43,14 @@ Use this tool to:
     type: "object",
     properties: {},
   },
+  // The markdown report is also returned as structuredContent.report
+  outputSchema: {
+    type: "object",
+    properties: {
+      report: { type: "string" },
+    },
+    required: ["report"],
+  },
   execute: async (args: any) => {
     try {
       // Get default provider from environment
@@ -90,7 +119,10 @@ Use this tool to:
           result += `**${provider.name}${defaultMarker}**\n`;
           result += `  • API Key: ✅ Configured\n`;
           result += `  • Model: ${provider.model}\n`;
-          result += `  • Override Capable: ✅ Valid API key configured\n\n`;
+          result += `  • Override Capable: ✅ Valid API key configured\n`;
+          result += `  • Circuit Breaker: ${formatCircuitBreaker(
+            provider.name
+          )}\n\n`;
         }
       } else {
         result += "❌ **No active providers found**\n\n";
@@ -1,5 +1,9 @@
 // Configuration Manager with caching and validation
-import { ToolCallingConfig } from "./services/tool-calling-service.js";
+import {
+  DEFAULT_FULL_REVIEW_TIMEOUT_MS,
+  ToolCallingConfig,
+} from "./services/tool-calling-service.js";
+import { resolve } from "path";
 import {
   SUPPORTED_PROVIDERS,
   PROVIDER_API_KEYS,
@@ -824,6 +828,255 @@ export function getBestAvailableProvider(): string | null {
   return null;
 }
 
+/**
+ * Get how many providers a single call may fall back to after the first one
+ * fails with a retryable error (environment-only, 0 disables fallback)
+ */
+export function getProviderFallbackMaxHops(): number {
+  const value = resolveEnvVariableCached("PROVIDER_FALLBACK_MAX_HOPS");
+  if (value && value.trim()) {
+    const numValue = Number(value.trim());
+    if (Number.isInteger(numValue) && numValue >= 0) {
+      return numValue;
+    }
+  }
+
+  return 2;
+}
+
+/**
+ * Get circuit breaker settings (environment-only)
+ */
+export function getCircuitBreakerConfig(): {
+  windowSize: number;
+  minRequests: number;
+  failureRateThreshold: number;
+  cooldownMs: number;
+} {
+  const readPositiveInt = (key: string, fallback: number): number => {
+    const value = resolveEnvVariableCached(key);
+    if (value && value.trim()) {
+      const numValue = Number(value.trim());
+      if (Number.isInteger(numValue) && numValue > 0) {
+        return numValue;
+      }
+    }
+    return fallback;
+  };
+
+  return {
+    windowSize: readPositiveInt("CIRCUIT_BREAKER_WINDOW_SIZE", 20),
+    minRequests: readPositiveInt("CIRCUIT_BREAKER_MIN_REQUESTS", 5),
+    failureRateThreshold: Math.min(
+      readPositiveInt("CIRCUIT_BREAKER_FAILURE_RATE_THRESHOLD", 50),
+      100
+    ),
+    cooldownMs: readPositiveInt("CIRCUIT_BREAKER_COOLDOWN_MS", 60000),
+  };
+}
+
+/**
+ * Get the MCP transport to serve (environment-only, default stdio)
+ */
+export function getMcpTransport(): "stdio" | "http" {
+  const value = resolveEnvVariableCached("MCP_TRANSPORT");
+  return value?.trim().toLowerCase() === "http" ? "http" : "stdio";
+}
+
+/**
+ * Get Streamable HTTP transport settings (environment-only)
+ * Binds to localhost unless MCP_HTTP_HOST says otherwise; MCP_HTTP_ALLOWED_ROOTS
+ * lists the directories clients may have files read from
+ */
+export function getHttpTransportConfig(): {
+  host: string;
+  port: number;
+  authToken?: string;
+  allowedHosts?: string[];
+  allowedRoots?: string[];
+  sessionIdleTimeoutMs: number;
+  maxSessions: number;
+} {
+  const host = resolveEnvVariableCached("MCP_HTTP_HOST")?.trim();
+  const port = Number(resolveEnvVariableCached("MCP_HTTP_PORT")?.trim());
+  const authToken = resolveEnvVariableCached("MCP_HTTP_AUTH_TOKEN")?.trim();
+  const allowedHosts = resolveEnvVariableCached("MCP_HTTP_ALLOWED_HOSTS")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  const allowedRoots = resolveEnvVariableCached("MCP_HTTP_ALLOWED_ROOTS")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => resolve(entry));
+  const idleMinutes = Number(
+    resolveEnvVariableCached("MCP_HTTP_SESSION_IDLE_MINUTES")?.trim()
+  );
+  const maxSessions = Number(
+    resolveEnvVariableCached("MCP_HTTP_MAX_SESSIONS")?.trim()
+  );
+
+  return {
+    host: host || "127.0.0.1",
+    port: Number.isInteger(port) && port > 0 ? port : 3000,
+    authToken: authToken || undefined,
+    allowedHosts: allowedHosts?.length ? allowedHosts : undefined,
+    allowedRoots: allowedRoots?.length ? allowedRoots : undefined,
+    sessionIdleTimeoutMs: (idleMinutes > 0 ? idleMinutes : 30) * 60 * 1000,
+    maxSessions:
+      Number.isInteger(maxSessions) && maxSessions > 0 ? maxSessions : 100,
+  };
+}
+
+/**
+ * Get the directory overriding project-scoped memory storage (environment-only)
+ * When set, every project shares the one store in this directory
+ */
+export function getMemoryStorageDir(): string | undefined {
+  const value = resolveEnvVariableCached("MEMORY_STORAGE_DIR")?.trim();
+  return value || undefined;
+}
+
+/**
+ * Get memory retention settings (environment-only)
+ * A limit of 0 is disabled; a cleanup interval of 0 stops scheduled cleanup
+ */
+export function getMemoryRetentionConfig(): {
+  maxAgeDays: number;
+  maxSessions: number;
+  maxBytes: number;
+  keepTags: string[];
+  cleanupIntervalMinutes: number;
+} {
+  const readNonNegative = (key: string, fallback: number): number => {
+    const value = resolveEnvVariableCached(key);
+    if (value && value.trim()) {
+      const numValue = Number(value.trim());
+      if (Number.isFinite(numValue) && numValue >= 0) {
+        return numValue;
+      }
+    }
+    return fallback;
+  };
+
+  const keepTags = resolveEnvVariableCached("MEMORY_RETENTION_KEEP_TAGS")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  return {
+    maxAgeDays: readNonNegative("MEMORY_RETENTION_MAX_AGE_DAYS", 7),
+    maxSessions: readNonNegative("MEMORY_RETENTION_MAX_SESSIONS", 0),
+    maxBytes: readNonNegative("MEMORY_RETENTION_MAX_BYTES", 0),
+    keepTags: keepTags ?? ["keep"],
+    cleanupIntervalMinutes: readNonNegative(
+      "MEMORY_CLEANUP_INTERVAL_MINUTES",
+      60
+    ),
+  };
+}
+
+/**
+ * Get session compaction settings (environment-only)
+ * Compaction itself starts at MEMORY_COMPRESSION_THRESHOLD
+ */
+export function getMemoryCompactionConfig(): {
+  summarizer: "heuristic" | "llm";
+  condensedPayloads: "truncate" | "drop";
+  payloadMaxChars: number;
+} {
+  const summarizer = resolveEnvVariableCached("MEMORY_SUMMARIZER")
+    ?.trim()
+    .toLowerCase();
+  const condensedPayloads = resolveEnvVariableCached(
+    "MEMORY_CONDENSED_PAYLOADS"
+  )
+    ?.trim()
+    .toLowerCase();
+  const payloadMaxChars = Number(
+    resolveEnvVariableCached("MEMORY_PAYLOAD_MAX_CHARS")?.trim()
+  );
+
+  return {
+    summarizer: summarizer === "llm" ? "llm" : "heuristic",
+    condensedPayloads: condensedPayloads === "drop" ? "drop" : "truncate",
+    payloadMaxChars:
+      Number.isInteger(payloadMaxChars) && payloadMaxChars > 0
+        ? payloadMaxChars
+        : 500,
+  };
+}
+
+/**
+ * Get consensus mode settings (environment-only)
+ * Without CONSENSUS_PROVIDERS, the configured providers are taken in priority order
+ */
+export function getConsensusConfig(): {
+  providers: string[];
+  size: number;
+  voting: "unanimous" | "majority" | "any_blocker";
+  lexicalThreshold: number;
+} {
+  const providers = resolveEnvVariableCached("CONSENSUS_PROVIDERS")
+    ?.split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+  const size = Number(resolveEnvVariableCached("CONSENSUS_SIZE")?.trim());
+  const voting = resolveEnvVariableCached("CONSENSUS_VOTING")
+    ?.trim()
+    .toLowerCase();
+  const lexicalThreshold = Number(
+    resolveEnvVariableCached("CONSENSUS_LEXICAL_THRESHOLD")?.trim()
+  );
+
+  let priority: string[] = [];
+  try {
+    priority = getProviderPriority();
+  } catch {
+    // Invalid priority configuration: no default consensus providers
+  }
+
+  return {
+    providers: providers?.length
+      ? providers
+      : priority.filter((provider) => isProviderConfigured(provider)),
+    size: Number.isInteger(size) && size >= 2 ? size : 3,
+    voting:
+      voting === "unanimous" || voting === "any_blocker" ? voting : "majority",
+    lexicalThreshold:
+      lexicalThreshold > 0 && lexicalThreshold <= 1 ? lexicalThreshold : 0.5,
+  };
+}
+
+/**
+ * Get self-consistency sampling settings (environment-only)
+ * Fewer than 2 samples disables sampling
+ */
+export function getSelfConsistencyConfig(): {
+  samples: number;
+  temperature: number;
+} {
+  const samples = Number(
+    resolveEnvVariableCached("SELF_CONSISTENCY_SAMPLES")?.trim()
+  );
+  const temperature = Number(
+    resolveEnvVariableCached("SELF_CONSISTENCY_TEMPERATURE")?.trim()
+  );
+
+  return {
+    samples: Number.isInteger(samples) && samples >= 1 ? samples : 1,
+    temperature: temperature > 0 && temperature <= 2 ? temperature : 0.7,
+  };
+}
+
+/**
+ * Lines of code read on each side of a diff hunk (environment-only)
+ */
+export function getDiffContextLines(): number {
+  const lines = Number(resolveEnvVariableCached("DIFF_CONTEXT_LINES")?.trim());
+  return Number.isInteger(lines) && lines >= 0 ? lines : 10;
+}
+
 /**
  * Get base URL for a provider (if applicable)
  */
@@ -2501,6 +2754,14 @@ export function loadToolCallingConfig(): ToolCallingConfig {
     timeoutThinkingOptimizerMs: parseInt(
       process.env.TOOL_TIMEOUT_THINKING_OPTIMIZER_MS || "300000"
     ),
+    timeoutFullReviewMs: parseInt(
+      process.env.TOOL_TIMEOUT_FULL_REVIEW_MS ||
+        String(DEFAULT_FULL_REVIEW_TIMEOUT_MS)
+    ),
+    // Agentic tool calling step budget
+    agenticMaxSteps: parseInt(
+      process.env.TOOL_CALLING_AGENTIC_MAX_STEPS || "5"
+    ),
   };
 }
 
@@ -2533,6 +2794,13 @@ export function validateToolCallingConfig(config: ToolCallingConfig): {
     errors.push("executeCommand.enabled must be a boolean");
   }
 
+  if (
+    config.agenticMaxSteps !== undefined &&
+    (!Number.isInteger(config.agenticMaxSteps) || config.agenticMaxSteps < 0)
+  ) {
+    errors.push("agenticMaxSteps must be a non-negative integer");
+  }
+
   // Security warnings for dangerous operations
   if (config.writeToFile.enabled) {
     console.error(
@@ -0,0 +1,327 @@
+/**
+ * Consensus Validation
+ *
+ * Merges the answers several providers gave to the same prompt. Findings
+ * worded alike are merged into one that lists every provider raising it.
+ * The match is lexical, on the terms the wordings share, so the same point
+ * made in other words stays separate. The go-ahead is decided by the voting
+ * rule and the agreement score shows how far the providers agreed.
+ */
+
+import { tokenize } from "../memory/bm25.js";
+import {
+  ConsensusVerdict,
+  ConsensusVoting,
+  ImpactAnalysisResponse,
+  ResponseError,
+  ThinkingValidationResponse,
+} from "../types/thinking-validation-types.js";
+
+/**
+ * One provider's answer; result is unset when the call itself failed
+ */
+export interface ConsensusAnswer<T> {
+  provider: string;
+  result?: T;
+  error?: string;
+}
+
+export interface MergedFinding<T> {
+  item: T;
+  raisedBy: string[];
+}
+
+/**
+ * Folds the answers of the providers into one response
+ * @param threshold - Lexical similarity (0-1) from which two findings are merged
+ */
+export type ConsensusMerger<T> = (
+  answers: ConsensusAnswer<T>[],
+  voting: ConsensusVoting,
+  threshold: number
+) => { response: T; verdicts: ConsensusVerdict[] };
+
+type Level = "low" | "medium" | "high";
+
+const LEVEL_RANK: Record<Level, number> = { low: 0, medium: 1, high: 2 };
+
+function higherLevel(a: Level, b: Level): Level {
+  return LEVEL_RANK[b] > LEVEL_RANK[a] ? b : a;
+}
+
+/**
+ * Lexical similarity: share of terms two texts have in common (Dice
+ * coefficient), 0-1. Meaning is not compared, only the words used.
+ */
+export function lexicalSimilarity(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  let shared = 0;
+  for (const term of left) {
+    if (right.has(term)) shared++;
+  }
+  return (2 * shared) / (left.size + right.size);
+}
+
+/**
+ * Merge the findings of several providers, most widely raised first
+ * Each finding joins the most similar merged finding at or above the
+ * threshold, or starts a new one.
+ * @param textOf - Wording compared between findings
+ * @param combine - Folds a similar finding into the merged one
+ */
+export function mergeFindings<T>(
+  answers: { provider: string; items: T[] }[],
+  textOf: (item: T) => string,
+  threshold: number,
+  combine: (merged: T, item: T) => T = (merged) => merged
+): MergedFinding<T>[] {
+  const merged: MergedFinding<T>[] = [];
+  for (const { provider, items } of answers) {
+    for (const item of items) {
+      let match: MergedFinding<T> | undefined;
+      let matchScore = threshold;
+      for (const candidate of merged) {
+        const score = lexicalSimilarity(textOf(candidate.item), textOf(item));
+        if (score >= matchScore) {
+          match = candidate;
+          matchScore = score;
+        }
+      }
+
+      if (!match) {
+        merged.push({ item, raisedBy: [provider] });
+        continue;
+      }
+      match.item = combine(match.item, item);
+      if (!match.raisedBy.includes(provider)) {
+        match.raisedBy.push(provider);
+      }
+    }
+  }
+  return merged.sort((a, b) => b.raisedBy.length - a.raisedBy.length);
+}
+
+/**
+ * Go-ahead of the providers that answered, under the voting rule
+ */
+export function decideGoAhead(
+  verdicts: ConsensusVerdict[],
+  voting: ConsensusVoting
+): boolean {
+  const answered = verdicts.filter((verdict) => !verdict.error);
+  // Without a single answer nothing backs a go-ahead
+  if (answered.length === 0) {
+    return false;
+  }
+  switch (voting) {
+    case "unanimous":
+      return answered.every((verdict) => verdict.goAhead);
+    case "majority":
+      return (
+        answered.filter((verdict) => verdict.goAhead).length >
+        answered.length / 2
+      );
+    case "any_blocker":
+      return !answered.some((verdict) => verdict.blocker);
+  }
+}
+
+/**
+ * Mean of two shares of the providers that answered: those sharing the
+ * majority verdict, and, averaged over the merged findings, those raising
+ * each finding. 1 means identical verdicts and findings.
+ */
+export function agreementScore(
+  verdicts: ConsensusVerdict[],
+  findings: MergedFinding<unknown>[]
+): number {
+  const answered = verdicts.filter((verdict) => !verdict.error).length;
+  if (answered === 0) {
+    return 0;
+  }
+
+  const goAheads = verdicts.filter((verdict) => verdict.goAhead).length;
+  const verdictAgreement = Math.max(goAheads, answered - goAheads) / answered;
+  const findingAgreement =
+    findings.length > 0
+      ? findings.reduce(
+          (sum, finding) => sum + finding.raisedBy.length / answered,
+          0
+        ) / findings.length
+      : 1;
+  return Math.round(((verdictAgreement + findingAgreement) / 2) * 100) / 100;
+}
+
+// Why an answer has no analysis section
+function answerError(answer: ConsensusAnswer<{ error?: ResponseError }>) {
+  return (
+    answer.error ?? answer.result?.error?.message ?? "No analysis returned"
+  );
+}
+
+function mergeStrings(
+  answers: { provider: string; items: string[] }[],
+  threshold: number
+): string[] {
+  return mergeFindings(answers, (item) => item, threshold).map(
+    ({ item }) => item
+  );
+}
+
+export const mergeThinkingValidations: ConsensusMerger<
+  ThinkingValidationResponse
+> = (answers, voting, threshold) => {
+  const verdicts: ConsensusVerdict[] = answers.map((answer) => {
+    const validation = answer.result?.validation;
+    return validation
+      ? {
+          provider: answer.provider,
+          goAhead: validation.goAhead,
+          blocker: validation.criticalIssues.some(
+            (issue) => issue.priority === "high"
+          ),
+          result: validation,
+        }
+      : { provider: answer.provider, error: answerError(answer) };
+  });
+  const answered = answers.flatMap(({ provider, result }) =>
+    result?.validation ? [{ provider, validation: result.validation }] : []
+  );
+
+  const issues = mergeFindings(
+    answered.map(({ provider, validation }) => ({
+      provider,
+      items: validation.criticalIssues,
+    })),
+    (issue) => issue.issue,
+    threshold,
+    (merged, issue) => ({
+      ...merged,
+      priority: higherLevel(merged.priority, issue.priority),
+    })
+  );
+  const goAhead = decideGoAhead(verdicts, voting);
+
+  return {
+    response: {
+      validation: {
+        confidence: Math.round(
+          answered.reduce(
+            (sum, { validation }) => sum + validation.confidence,
+            0
+          ) / answered.length
+        ),
+        goAhead,
+        criticalIssues: issues.map(({ item, raisedBy }) => ({
+          ...item,
+          raisedBy,
+        })),
+        recommendations: mergeStrings(
+          answered.map(({ provider, validation }) => ({
+            provider,
+            items: validation.recommendations,
+          })),
+          threshold
+        ),
+        testCases: mergeStrings(
+          answered.map(({ provider, validation }) => ({
+            provider,
+            items: validation.testCases,
+          })),
+          threshold
+        ),
+      },
+      consensus: {
+        voting,
+        goAhead,
+        agreement: agreementScore(verdicts, issues),
+        providers: answered.map(({ provider }) => provider),
+      },
+    },
+    verdicts,
+  };
+};
+
+export const mergeImpactAnalyses: ConsensusMerger<ImpactAnalysisResponse> = (
+  answers,
+  voting,
+  threshold
+) => {
+  const verdicts: ConsensusVerdict[] = answers.map((answer) => {
+    const impacts = answer.result?.impacts;
+    return impacts
+      ? {
+          provider: answer.provider,
+          goAhead: impacts.overallRisk !== "high",
+          blocker:
+            impacts.overallRisk === "high" ||
+            impacts.cascadingRisks.some((risk) => risk.probability === "high"),
+          result: impacts,
+        }
+      : { provider: answer.provider, error: answerError(answer) };
+  });
+  const answered = answers.flatMap(({ provider, result }) =>
+    result?.impacts ? [{ provider, impacts: result.impacts }] : []
+  );
+
+  const areas = mergeFindings(
+    answered.map(({ provider, impacts }) => ({
+      provider,
+      items: impacts.affectedAreas,
+    })),
+    (area) => `${area.area} ${area.impact}`,
+    threshold
+  );
+  const risks = mergeFindings(
+    answered.map(({ provider, impacts }) => ({
+      provider,
+      items: impacts.cascadingRisks,
+    })),
+    (risk) => risk.risk,
+    threshold,
+    (merged, risk) => ({
+      ...merged,
+      probability: higherLevel(merged.probability, risk.probability),
+    })
+  );
+  const goAhead = decideGoAhead(verdicts, voting);
+
+  return {
+    response: {
+      impacts: {
+        // The most cautious rating of any provider
+        overallRisk: answered.reduce<Level>(
+          (risk, { impacts }) => higherLevel(risk, impacts.overallRisk),
+          "low"
+        ),
+        affectedAreas: areas.map(({ item, raisedBy }) => ({
+          ...item,
+          raisedBy,
+        })),
+        cascadingRisks: risks.map(({ item, raisedBy }) => ({
+          ...item,
+          raisedBy,
+        })),
+        quickTests: mergeStrings(
+          answered.map(({ provider, impacts }) => ({
+            provider,
+            items: impacts.quickTests,
+          })),
+          threshold
+        ),
+      },
+      consensus: {
+        voting,
+        goAhead,
+        agreement: agreementScore(verdicts, [...areas, ...risks]),
+        providers: answered.map(({ provider }) => provider),
+      },
+    },
+    verdicts,
+  };
+};
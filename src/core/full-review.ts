@@ -0,0 +1,115 @@
+/**
+ * Full Review
+ *
+ * Pure parts of the full_review tool, which runs assumption_checker and
+ * dependency_mapper side by side, then impact_analysis, then
+ * thinking_validation, over one read of the project files and one session.
+ * Each later stage is shown what the earlier ones found, and the verdict
+ * folds the four answers into a single go/no-go.
+ */
+
+import {
+  FullReviewResponse,
+  FullReviewStage,
+  FullReviewVerdict,
+} from "../types/thinking-validation-types.js";
+
+export type FullReviewSections = NonNullable<FullReviewResponse["sections"]>;
+
+export const STAGE_SECTIONS: Record<FullReviewStage, keyof FullReviewSections> =
+  {
+    assumption_checker: "assumptions",
+    dependency_mapper: "dependencies",
+    impact_analysis: "impact",
+    thinking_validation: "validation",
+  };
+
+/**
+ * Prompt section with what the finished stages found; empty before the
+ * first stage has answered
+ */
+export function formatEarlierFindings(sections: FullReviewSections): string {
+  const parts: string[] = [];
+
+  const risky = sections.assumptions?.validation?.riskyAssumptions ?? [];
+  if (risky.length > 0) {
+    parts.push(
+      `Risky assumptions (assumption_checker):\n${risky
+        .map(
+          (entry) =>
+            `- ${entry.assumption}: ${entry.risk} (mitigation: ${entry.mitigation})`
+        )
+        .join("\n")}`
+    );
+  }
+
+  const critical = sections.dependencies?.dependencies?.critical ?? [];
+  if (critical.length > 0) {
+    parts.push(
+      `Critical dependencies (dependency_mapper):\n${critical
+        .map((entry) => `- ${entry.dependency}: ${entry.impact}`)
+        .join("\n")}`
+    );
+  }
+
+  const impacts = sections.impact?.impacts;
+  if (impacts) {
+    parts.push(
+      [
+        `Impact (impact_analysis): overall risk ${impacts.overallRisk}`,
+        ...impacts.affectedAreas.map(
+          (entry) => `- Affected area: ${entry.area}: ${entry.impact}`
+        ),
+        ...impacts.cascadingRisks.map(
+          (entry) =>
+            `- Cascading risk (${entry.probability} probability): ${entry.risk}`
+        ),
+      ].join("\n")
+    );
+  }
+
+  if (parts.length === 0) {
+    return "";
+  }
+  return `Findings From Earlier Stages of This Review (check them against the code and build on them rather than repeating them):\n\n${parts.join(
+    "\n\n"
+  )}`;
+}
+
+/**
+ * The change goes ahead only when every stage answered, thinking_validation
+ * gave the go-ahead and impact_analysis did not rate the overall risk high
+ */
+export function decideReviewVerdict(
+  sections: FullReviewSections,
+  failures: NonNullable<FullReviewResponse["failures"]>
+): FullReviewVerdict {
+  const blockers = failures.map(
+    (failure) => `${failure.stage} failed: ${failure.message}`
+  );
+  for (const [stage, key] of Object.entries(STAGE_SECTIONS)) {
+    const error = sections[key]?.error;
+    if (error) {
+      blockers.push(`${stage} returned no analysis: ${error.message}`);
+    }
+  }
+
+  const validation = sections.validation?.validation;
+  if (validation && !validation.goAhead) {
+    const highPriority = validation.criticalIssues.filter(
+      (issue) => issue.priority === "high"
+    );
+    blockers.push(
+      highPriority.length > 0
+        ? `thinking_validation withheld the go-ahead: ${highPriority
+            .map((issue) => issue.issue)
+            .join("; ")}`
+        : "thinking_validation withheld the go-ahead"
+    );
+  }
+  if (sections.impact?.impacts?.overallRisk === "high") {
+    blockers.push("impact_analysis rated the overall risk high");
+  }
+
+  return { goAhead: blockers.length === 0, blockers };
+}
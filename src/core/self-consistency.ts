@@ -0,0 +1,108 @@
+/**
+ * Self-Consistency Sampling
+ *
+ * Estimates confidence empirically: the same prompt is sampled several times
+ * from one provider at a non-zero temperature, and the estimate is how
+ * consistently the samples reproduce the tool's verdict (goAhead,
+ * overallRisk) and its findings (critical issues, risks, assumptions).
+ */
+
+import { SelfConsistencyReport } from "../types/thinking-validation-types.js";
+import { toolResponseAccessors } from "../types/tool-responses.js";
+import { mergeFindings } from "./consensus.js";
+
+/**
+ * Agreement between samples of one tool's answer
+ * @param samples - Responses that returned an analysis, at least two
+ * @param threshold - Lexical similarity (0-1) from which two findings count as the same
+ * @returns The report and the index of the sample to return, one giving the
+ * most common verdict
+ */
+export function measureConsistency(
+  tool: string,
+  samples: any[],
+  temperature: number,
+  threshold: number
+): { report: SelfConsistencyReport; representative: number } {
+  const accessors = toolResponseAccessors(tool)!;
+
+  let verdictAgreement: number | undefined;
+  let representative = 0;
+  if (accessors.verdict) {
+    const verdicts = samples.map(accessors.verdict);
+    const counts = new Map<string | undefined, number>();
+    verdicts.forEach((verdict) =>
+      counts.set(verdict, (counts.get(verdict) ?? 0) + 1)
+    );
+    const [modal, count] = [...counts].reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best
+    );
+    verdictAgreement = count / samples.length;
+    representative = verdicts.indexOf(modal);
+  }
+
+  const findings = mergeFindings(
+    samples.map((sample, index) => ({
+      provider: String(index),
+      items: accessors.findings(sample),
+    })),
+    (finding) => finding,
+    threshold
+  );
+  const findingAgreement =
+    findings.length > 0
+      ? findings.reduce(
+          (sum, finding) => sum + finding.raisedBy.length / samples.length,
+          0
+        ) / findings.length
+      : 1;
+
+  const agreements = [verdictAgreement, findingAgreement].filter(
+    (value): value is number => value !== undefined
+  );
+  return {
+    report: {
+      samples: samples.length,
+      temperature,
+      confidence: Math.round(
+        (agreements.reduce((sum, value) => sum + value, 0) /
+          agreements.length) *
+          100
+      ),
+      verdictAgreement:
+        verdictAgreement === undefined
+          ? undefined
+          : Math.round(verdictAgreement * 100) / 100,
+      findingAgreement: Math.round(findingAgreement * 100) / 100,
+      modelConfidence: accessors.modelConfidence?.(samples[representative]),
+    },
+    representative,
+  };
+}
+
+/**
+ * Confidence stored with an attempt: the self-consistency estimate when the
+ * answer was sampled, else the model's own estimate, else the providers'
+ * agreement in consensus mode. Failed calls get 0; answers with no estimate
+ * of any kind get none.
+ */
+export function attemptConfidence(
+  tool: string,
+  response: any,
+  consistency?: SelfConsistencyReport
+): number | undefined {
+  if (response?.error) {
+    return 0;
+  }
+  if (consistency) {
+    return consistency.confidence;
+  }
+  const reported = toolResponseAccessors(tool)?.modelConfidence?.(response);
+  if (reported !== undefined) {
+    return reported;
+  }
+  if (response?.consensus) {
+    return Math.round(response.consensus.agreement * 100);
+  }
+  return undefined;
+}
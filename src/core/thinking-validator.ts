@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from "uuid";
-import { join, resolve, isAbsolute } from "path";
+import { stat } from "fs/promises";
+import { join, resolve, isAbsolute, relative } from "path";
 import {
   ThinkingValidationRequest,
   ThinkingValidationResponse,
@@ -15,18 +16,77 @@ import {
   ValidationProjectContext,
   ValidationSession,
   ValidationAttempt,
+  ResponseError,
+  ToolResponseMetadata,
+  ToolRunOptions,
+  MemoryChange,
+  SessionUpdate,
+  SessionListFilter,
+  SessionListPage,
+  IssueTracking,
+  CleanupReport,
+  SessionDigest,
+  AnalysisTarget,
+  KnowledgeSearchResult,
+  AttemptOutcome,
+  CalibrationReport,
+  ConsensusOptions,
+  ConsensusVerdict,
+  SelfConsistencyOptions,
+  SelfConsistencyReport,
+  RedTeamReport,
+  FullReviewRequest,
+  FullReviewResponse,
+  FullReviewStage,
+  DiffHunkCheck,
 } from "../types/thinking-validation-types.js";
+import { toolResponseAccessors } from "../types/tool-responses.js";
+import {
+  ThinkingValidationResultSchema,
+  ImpactAnalysisResultSchema,
+  AssumptionCheckerResultSchema,
+  DependencyMapperResultSchema,
+  ThinkingOptimizerResultSchema,
+  SessionDigestSummarySchema,
+  RedTeamResultSchema,
+} from "../types/thinking-validation-schemas.js";
 import {
-  generateTextService,
   generateObjectService,
+  generateTextWithToolsService,
+  streamTextService,
+  createProviderCallTrace,
+  ProviderCallTrace,
 } from "../unified-ai-service.js";
-import { ThinkingMemorySystem } from "../memory/thinking-memory-system.js";
+import {
+  ThinkingMemorySystem,
+  MemorySystemOptions,
+  LEGACY_STORE_FILE,
+  resolveMemoryDirectory,
+} from "../memory/thinking-memory-system.js";
+import {
+  SessionSummarizer,
+  describeAttemptRequest,
+  formatSessionDigest,
+  summarizeAttempts,
+} from "../memory/session-summarizer.js";
+import {
+  ProjectKnowledgeBase,
+  KNOWLEDGE_BASE_FILE,
+} from "../memory/project-knowledge-base.js";
+import { buildCalibrationReport } from "../memory/outcome-calibration.js";
+import {
+  isInsideAllowedRoots,
+  isInsideAllowedRootsSync,
+} from "../utils/path-access.js";
 import {
   THINKING_VALIDATION_PROMPT,
   IMPACT_ANALYSIS_PROMPT,
   ASSUMPTION_CHECKER_PROMPT,
   DEPENDENCY_MAPPER_PROMPT,
   THINKING_OPTIMIZER_PROMPT,
+  AGENTIC_TOOL_INSTRUCTIONS,
+  SESSION_DIGEST_PROMPT,
+  RED_TEAM_PROMPT,
 } from "../prompts/thinking-validation-prompts.js";
 import {
   AthenaProtocolConfig,
@@ -34,22 +94,205 @@ import {
   StandardError,
   ErrorCategory,
   getBestAvailableProvider,
+  getMemoryStorageDir,
+  getMemoryRetentionConfig,
+  getMemoryCompactionConfig,
+  getConsensusConfig,
+  getSelfConsistencyConfig,
+  getDiffContextLines,
 } from "../config-manager.js";
+import {
+  ConsensusAnswer,
+  ConsensusMerger,
+  mergeImpactAnalyses,
+  mergeThinkingValidations,
+  lexicalSimilarity,
+} from "./consensus.js";
+import { attemptConfidence, measureConsistency } from "./self-consistency.js";
+import {
+  FullReviewSections,
+  STAGE_SECTIONS,
+  decideReviewVerdict,
+  formatEarlierFindings,
+} from "./full-review.js";
 
-import { ToolCallingService } from "../services/tool-calling-service.js";
+import {
+  ToolCallingService,
+  ValidationToolName,
+} from "../services/tool-calling-service.js";
+import { createAgenticTools } from "../services/agentic-tools.js";
+import { providerSupportsFeature } from "../ai-providers/index.js";
+import {
+  parseStructuredOutput,
+  StructuredOutputError,
+} from "../utils/structured-output.js";
 import {
   createToolRegistry,
   ToolRegistry,
 } from "../internal-tools/tool-registry.js";
+import {
+  checkDiffFile,
+  diffAnalysisTargets,
+  filePathOf,
+  formatDiffSection,
+  parseUnifiedDiff,
+} from "../utils/unified-diff.js";
+import { paginate } from "../utils/pagination.js";
+
+/**
+ * Per-call state shared between a tool run and its timeout
+ */
+interface ToolRunContext {
+  signal: AbortSignal;
+  // Part of the call currently running, reported if the timeout fires
+  stage: "file_analysis" | "llm";
+  // Sends a progress update; unset when the caller did not ask for progress
+  report?: (message: string) => void;
+}
+
+/**
+ * Project files read for a call, as given to the model
+ */
+interface ProjectAnalysis {
+  content: string;
+  fileAnalysisPerformed: boolean;
+  filesAnalyzed: number;
+  toolsUsed: string[];
+}
+
+/**
+ * A change's unified diff, checked against the current files
+ */
+interface InspectedDiff {
+  checks: DiffHunkCheck[];
+  // Ranges around each hunk, read in addition to the analysis targets
+  targets: AnalysisTarget[];
+  // Prompt section showing the change as a diff
+  section: string;
+}
+
+/**
+ * What full_review hands each of its stages
+ */
+interface ReviewStageContext {
+  // Files read once for the whole review
+  analysis: ProjectAnalysis;
+  diff?: InspectedDiff;
+  // Prompt section with the findings of the earlier stages
+  earlierFindings: string;
+}
+
+// Characters of streamed model output between progress updates
+const STREAM_PROGRESS_INTERVAL_CHARS = 500;
+
+// Upper bound on self-consistency samples per call
+const MAX_SELF_CONSISTENCY_SAMPLES = 10;
+
+/**
+ * Self-consistency sampling of one call
+ */
+interface SamplingPlan {
+  samples: number;
+  temperature: number;
+}
+
+/**
+ * Earlier attempts of a session, as given to the model
+ */
+interface SessionHistory {
+  // Prompt section summarizing relevant earlier attempts; empty without history
+  summary: string;
+  // Issues reported by the latest earlier attempt of the same tool
+  priorIssues: string[];
+}
+
+// Earlier attempts summarized in the prompt
+const SESSION_HISTORY_LIMIT = 5;
+// Project knowledge entries added to the prompt
+const PROJECT_KNOWLEDGE_LIMIT = 5;
+
+/**
+ * Files a request is about, from the change and the analysis targets
+ */
+function requestFiles(request: any): string[] {
+  const files: string[] = [
+    ...(request?.proposedChange?.files ?? []),
+    ...(request?.change?.files ?? []),
+    ...(request?.projectContext?.analysisTargets ?? []).map(
+      (target: AnalysisTarget) => target.file
+    ),
+  ];
+  return [...new Set(files)];
+}
+
+/**
+ * Path an analysis target is read from: absolute as given, otherwise under
+ * the working directory or, without one, the project root
+ */
+function targetPath(
+  target: AnalysisTarget,
+  projectRoot: string,
+  workingDirectory?: string
+): string {
+  return isAbsolute(target.file)
+    ? target.file
+    : workingDirectory
+    ? resolve(workingDirectory, target.file)
+    : resolve(projectRoot, target.file);
+}
+
+/**
+ * Record the calls of parallel traces in the trace of the tool call
+ */
+function absorbTraces(
+  trace: ProviderCallTrace,
+  traces: ProviderCallTrace[]
+): void {
+  for (const entry of traces) {
+    trace.providersTried.push(...entry.providersTried);
+    trace.failures.push(...entry.failures);
+    trace.retryAttempts += entry.retryAttempts;
+  }
+}
+
+/**
+ * The project context with the ranges around the diff's hunks added to its
+ * analysis targets
+ */
+function withDiffTargets(
+  projectContext: ProjectContext | undefined,
+  diff: InspectedDiff | undefined
+): ProjectContext | undefined {
+  if (!projectContext || !diff?.targets.length) {
+    return projectContext;
+  }
+  return {
+    ...projectContext,
+    analysisTargets: [
+      ...(projectContext.analysisTargets ?? []),
+      ...diff.targets,
+    ],
+  };
+}
 
 export class ThinkingValidator {
-  private memorySystem: ThinkingMemorySystem;
+  // Memory systems by storage directory, opened on first use
+  private memorySystems: Map<string, ThinkingMemorySystem> = new Map();
+  // Memory system holding each session this process has seen
+  private sessionMemory: Map<string, ThinkingMemorySystem> = new Map();
+  private memoryOptions: MemorySystemOptions = {};
+  private memoryListeners: Set<(change: MemoryChange) => void> = new Set();
+  // Knowledge bases by storage directory, opened on first use
+  private knowledgeBases: Map<string, ProjectKnowledgeBase> = new Map();
   private activeSessions: Map<string, ValidationSession> = new Map();
+  // Sessions opened by a tool call and not stored yet, with their pending
+  // save once the first attempt is being recorded
+  private unsavedSessions: Map<string, Promise<unknown> | undefined> =
+    new Map();
   private toolCallingService?: ToolCallingService;
   private toolRegistry: ToolRegistry;
 
   constructor() {
-    this.memorySystem = new ThinkingMemorySystem();
     this.toolRegistry = createToolRegistry();
   }
 
@@ -57,14 +300,89 @@ export class ThinkingValidator {
     this.toolCallingService = service;
   }
 
+  /**
+   * Validate thinking and let the validator model call file tools itself
+   * Falls back to the pre-read context only when the provider lacks function calling
+   */
   async validateThinkingWithTools(
     request: ThinkingValidationRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
   ): Promise<ThinkingValidationResponse> {
-    // This method combines thinking validation with tool-based analysis
-    // For now, it's the same as validateThinking since we already integrated tool calling
-    return this.validateThinking(request, sessionId, provider);
+    return this.runWithTimeout(
+      "thinking_validation",
+      (run) =>
+        this.runThinkingValidation(request, sessionId, provider, true, run),
+      options
+    );
+  }
+
+  /**
+   * Run a tool under its configured timeout and the caller's abort signal
+   * Either one aborts the run's signal, stopping file reads and the LLM call,
+   * without waiting for the abandoned run to unwind. A timeout returns an
+   * error naming the running stage; a cancellation rejects. Progress updates
+   * from the run are forwarded to options.onProgress.
+   */
+  private async runWithTimeout<T extends { error?: ResponseError }>(
+    tool: ValidationToolName,
+    work: (run: ToolRunContext) => Promise<T>,
+    options: ToolRunOptions = {}
+  ): Promise<T> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
+
+    const timeoutMs = this.toolCallingService?.getToolTimeoutMs(tool) ?? 0;
+    const controller = new AbortController();
+    let progress = 0;
+    const run: ToolRunContext = {
+      signal: controller.signal,
+      stage: "file_analysis",
+      // An abandoned run must not keep reporting after its call has ended
+      report: onProgress
+        ? (message) => {
+            if (!controller.signal.aborted) {
+              onProgress({ progress: ++progress, message });
+            }
+          }
+        : undefined,
+    };
+    const result = work(run);
+    if (!(timeoutMs > 0) && !signal) {
+      return result;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    let onCancel: (() => void) | undefined;
+    const interrupted = new Promise<T>((resolve, reject) => {
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          const stage = run.stage;
+          const message = `${tool} timed out after ${timeoutMs}ms during ${
+            stage === "llm" ? "the LLM call" : "file analysis"
+          }`;
+          controller.abort(new Error(message));
+          resolve({
+            error: { timedOut: true, stage, timeoutMs, message },
+          } as T);
+        }, timeoutMs);
+      }
+      onCancel = () => {
+        controller.abort(signal!.reason);
+        reject(new Error(`${tool} was cancelled by the client`));
+      };
+      signal?.addEventListener("abort", onCancel, { once: true });
+    });
+    // The abandoned run rejects once it observes the abort; nobody awaits it
+    result.catch(() => {});
+
+    try {
+      return await Promise.race([result, interrupted]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onCancel!);
+    }
   }
 
   /**
@@ -84,70 +402,379 @@ export class ThinkingValidator {
   async initialize(llmConfig: AthenaProtocolConfig): Promise<void> {
     // The unified-ai-service handles provider configuration automatically
     // No need for explicit connector initialization
+    // Memory systems are opened lazily, so they all pick up these limits
+    this.memoryOptions = { ...llmConfig.memory };
     // Initialization complete (logging suppressed to prevent stdout contamination)
   }
 
+  /**
+   * Memory system for a project, opened on first use
+   * Each project root keeps its own store under .athena/memory; requests
+   * without one share the global store, and MEMORY_STORAGE_DIR replaces both
+   */
+  private getMemorySystem(projectRoot?: string): ThinkingMemorySystem {
+    this.checkAllowedProjectRoot(projectRoot);
+    const overrideDir = getMemoryStorageDir();
+    const directory = resolveMemoryDirectory(projectRoot, overrideDir);
+    let memory = this.memorySystems.get(directory);
+
+    if (!memory) {
+      const compaction = getMemoryCompactionConfig();
+      memory = new ThinkingMemorySystem({
+        ...this.memoryOptions,
+        summarizer:
+          compaction.summarizer === "llm"
+            ? (previous, attempts) =>
+                this.summarizeWithModel(previous, attempts)
+            : undefined,
+        condensedPayloads: {
+          mode: compaction.condensedPayloads,
+          maxChars: compaction.payloadMaxChars,
+        },
+        directory,
+        // The old single-file store lived in the working directory and knew
+        // nothing of projects, so only the shared store imports it
+        legacyStorePath:
+          projectRoot && !overrideDir
+            ? undefined
+            : join(process.cwd(), LEGACY_STORE_FILE),
+      });
+      memory.onChange((change) => {
+        for (const listener of this.memoryListeners) {
+          try {
+            listener(change);
+          } catch (error) {
+            console.error("Memory change listener failed:", error);
+          }
+        }
+      });
+      this.memorySystems.set(directory, memory);
+    }
+
+    return memory;
+  }
+
+  /**
+   * Knowledge base of a project, kept in the same directory as its memory
+   */
+  getKnowledgeBase(projectRoot?: string): ProjectKnowledgeBase {
+    this.checkAllowedProjectRoot(projectRoot);
+    const directory = resolveMemoryDirectory(
+      projectRoot,
+      getMemoryStorageDir()
+    );
+    let knowledgeBase = this.knowledgeBases.get(directory);
+    if (!knowledgeBase) {
+      knowledgeBase = new ProjectKnowledgeBase(
+        join(directory, KNOWLEDGE_BASE_FILE)
+      );
+      this.knowledgeBases.set(directory, knowledgeBase);
+    }
+    return knowledgeBase;
+  }
+
+  /**
+   * Memory and knowledge are kept under the project root, so it is held to
+   * the allowed roots as well
+   * @throws {Error} When the project root lies outside the allowed roots
+   */
+  private checkAllowedProjectRoot(projectRoot?: string): void {
+    const allowedRoots = this.toolCallingService?.getAllowedRoots();
+    if (
+      projectRoot &&
+      allowedRoots &&
+      !isInsideAllowedRootsSync(projectRoot, allowedRoots)
+    ) {
+      throw new Error(`Path '${projectRoot}' is outside the allowed roots`);
+    }
+  }
+
+  /**
+   * Session summarizer that has the default provider write the narrative
+   * and decisions; open issues still come from the attempts themselves.
+   * Falls back to the heuristic digest when the call fails.
+   */
+  private async summarizeWithModel(
+    previous: SessionDigest | undefined,
+    attempts: ValidationAttempt[]
+  ): ReturnType<SessionSummarizer> {
+    const digest = await summarizeAttempts(previous, attempts);
+    const condensed = attempts.map((attempt) => ({
+      timestamp: attempt.timestamp,
+      tool: attempt.tool,
+      subject: describeAttemptRequest(attempt.request),
+      issues:
+        toolResponseAccessors(attempt.tool)?.issues?.(attempt.response) ?? [],
+      response: attempt.response?.error
+        ? { error: attempt.response.error.message }
+        : attempt.response,
+    }));
+
+    try {
+      const result = await generateObjectService({
+        systemPrompt: SESSION_DIGEST_PROMPT,
+        prompt: `Previous digest:\n${
+          previous ? JSON.stringify(previous, null, 2) : "none"
+        }\n\nAttempts to condense (oldest first):\n${JSON.stringify(
+          condensed,
+          null,
+          2
+        )}`,
+        schema: SessionDigestSummarySchema as any,
+        objectName: "session_digest",
+      });
+      const { summary, decisions } = result.object as {
+        summary: string;
+        decisions: string[];
+      };
+      return { ...digest, summary, decisions };
+    } catch (error) {
+      console.error(
+        "Model session summary failed, using heuristic digest:",
+        (error as Error).message
+      );
+      return digest;
+    }
+  }
+
+  /**
+   * Memory systems a session lookup without a project root searches
+   * The shared store is always included, then every project store opened so far
+   */
+  private getOpenMemorySystems(): ThinkingMemorySystem[] {
+    const shared = this.getMemorySystem();
+    return [
+      shared,
+      ...[...this.memorySystems.values()].filter((memory) => memory !== shared),
+    ];
+  }
+
+  /**
+   * Memory system holding a session, or undefined when no open store has it
+   */
+  private async findSessionMemory(
+    sessionId: string,
+    projectRoot?: string
+  ): Promise<ThinkingMemorySystem | undefined> {
+    if (projectRoot) {
+      const memory = this.getMemorySystem(projectRoot);
+      return (await memory.getSession(sessionId)) ? memory : undefined;
+    }
+
+    const known = this.sessionMemory.get(sessionId);
+    if (known) {
+      return known;
+    }
+    for (const memory of this.getOpenMemorySystems()) {
+      if (await memory.getSession(sessionId)) {
+        this.sessionMemory.set(sessionId, memory);
+        return memory;
+      }
+    }
+    return undefined;
+  }
+
   async validateThinking(
     request: ThinkingValidationRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
   ): Promise<ThinkingValidationResponse> {
-    const session = await this.getOrCreateSession(sessionId, {
-      sessionId: sessionId || uuidv4(),
-      techStack: request.context.techStack,
-      problem: request.context.problem,
-      constraints: request.context.constraints,
-    });
+    return this.runWithTimeout(
+      "thinking_validation",
+      (run) =>
+        this.runThinkingValidation(request, sessionId, provider, false, run),
+      options
+    );
+  }
 
-    // Analyze project files if project context is provided
-    let projectAnalysis = "";
-    let fileAnalysisPerformed = false;
-    let filesAnalyzed = 0;
-    let toolsUsed: string[] = [];
-    if (request.projectContext && this.toolCallingService) {
-      try {
-        const analysisResult = await this.analyzeProjectFiles(
-          request.projectContext
-        );
-        projectAnalysis = analysisResult.content;
-        fileAnalysisPerformed = analysisResult.fileAnalysisPerformed;
-        filesAnalyzed = analysisResult.filesAnalyzed;
-        toolsUsed = analysisResult.toolsUsed;
-      } catch (error) {
-        // Suppress logging to prevent stdout contamination
-        projectAnalysis =
-          "Project file analysis failed, proceeding with limited context.";
-        fileAnalysisPerformed = false;
-        filesAnalyzed = 0;
-        toolsUsed = [];
-      }
-    }
+  private async runThinkingValidation(
+    request: ThinkingValidationRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    useAgenticTools: boolean,
+    run: ToolRunContext,
+    review?: ReviewStageContext
+  ): Promise<ThinkingValidationResponse> {
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        sessionId: sessionId || uuidv4(),
+        techStack: request.context.techStack,
+        problem: request.context.problem,
+        constraints: request.context.constraints,
+      },
+      request.projectContext?.projectRoot
+    );
 
-    const prompt = this.buildThinkingValidationPrompt(request, projectAnalysis);
+    const diff = review
+      ? review.diff
+      : await this.inspectDiff(
+          request.proposedChange.diff,
+          request.projectContext,
+          run
+        );
+    // Analyze project files if project context is provided
+    const analysis =
+      review?.analysis ??
+      (await this.readProjectContext(
+        withDiffTargets(request.projectContext, diff),
+        run
+      ));
+    const projectAnalysis = analysis.content;
+    let { fileAnalysisPerformed, filesAnalyzed } = analysis;
+    const toolsUsed = [...analysis.toolsUsed];
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    run.report?.("Building prompt");
+
+    const history = await this.getSessionHistory(
+      session,
+      "thinking_validation",
+      request
+    );
+    const prompt = this.buildThinkingValidationPrompt(
+      request,
+      projectAnalysis,
+      [history.summary, review?.earlierFindings].filter(Boolean).join("\n\n"),
+      diff?.section
+    );
 
     try {
       // Validate provider override before API call
       this.validateProviderOverride(provider);
 
-      const response = await generateTextService({
-        systemPrompt: THINKING_VALIDATION_PROMPT,
-        prompt: prompt,
-        providerOverride: provider,
-      });
+      const actualProviderUsed = provider || getBestAvailableProvider();
+      const trace = createProviderCallTrace();
+      // Consensus mode takes precedence over sampling
+      const sampling = request.consensus
+        ? undefined
+        : this.resolveSampling(request.selfConsistency);
+      const maxSteps = this.toolCallingService?.getAgenticMaxSteps() ?? 0;
+      let agenticSteps: number | undefined;
+      let agenticDraft: string | undefined;
+
+      // Consensus providers and samples all get the same pre-read context
+      if (
+        !request.consensus &&
+        !sampling &&
+        useAgenticTools &&
+        this.toolCallingService &&
+        request.projectContext &&
+        maxSteps > 0 &&
+        actualProviderUsed &&
+        providerSupportsFeature(actualProviderUsed, "FUNCTION_CALLING")
+      ) {
+        const filesReadByModel = new Set<string>();
+        const tools = createAgenticTools(
+          this.toolCallingService,
+          request.projectContext.projectRoot,
+          (call) => {
+            if (call.toolName === "readFileWithMode" && call.input?.path) {
+              filesReadByModel.add(call.input.path);
+            }
+          }
+        );
+
+        run.report?.("Waiting for model response (with file tools)");
+        const agenticResult = await generateTextWithToolsService({
+          systemPrompt: THINKING_VALIDATION_PROMPT,
+          prompt: `${prompt}\n\n${AGENTIC_TOOL_INSTRUCTIONS}`,
+          tools,
+          maxSteps,
+          providerOverride: provider,
+          trace,
+          abortSignal: run.signal,
+        });
+
+        agenticDraft = agenticResult.text;
+        agenticSteps = agenticResult.steps;
+        for (const call of agenticResult.toolCalls) {
+          if (!toolsUsed.includes(call.toolName)) {
+            toolsUsed.push(call.toolName);
+          }
+        }
+        if (filesReadByModel.size > 0) {
+          fileAnalysisPerformed = true;
+          filesAnalyzed += filesReadByModel.size;
+        }
+      }
+
+      let validationResult: ThinkingValidationResponse;
+      let consensusVerdicts: ConsensusVerdict[] | undefined;
+      let consistency: SelfConsistencyReport | undefined;
+      if (request.consensus) {
+        ({ response: validationResult, verdicts: consensusVerdicts } =
+          await this.generateConsensusResponse(
+            {
+              systemPrompt: THINKING_VALIDATION_PROMPT,
+              prompt,
+              schema: ThinkingValidationResultSchema,
+              objectName: "thinking_validation",
+            },
+            request.consensus,
+            mergeThinkingValidations,
+            provider,
+            trace,
+            run
+          ));
+      } else {
+        ({ response: validationResult, consistency } =
+          await this.generateSampledResponse<ThinkingValidationResponse>(
+            {
+              systemPrompt: THINKING_VALIDATION_PROMPT,
+              prompt,
+              schema: ThinkingValidationResultSchema,
+              objectName: "thinking_validation",
+              draft: agenticDraft,
+            },
+            sampling,
+            provider,
+            trace,
+            run
+          ));
+      }
+      // The reported confidence becomes the empirical one
+      if (consistency && validationResult.validation) {
+        validationResult.validation.confidence = consistency.confidence;
+      }
 
-      const validationResult: ThinkingValidationResponse =
-        this.parseThinkingValidationResponse(response);
+      let redTeam: RedTeamReport | undefined;
+      if (
+        (request.redTeam ?? request.urgency === "high") &&
+        validationResult.validation
+      ) {
+        redTeam = await this.runRedTeamPass(
+          prompt,
+          validationResult.validation,
+          provider,
+          trace,
+          run
+        );
+      }
 
       // Add provider metadata
-      const actualProviderUsed = provider || getBestAvailableProvider();
       validationResult.metadata = {
-        providerUsed: actualProviderUsed || undefined,
-        overrideRequested: !!provider,
-        overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+        ...this.getProviderMetadata(provider, trace),
         fileAnalysisPerformed,
         filesAnalyzed,
         toolsUsed,
+        agenticSteps,
+        redTeam,
+        sessionId: session.id,
+        consensusVerdicts,
+        selfConsistency: consistency,
+        diffCheck: diff?.checks,
       };
+      validationResult.issueTracking = this.trackIssues(
+        "thinking_validation",
+        history.priorIssues,
+        validationResult
+      );
+
+      // A timed-out or cancelled call has already been answered; leave no
+      // attempt behind
+      run.signal.throwIfAborted();
 
       // Store in memory
       const attempt: ValidationAttempt = {
@@ -156,21 +783,20 @@ export class ThinkingValidator {
         tool: "thinking_validation",
         request,
         response: validationResult,
-        confidence: validationResult.validation.confidence,
+        confidence: attemptConfidence(
+          "thinking_validation",
+          validationResult,
+          consistency
+        ),
       };
 
+      // Persist first so a failed or interrupted write leaves no attempt
+      // in the active session either
+      await this.recordAttempt(session, attempt);
+
       session.validationHistory.push(attempt);
       this.activeSessions.set(session.id, session);
 
-      // Persist the validation attempt to memory system
-      await this.memorySystem.addValidationAttempt(
-        session.id,
-        "thinking_validation",
-        request,
-        validationResult,
-        validationResult.validation.confidence
-      );
-
       return validationResult;
     } catch (error) {
       // Suppress error logging to prevent stdout contamination
@@ -183,66 +809,128 @@ export class ThinkingValidator {
   async analyzeImpact(
     request: ImpactAnalysisRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
   ): Promise<ImpactAnalysisResponse> {
-    const session = await this.getOrCreateSession(sessionId, {
-      sessionId: sessionId || uuidv4(),
-      problem: request.change.description,
-      architecture: request.systemContext.architecture,
-      keyDependencies: request.systemContext.keyDependencies,
-      files: request.change.files,
-      changeDescription: request.change.description,
-    });
+    return this.runWithTimeout(
+      "impact_analysis",
+      (run) => this.runImpactAnalysis(request, sessionId, provider, run),
+      options
+    );
+  }
 
-    // Analyze project files if project context is provided
-    let projectAnalysis = "";
-    let fileAnalysisPerformed = false;
-    let filesAnalyzed = 0;
-    let toolsUsed: string[] = [];
-    if (request.projectContext && this.toolCallingService) {
-      try {
-        const analysisResult = await this.analyzeProjectFiles(
-          request.projectContext
-        );
-        projectAnalysis = analysisResult.content;
-        fileAnalysisPerformed = analysisResult.fileAnalysisPerformed;
-        filesAnalyzed = analysisResult.filesAnalyzed;
-        toolsUsed = analysisResult.toolsUsed;
-      } catch (error) {
-        // Suppress logging to prevent stdout contamination
-        projectAnalysis =
-          "Project file analysis failed, proceeding with limited context.";
-        fileAnalysisPerformed = false;
-        filesAnalyzed = 0;
-        toolsUsed = [];
-      }
-    }
+  private async runImpactAnalysis(
+    request: ImpactAnalysisRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    run: ToolRunContext,
+    review?: ReviewStageContext
+  ): Promise<ImpactAnalysisResponse> {
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        sessionId: sessionId || uuidv4(),
+        problem: request.change.description,
+        architecture: request.systemContext.architecture,
+        keyDependencies: request.systemContext.keyDependencies,
+        files: request.change.files,
+        changeDescription: request.change.description,
+      },
+      request.projectContext?.projectRoot
+    );
 
-    const prompt = this.buildImpactAnalysisPrompt(request, projectAnalysis);
+    const diff = review
+      ? review.diff
+      : await this.inspectDiff(
+          request.change.diff,
+          request.projectContext,
+          run
+        );
+    // Analyze project files if project context is provided
+    const analysis =
+      review?.analysis ??
+      (await this.readProjectContext(
+        withDiffTargets(request.projectContext, diff),
+        run
+      ));
+    const projectAnalysis = analysis.content;
+    const { fileAnalysisPerformed, filesAnalyzed } = analysis;
+    const toolsUsed = [...analysis.toolsUsed];
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    run.report?.("Building prompt");
+
+    const history = await this.getSessionHistory(
+      session,
+      "impact_analysis",
+      request
+    );
+    const prompt = this.buildImpactAnalysisPrompt(
+      request,
+      projectAnalysis,
+      [history.summary, review?.earlierFindings].filter(Boolean).join("\n\n"),
+      diff?.section
+    );
 
     try {
       // Validate provider override before API call
       this.validateProviderOverride(provider);
 
-      const response = await generateTextService({
-        systemPrompt: IMPACT_ANALYSIS_PROMPT,
-        prompt: prompt,
-        providerOverride: provider,
-      });
-
-      const impactResult: ImpactAnalysisResponse =
-        this.parseImpactAnalysisResponse(response);
+      const trace = createProviderCallTrace();
+      let impactResult: ImpactAnalysisResponse;
+      let consensusVerdicts: ConsensusVerdict[] | undefined;
+      let consistency: SelfConsistencyReport | undefined;
+      if (request.consensus) {
+        ({ response: impactResult, verdicts: consensusVerdicts } =
+          await this.generateConsensusResponse(
+            {
+              systemPrompt: IMPACT_ANALYSIS_PROMPT,
+              prompt,
+              schema: ImpactAnalysisResultSchema,
+              objectName: "impact_analysis",
+            },
+            request.consensus,
+            mergeImpactAnalyses,
+            provider,
+            trace,
+            run
+          ));
+      } else {
+        ({ response: impactResult, consistency } =
+          await this.generateSampledResponse<ImpactAnalysisResponse>(
+            {
+              systemPrompt: IMPACT_ANALYSIS_PROMPT,
+              prompt,
+              schema: ImpactAnalysisResultSchema,
+              objectName: "impact_analysis",
+            },
+            this.resolveSampling(request.selfConsistency),
+            provider,
+            trace,
+            run
+          ));
+      }
 
       // Add provider metadata
-      const actualProviderUsed = provider || getBestAvailableProvider();
       impactResult.metadata = {
-        providerUsed: actualProviderUsed || undefined,
-        overrideRequested: !!provider,
-        overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+        ...this.getProviderMetadata(provider, trace),
         fileAnalysisPerformed,
         filesAnalyzed,
         toolsUsed,
+        sessionId: session.id,
+        consensusVerdicts,
+        selfConsistency: consistency,
+        diffCheck: diff?.checks,
       };
+      impactResult.issueTracking = this.trackIssues(
+        "impact_analysis",
+        history.priorIssues,
+        impactResult
+      );
+
+      // A timed-out or cancelled call has already been answered; leave no
+      // attempt behind
+      run.signal.throwIfAborted();
 
       // Store in memory
       const attempt: ValidationAttempt = {
@@ -251,21 +939,20 @@ export class ThinkingValidator {
         tool: "impact_analysis",
         request,
         response: impactResult,
-        confidence: 90, // Default confidence for impact analysis
+        confidence: attemptConfidence(
+          "impact_analysis",
+          impactResult,
+          consistency
+        ),
       };
 
+      // Persist first so a failed or interrupted write leaves no attempt
+      // in the active session either
+      await this.recordAttempt(session, attempt);
+
       session.validationHistory.push(attempt);
       this.activeSessions.set(session.id, session);
 
-      // Persist the validation attempt to memory system
-      await this.memorySystem.addValidationAttempt(
-        session.id,
-        "impact_analysis",
-        request,
-        impactResult,
-        90
-      );
-
       return impactResult;
     } catch (error) {
       // Suppress error logging to prevent stdout contamination
@@ -276,63 +963,93 @@ export class ThinkingValidator {
   async checkAssumptions(
     request: AssumptionCheckerRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
+  ): Promise<AssumptionCheckerResponse> {
+    return this.runWithTimeout(
+      "assumption_checker",
+      (run) => this.runAssumptionCheck(request, sessionId, provider, run),
+      options
+    );
+  }
+
+  private async runAssumptionCheck(
+    request: AssumptionCheckerRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    run: ToolRunContext,
+    review?: ReviewStageContext
   ): Promise<AssumptionCheckerResponse> {
     // Analyze project files if project context is provided
-    let projectAnalysis = "";
-    let fileAnalysisPerformed = false;
-    let filesAnalyzed = 0;
-    let toolsUsed: string[] = [];
-    if (request.projectContext && this.toolCallingService) {
-      try {
-        const analysisResult = await this.analyzeProjectFiles(
-          request.projectContext
-        );
-        projectAnalysis = analysisResult.content;
-        fileAnalysisPerformed = analysisResult.fileAnalysisPerformed;
-        filesAnalyzed = analysisResult.filesAnalyzed;
-        toolsUsed = analysisResult.toolsUsed;
-      } catch (error) {
-        // Suppress logging to prevent stdout contamination
-        projectAnalysis =
-          "Project file analysis failed, proceeding with limited context.";
-        fileAnalysisPerformed = false;
-        filesAnalyzed = 0;
-        toolsUsed = [];
-      }
-    }
+    const analysis =
+      review?.analysis ??
+      (await this.readProjectContext(request.projectContext, run));
+    const projectAnalysis = analysis.content;
+    const { fileAnalysisPerformed, filesAnalyzed } = analysis;
+    const toolsUsed = [...analysis.toolsUsed];
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    run.report?.("Building prompt");
+
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        sessionId: sessionId || uuidv4(),
+        problem: request.context.component,
+        component: request.context.component,
+        environment: request.context.environment,
+      },
+      request.projectContext?.projectRoot
+    );
 
-    const prompt = this.buildAssumptionCheckerPrompt(request, projectAnalysis);
-    const session = await this.getOrCreateSession(sessionId, {
-      sessionId: sessionId || uuidv4(),
-      problem: request.context.component,
-      component: request.context.component,
-      environment: request.context.environment,
-    });
+    const history = await this.getSessionHistory(
+      session,
+      "assumption_checker",
+      request
+    );
+    const prompt = this.buildAssumptionCheckerPrompt(
+      request,
+      projectAnalysis,
+      [history.summary, review?.earlierFindings].filter(Boolean).join("\n\n")
+    );
 
     try {
       // Validate provider override before API call
       this.validateProviderOverride(provider);
 
-      const response = await generateTextService({
-        systemPrompt: ASSUMPTION_CHECKER_PROMPT,
-        prompt: prompt,
-        providerOverride: provider,
-      });
-
-      const assumptionResult: AssumptionCheckerResponse =
-        this.parseAssumptionCheckerResponse(response);
+      const trace = createProviderCallTrace();
+      const { response: assumptionResult, consistency } =
+        await this.generateSampledResponse<AssumptionCheckerResponse>(
+          {
+            systemPrompt: ASSUMPTION_CHECKER_PROMPT,
+            prompt,
+            schema: AssumptionCheckerResultSchema,
+            objectName: "assumption_checker",
+          },
+          this.resolveSampling(request.selfConsistency),
+          provider,
+          trace,
+          run
+        );
 
       // Add provider metadata
-      const actualProviderUsed = provider || getBestAvailableProvider();
       assumptionResult.metadata = {
-        providerUsed: actualProviderUsed || undefined,
-        overrideRequested: !!provider,
-        overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+        ...this.getProviderMetadata(provider, trace),
         fileAnalysisPerformed,
         filesAnalyzed,
         toolsUsed,
+        sessionId: session.id,
+        selfConsistency: consistency,
       };
+      assumptionResult.issueTracking = this.trackIssues(
+        "assumption_checker",
+        history.priorIssues,
+        assumptionResult
+      );
+
+      // A timed-out or cancelled call has already been answered; leave no
+      // attempt behind
+      run.signal.throwIfAborted();
 
       // Store in memory
       const attempt: ValidationAttempt = {
@@ -341,21 +1058,20 @@ export class ThinkingValidator {
         tool: "assumption_checker",
         request,
         response: assumptionResult,
-        confidence: 85, // Default confidence for assumption checking
+        confidence: attemptConfidence(
+          "assumption_checker",
+          assumptionResult,
+          consistency
+        ),
       };
 
+      // Persist first so a failed or interrupted write leaves no attempt
+      // in the active session either
+      await this.recordAttempt(session, attempt);
+
       session.validationHistory.push(attempt);
       this.activeSessions.set(session.id, session);
 
-      // Persist the validation attempt to memory system
-      await this.memorySystem.addValidationAttempt(
-        session.id,
-        "assumption_checker",
-        request,
-        assumptionResult,
-        85
-      );
-
       return assumptionResult;
     } catch (error) {
       // Suppress error logging to prevent stdout contamination
@@ -368,65 +1084,102 @@ export class ThinkingValidator {
   async mapDependencies(
     request: DependencyMapperRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
   ): Promise<DependencyMapperResponse> {
-    // Analyze project files if project context is provided
-    let projectAnalysis = "";
-    let fileAnalysisPerformed = false;
-    let filesAnalyzed = 0;
-    let toolsUsed: string[] = [];
-    if (request.projectContext && this.toolCallingService) {
-      try {
-        const analysisResult = await this.analyzeProjectFiles(
-          request.projectContext
+    return this.runWithTimeout(
+      "dependency_mapper",
+      (run) => this.runDependencyMapping(request, sessionId, provider, run),
+      options
+    );
+  }
+
+  private async runDependencyMapping(
+    request: DependencyMapperRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    run: ToolRunContext,
+    review?: ReviewStageContext
+  ): Promise<DependencyMapperResponse> {
+    const diff = review
+      ? review.diff
+      : await this.inspectDiff(
+          request.change.diff,
+          request.projectContext,
+          run
         );
-        projectAnalysis = analysisResult.content;
-        fileAnalysisPerformed = analysisResult.fileAnalysisPerformed;
-        filesAnalyzed = analysisResult.filesAnalyzed;
-        toolsUsed = analysisResult.toolsUsed;
-      } catch (error) {
-        // Suppress logging to prevent stdout contamination
-        projectAnalysis =
-          "Project file analysis failed, proceeding with limited context.";
-        fileAnalysisPerformed = false;
-        filesAnalyzed = 0;
-        toolsUsed = [];
-      }
-    }
+    // Analyze project files if project context is provided
+    const analysis =
+      review?.analysis ??
+      (await this.readProjectContext(
+        withDiffTargets(request.projectContext, diff),
+        run
+      ));
+    const projectAnalysis = analysis.content;
+    const { fileAnalysisPerformed, filesAnalyzed } = analysis;
+    const toolsUsed = [...analysis.toolsUsed];
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    run.report?.("Building prompt");
+
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        sessionId: sessionId || uuidv4(),
+        problem: request.change.description,
+        files: request.change.files,
+        component: request.change.components?.[0],
+        changeDescription: request.change.description,
+      },
+      request.projectContext?.projectRoot
+    );
 
-    const prompt = this.buildDependencyMapperPrompt(request, projectAnalysis);
-    const session = await this.getOrCreateSession(sessionId, {
-      sessionId: sessionId || uuidv4(),
-      problem: request.change.description,
-      files: request.change.files,
-      component: request.change.components?.[0],
-      changeDescription: request.change.description,
-    });
+    const history = await this.getSessionHistory(
+      session,
+      "dependency_mapper",
+      request
+    );
+    const prompt = this.buildDependencyMapperPrompt(
+      request,
+      projectAnalysis,
+      [history.summary, review?.earlierFindings].filter(Boolean).join("\n\n"),
+      diff?.section
+    );
 
     try {
       // Validate provider override before API call
       this.validateProviderOverride(provider);
 
-      const response = await generateTextService({
-        systemPrompt: DEPENDENCY_MAPPER_PROMPT,
-        prompt: prompt,
-        providerOverride: provider,
-      });
-
-      const dependencyResult: DependencyMapperResponse =
-        this.parseDependencyMapperResponse(response);
+      const trace = createProviderCallTrace();
+      const { response: dependencyResult, consistency } =
+        await this.generateSampledResponse<DependencyMapperResponse>(
+          {
+            systemPrompt: DEPENDENCY_MAPPER_PROMPT,
+            prompt,
+            schema: DependencyMapperResultSchema,
+            objectName: "dependency_mapper",
+          },
+          this.resolveSampling(request.selfConsistency),
+          provider,
+          trace,
+          run
+        );
 
       // Add provider metadata
-      const actualProviderUsed = provider || getBestAvailableProvider();
       dependencyResult.metadata = {
-        providerUsed: actualProviderUsed || undefined,
-        overrideRequested: !!provider,
-        overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+        ...this.getProviderMetadata(provider, trace),
         fileAnalysisPerformed,
         filesAnalyzed,
         toolsUsed,
+        sessionId: session.id,
+        selfConsistency: consistency,
+        diffCheck: diff?.checks,
       };
 
+      // A timed-out or cancelled call has already been answered; leave no
+      // attempt behind
+      run.signal.throwIfAborted();
+
       // Store in memory
       const attempt: ValidationAttempt = {
         id: uuidv4(),
@@ -434,21 +1187,20 @@ export class ThinkingValidator {
         tool: "dependency_mapper",
         request,
         response: dependencyResult,
-        confidence: 80, // Default confidence for dependency mapping
+        confidence: attemptConfidence(
+          "dependency_mapper",
+          dependencyResult,
+          consistency
+        ),
       };
 
+      // Persist first so a failed or interrupted write leaves no attempt
+      // in the active session either
+      await this.recordAttempt(session, attempt);
+
       session.validationHistory.push(attempt);
       this.activeSessions.set(session.id, session);
 
-      // Persist the validation attempt to memory system
-      await this.memorySystem.addValidationAttempt(
-        session.id,
-        "dependency_mapper",
-        request,
-        dependencyResult,
-        80
-      );
-
       return dependencyResult;
     } catch (error) {
       // Suppress error logging to prevent stdout contamination
@@ -461,66 +1213,87 @@ export class ThinkingValidator {
   async optimizeThinking(
     request: ThinkingOptimizerRequest,
     sessionId?: string,
-    provider?: string
+    provider?: string,
+    options: ToolRunOptions = {}
+  ): Promise<ThinkingOptimizerResponse> {
+    return this.runWithTimeout(
+      "thinking_optimizer",
+      (run) => this.runThinkingOptimization(request, sessionId, provider, run),
+      options
+    );
+  }
+
+  private async runThinkingOptimization(
+    request: ThinkingOptimizerRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    run: ToolRunContext
   ): Promise<ThinkingOptimizerResponse> {
     // Analyze project files if project context is provided
-    let projectAnalysis = "";
-    let fileAnalysisPerformed = false;
-    let filesAnalyzed = 0;
-    let toolsUsed: string[] = [];
-    if (request.projectContext && this.toolCallingService) {
-      try {
-        const analysisResult = await this.analyzeProjectFiles(
-          request.projectContext
-        );
-        projectAnalysis = analysisResult.content;
-        fileAnalysisPerformed = analysisResult.fileAnalysisPerformed;
-        filesAnalyzed = analysisResult.filesAnalyzed;
-        toolsUsed = analysisResult.toolsUsed;
-      } catch (error) {
-        // Suppress logging to prevent stdout contamination
-        projectAnalysis =
-          "Project file analysis failed, proceeding with limited context.";
-        fileAnalysisPerformed = false;
-        filesAnalyzed = 0;
-        toolsUsed = [];
-      }
-    }
+    const analysis = await this.readProjectContext(request.projectContext, run);
+    const projectAnalysis = analysis.content;
+    const { fileAnalysisPerformed, filesAnalyzed, toolsUsed } = analysis;
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    run.report?.("Building prompt");
+
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        sessionId: sessionId || uuidv4(),
+        problem: request.currentApproach,
+        problemType: request.problemType,
+        complexity: request.complexity,
+        timeConstraint: request.timeConstraint,
+        currentApproach: request.currentApproach,
+      },
+      request.projectContext?.projectRoot
+    );
 
-    const prompt = this.buildThinkingOptimizerPrompt(request, projectAnalysis);
-    const session = await this.getOrCreateSession(sessionId, {
-      sessionId: sessionId || uuidv4(),
-      problem: request.currentApproach,
-      problemType: request.problemType,
-      complexity: request.complexity,
-      timeConstraint: request.timeConstraint,
-      currentApproach: request.currentApproach,
-    });
+    const history = await this.getSessionHistory(
+      session,
+      "thinking_optimizer",
+      request
+    );
+    const prompt = this.buildThinkingOptimizerPrompt(
+      request,
+      projectAnalysis,
+      history.summary
+    );
 
     try {
       // Validate provider override before API call
       this.validateProviderOverride(provider);
 
-      const response = await generateTextService({
-        systemPrompt: THINKING_OPTIMIZER_PROMPT,
-        prompt: prompt,
-        providerOverride: provider,
-      });
-
-      const optimizationResult: ThinkingOptimizerResponse =
-        this.parseThinkingOptimizerResponse(response);
+      const trace = createProviderCallTrace();
+      const { response: optimizationResult, consistency } =
+        await this.generateSampledResponse<ThinkingOptimizerResponse>(
+          {
+            systemPrompt: THINKING_OPTIMIZER_PROMPT,
+            prompt,
+            schema: ThinkingOptimizerResultSchema,
+            objectName: "thinking_optimizer",
+          },
+          this.resolveSampling(request.selfConsistency),
+          provider,
+          trace,
+          run
+        );
 
       // Add provider metadata
-      const actualProviderUsed = provider || getBestAvailableProvider();
       optimizationResult.metadata = {
-        providerUsed: actualProviderUsed || undefined,
-        overrideRequested: !!provider,
-        overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+        ...this.getProviderMetadata(provider, trace),
         fileAnalysisPerformed,
         filesAnalyzed,
         toolsUsed,
+        sessionId: session.id,
+        selfConsistency: consistency,
       };
 
+      // A timed-out or cancelled call has already been answered; leave no
+      // attempt behind
+      run.signal.throwIfAborted();
+
       // Store in memory
       const attempt: ValidationAttempt = {
         id: uuidv4(),
@@ -528,21 +1301,20 @@ export class ThinkingValidator {
         tool: "thinking_optimizer",
         request,
         response: optimizationResult,
-        confidence: optimizationResult.optimizedStrategy.successProbability,
+        confidence: attemptConfidence(
+          "thinking_optimizer",
+          optimizationResult,
+          consistency
+        ),
       };
 
+      // Persist first so a failed or interrupted write leaves no attempt
+      // in the active session either
+      await this.recordAttempt(session, attempt);
+
       session.validationHistory.push(attempt);
       this.activeSessions.set(session.id, session);
 
-      // Persist the validation attempt to memory system
-      await this.memorySystem.addValidationAttempt(
-        session.id,
-        "thinking_optimizer",
-        request,
-        optimizationResult,
-        optimizationResult.optimizedStrategy.successProbability
-      );
-
       return optimizationResult;
     } catch (error) {
       // Suppress error logging to prevent stdout contamination
@@ -552,12 +1324,331 @@ export class ThinkingValidator {
     }
   }
 
-  private async analyzeProjectFiles(projectContext: ProjectContext): Promise<{
-    content: string;
-    fileAnalysisPerformed: boolean;
-    filesAnalyzed: number;
-    toolsUsed: string[];
-  }> {
+  async fullReview(
+    request: FullReviewRequest,
+    sessionId?: string,
+    provider?: string,
+    options: ToolRunOptions = {}
+  ): Promise<FullReviewResponse> {
+    return this.runWithTimeout(
+      "full_review",
+      (run) => this.runFullReview(request, sessionId, provider, run),
+      options
+    );
+  }
+
+  /**
+   * Run the four analyses of full_review over one file read, recording
+   * their attempts in one session. assumption_checker and dependency_mapper
+   * are independent and run side by side; impact_analysis and then
+   * thinking_validation are shown what the earlier stages found. A stage
+   * that throws is reported in failures and blocks the go-ahead.
+   * @throws Error when every stage failed
+   */
+  private async runFullReview(
+    request: FullReviewRequest,
+    sessionId: string | undefined,
+    provider: string | undefined,
+    run: ToolRunContext
+  ): Promise<FullReviewResponse> {
+    const component =
+      request.component ||
+      request.proposedChange.files?.join(", ") ||
+      request.context.problem;
+    const environment = request.environment || "production";
+    // Opened before the stages so the parallel ones share it
+    const session = await this.getOrCreateSession(
+      sessionId,
+      {
+        techStack: request.context.techStack,
+        problem: request.context.problem,
+        constraints: request.context.constraints,
+        component,
+        environment,
+        architecture: request.systemContext?.architecture,
+        keyDependencies: request.systemContext?.keyDependencies,
+        files: request.proposedChange.files,
+        changeDescription: request.proposedChange.description,
+      },
+      request.projectContext?.projectRoot
+    );
+
+    const diff = await this.inspectDiff(
+      request.proposedChange.diff,
+      request.projectContext,
+      run
+    );
+    const analysis = await this.readProjectContext(
+      withDiffTargets(request.projectContext, diff),
+      run
+    );
+    run.signal.throwIfAborted();
+    run.stage = "llm";
+    const shared = {
+      projectContext: request.projectContext,
+      projectBackground: request.projectBackground,
+    };
+    const sections: FullReviewSections = {};
+    const failures: NonNullable<FullReviewResponse["failures"]> = [];
+    const runStage = async <T>(
+      stage: FullReviewStage,
+      work: (review: ReviewStageContext) => Promise<T>
+    ): Promise<T | undefined> => {
+      run.report?.(`Running ${stage}`);
+      try {
+        return await work({
+          analysis,
+          diff,
+          earlierFindings: formatEarlierFindings(sections),
+        });
+      } catch (error) {
+        run.signal.throwIfAborted();
+        failures.push({ stage, message: (error as Error).message });
+        return undefined;
+      }
+    };
+
+    // Parallel streams would interleave their progress updates
+    const quiet: ToolRunContext = { signal: run.signal, stage: run.stage };
+    [sections.assumptions, sections.dependencies] = await Promise.all([
+      runStage("assumption_checker", (review) =>
+        this.runAssumptionCheck(
+          {
+            assumptions: request.assumptions,
+            context: { component, environment },
+            ...shared,
+          },
+          session.id,
+          provider,
+          quiet,
+          review
+        )
+      ),
+      runStage("dependency_mapper", (review) =>
+        this.runDependencyMapping(
+          {
+            change: {
+              description: request.proposedChange.description,
+              diff: request.proposedChange.diff,
+              files: request.proposedChange.files,
+              components: request.component ? [request.component] : undefined,
+            },
+            ...shared,
+          },
+          session.id,
+          provider,
+          quiet,
+          review
+        )
+      ),
+    ]);
+    sections.impact = await runStage("impact_analysis", (review) =>
+      this.runImpactAnalysis(
+        {
+          change: request.proposedChange,
+          systemContext: request.systemContext ?? {},
+          ...shared,
+        },
+        session.id,
+        provider,
+        run,
+        review
+      )
+    );
+    sections.validation = await runStage("thinking_validation", (review) =>
+      this.runThinkingValidation(
+        {
+          thinking: request.thinking,
+          proposedChange: request.proposedChange,
+          context: request.context,
+          urgency: request.urgency,
+          redTeam: request.redTeam,
+          ...shared,
+        },
+        session.id,
+        provider,
+        false,
+        run,
+        review
+      )
+    );
+
+    if (failures.length === Object.keys(STAGE_SECTIONS).length) {
+      throw new Error(
+        `Full review failed, no stage answered: ${failures
+          .map((failure) => `${failure.stage} (${failure.message})`)
+          .join("; ")}`
+      );
+    }
+
+    const providersUsed = Object.values(sections).flatMap(
+      (section) => section?.metadata?.providerUsed ?? []
+    );
+    return {
+      verdict: decideReviewVerdict(sections, failures),
+      sections,
+      failures: failures.length > 0 ? failures : undefined,
+      metadata: {
+        providerUsed: [...new Set(providersUsed)].join("+") || undefined,
+        fileAnalysisPerformed: analysis.fileAnalysisPerformed,
+        filesAnalyzed: analysis.filesAnalyzed,
+        toolsUsed: analysis.toolsUsed,
+        sessionId: session.id,
+        diffCheck: diff?.checks,
+      },
+    };
+  }
+
+  /**
+   * Parse a change's unified diff and check each hunk against the current
+   * file under projectRoot. Hunks of files that cannot be read, or that lie
+   * outside projectRoot, are left unchecked and get no analysis target.
+   * @throws DiffParseError when the diff cannot be parsed
+   */
+  private async inspectDiff(
+    diff: string | undefined,
+    projectContext: ProjectContext | undefined,
+    run: ToolRunContext
+  ): Promise<InspectedDiff | undefined> {
+    if (!diff) {
+      return undefined;
+    }
+    const files = parseUnifiedDiff(diff);
+    run.report?.("Checking diff against project files");
+
+    const contextLines = getDiffContextLines();
+    const checks: DiffHunkCheck[] = [];
+    const targets: AnalysisTarget[] = [];
+    for (const file of files) {
+      const unchecked = (message: string) =>
+        checks.push(
+          ...file.hunks.map((hunk) => ({
+            file: filePathOf(file),
+            hunk: hunk.header,
+            status: "unchecked" as const,
+            message,
+          }))
+        );
+      if (!projectContext || !this.toolCallingService) {
+        unchecked("Project files cannot be read");
+        continue;
+      }
+      const root = resolve(projectContext.projectRoot);
+      const fullPath = resolve(root, file.oldPath ?? file.newPath ?? "");
+      const fromRoot = relative(root, fullPath);
+      if (!fromRoot || fromRoot.startsWith("..") || isAbsolute(fromRoot)) {
+        unchecked("The path is outside projectRoot");
+        continue;
+      }
+
+      let content: string | undefined;
+      const exists = await stat(fullPath).then(
+        (stats) => stats.isFile(),
+        () => false
+      );
+      if (exists) {
+        const read = await this.toolCallingService.readFileWithMode(
+          { path: fullPath, mode: "full" },
+          run.signal
+        );
+        if (!read.success) {
+          unchecked(read.error ?? "The file could not be read");
+          continue;
+        }
+        content = read.content ?? "";
+      }
+      run.signal.throwIfAborted();
+
+      const fileChecks = checkDiffFile(file, content);
+      checks.push(...fileChecks);
+      if (exists) {
+        targets.push(
+          ...diffAnalysisTargets(file, fileChecks, contextLines, (path) =>
+            resolve(root, path)
+          )
+        );
+      }
+    }
+
+    return {
+      checks,
+      targets,
+      section: formatDiffSection(files, checks),
+    };
+  }
+
+  /**
+   * Read the files a request targets; without a project context or tool
+   * calling service nothing is read, and a failed read leaves a note for the
+   * model instead of failing the call, unless the run was aborted
+   */
+  private async readProjectContext(
+    projectContext: ProjectContext | undefined,
+    run: ToolRunContext
+  ): Promise<ProjectAnalysis> {
+    if (!projectContext || !this.toolCallingService) {
+      return {
+        content: "",
+        fileAnalysisPerformed: false,
+        filesAnalyzed: 0,
+        toolsUsed: [],
+      };
+    }
+    await this.checkAllowedPaths(projectContext);
+    try {
+      return await this.analyzeProjectFiles(projectContext, run);
+    } catch (error) {
+      // A timed-out or cancelled run must stop here, not go on to the LLM
+      if (run.signal.aborted) {
+        throw error;
+      }
+      // Suppress logging to prevent stdout contamination
+      return {
+        content:
+          "Project file analysis failed, proceeding with limited context.",
+        fileAnalysisPerformed: false,
+        filesAnalyzed: 0,
+        toolsUsed: [],
+      };
+    }
+  }
+
+  /**
+   * Reject a project context that reaches outside the allowed roots, so a
+   * shared server never reads files it was not configured to expose
+   * @throws {Error} When the project root, working directory or a target
+   * lies outside the allowed roots
+   */
+  private async checkAllowedPaths(
+    projectContext: ProjectContext
+  ): Promise<void> {
+    const allowedRoots = this.toolCallingService?.getAllowedRoots();
+    if (!allowedRoots) {
+      return;
+    }
+    const {
+      projectRoot,
+      workingDirectory,
+      analysisTargets = [],
+    } = projectContext;
+    const paths = [
+      projectRoot,
+      ...(workingDirectory ? [workingDirectory] : []),
+      ...analysisTargets.map((target) =>
+        targetPath(target, projectRoot, workingDirectory)
+      ),
+    ];
+    for (const path of paths) {
+      if (!(await isInsideAllowedRoots(path, allowedRoots))) {
+        throw new Error(`Path '${path}' is outside the allowed roots`);
+      }
+    }
+  }
+
+  private async analyzeProjectFiles(
+    projectContext: ProjectContext,
+    run?: ToolRunContext
+  ): Promise<ProjectAnalysis> {
     if (!this.toolCallingService) {
       throw new Error("Tool calling service not available");
     }
@@ -578,13 +1669,16 @@ export class ThinkingValidator {
     return await this.analyzeTargetedSections(
       analysisTargets,
       projectRoot,
-      workingDirectory
+      workingDirectory,
+      run
     );
   }
 
   private buildThinkingValidationPrompt(
     request: ThinkingValidationRequest,
-    projectAnalysis: string = ""
+    projectAnalysis: string = "",
+    sessionHistory: string = "",
+    diffSection: string = ""
   ): string {
     return `Analyze this thinking and proposed change:
 
@@ -593,6 +1687,7 @@ Thinking: ${request.thinking}
 Proposed Change:
 Description: ${request.proposedChange.description}
 ${request.proposedChange.code ? `Code: ${request.proposedChange.code}` : ""}
+${diffSection}
 ${
   request.proposedChange.files
     ? `Files: ${request.proposedChange.files.join(", ")}`
@@ -612,18 +1707,21 @@ Urgency: ${request.urgency}
 
 ${
   projectAnalysis ? `Project Analysis:\n${projectAnalysis}\n\n` : ""
-}Provide your validation in the specified JSON format.`;
+}${sessionHistory ? `${sessionHistory}\n\n` : ""}Provide your validation in the specified JSON format.`;
   }
 
   private buildImpactAnalysisPrompt(
     request: ImpactAnalysisRequest,
-    projectAnalysis: string = ""
+    projectAnalysis: string = "",
+    sessionHistory: string = "",
+    diffSection: string = ""
   ): string {
     return `Analyze the impact of this change:
 
 Change:
 Description: ${request.change.description}
 ${request.change.code ? `Code: ${request.change.code}` : ""}
+${diffSection}
 ${request.change.files ? `Files: ${request.change.files.join(", ")}` : ""}
 
 System Context:
@@ -640,12 +1738,13 @@ ${
 
 ${
   projectAnalysis ? `Project Analysis:\n${projectAnalysis}\n\n` : ""
-}Provide your impact analysis in the specified JSON format.`;
+}${sessionHistory ? `${sessionHistory}\n\n` : ""}Provide your impact analysis in the specified JSON format.`;
   }
 
   private buildAssumptionCheckerPrompt(
     request: AssumptionCheckerRequest,
-    projectAnalysis: string = ""
+    projectAnalysis: string = "",
+    sessionHistory: string = ""
   ): string {
     return `Check these assumptions:
 
@@ -660,18 +1759,21 @@ Environment: ${request.context.environment}
 
 ${
   projectAnalysis ? `Project Analysis:\n${projectAnalysis}\n\n` : ""
-}Provide your assumption validation in the specified JSON format.`;
+}${sessionHistory ? `${sessionHistory}\n\n` : ""}Provide your assumption validation in the specified JSON format.`;
   }
 
   private buildDependencyMapperPrompt(
     request: DependencyMapperRequest,
-    projectAnalysis: string = ""
+    projectAnalysis: string = "",
+    sessionHistory: string = "",
+    diffSection: string = ""
   ): string {
     return `Map dependencies for this change:
 
 Change:
 Description: ${request.change.description}
 ${request.change.files ? `Files: ${request.change.files.join(", ")}` : ""}
+${diffSection}
 ${
   request.change.components
     ? `Components: ${request.change.components.join(", ")}`
@@ -680,12 +1782,13 @@ ${
 
 ${
   projectAnalysis ? `Project Analysis:\n${projectAnalysis}\n\n` : ""
-}Provide your dependency mapping in the specified JSON format.`;
+}${sessionHistory ? `${sessionHistory}\n\n` : ""}Provide your dependency mapping in the specified JSON format.`;
   }
 
   private buildThinkingOptimizerPrompt(
     request: ThinkingOptimizerRequest,
-    projectAnalysis: string = ""
+    projectAnalysis: string = "",
+    sessionHistory: string = ""
   ): string {
     return `Optimize thinking for this approach:
 
@@ -696,144 +1799,615 @@ Current Approach: ${request.currentApproach}
 
 ${
   projectAnalysis ? `Project Analysis:\n${projectAnalysis}\n\n` : ""
-}Provide your thinking optimization in the specified JSON format.`;
+}${sessionHistory ? `${sessionHistory}\n\n` : ""}Provide your thinking optimization in the specified JSON format.`;
   }
 
-  private parseThinkingValidationResponse(
-    response: string
-  ): ThinkingValidationResponse {
+  /**
+   * Summarize what earlier validations learned for the prompt: relevant
+   * project knowledge, then the session digest and relevant attempts
+   * History is best effort; a storage failure leaves the prompt without it
+   */
+  private async getSessionHistory(
+    session: ValidationSession,
+    tool: ValidationToolName,
+    request: any
+  ): Promise<SessionHistory> {
+    const knowledge = await this.getRelevantKnowledge(request);
+
+    let attempts: ValidationAttempt[];
+    let digest: SessionDigest | undefined;
     try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error("No valid JSON found in response");
-    } catch (error) {
-      // Suppress error logging to prevent stdout contamination
-      // Return a default response
-      return {
-        validation: {
-          confidence: 50,
-          goAhead: false,
-          criticalIssues: [],
-          recommendations: ["Unable to parse response, please try again"],
-          testCases: [],
-        },
-      };
+      const memory = this.memoryFor(session);
+      attempts = await memory.getRelevantValidationHistory(
+        session.id,
+        session.context,
+        SESSION_HISTORY_LIMIT
+      );
+      digest = (await memory.getSession(session.id))?.digest;
+    } catch {
+      return { summary: knowledge, priorIssues: [] };
+    }
+    if (attempts.length === 0 && !digest) {
+      return { summary: knowledge, priorIssues: [] };
+    }
+
+    attempts.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const lines = attempts.map((attempt) => {
+      const subject = describeAttemptRequest(attempt.request);
+      const issues =
+        toolResponseAccessors(attempt.tool)?.issues?.(attempt.response) ?? [];
+      return `- ${attempt.timestamp} ${attempt.tool}${
+        subject ? `: ${subject}` : ""
+      }${issues.length > 0 ? ` | Issues: ${issues.join("; ")}` : ""}`;
+    });
+    // Older attempts condensed into the digest come first
+    const sections = [
+      knowledge,
+      digest ? formatSessionDigest(digest) : "",
+    ].filter(Boolean);
+    if (lines.length > 0) {
+      sections.push(
+        `Session History (earlier attempts in this session, oldest first):\n${lines.join(
+          "\n"
+        )}`
+      );
+    }
+
+    const previous = [...attempts]
+      .reverse()
+      .find((attempt) => attempt.tool === tool && !attempt.response?.error);
+    const priorIssues = previous
+      ? (toolResponseAccessors(tool)?.issues?.(previous.response) ?? [])
+      : [];
+    if (priorIssues.length > 0) {
+      sections.push(
+        `Previously Reported Issues (from the last ${tool} attempt):
+${priorIssues.map((issue, i) => `${i + 1}. ${issue}`).join("\n")}
+
+Re-check each previously reported issue against the current input. In "issueTracking", list each one under "resolved" or "stillOpen" using its exact wording above, and list issues you raise for the first time under "new".`
+      );
     }
+
+    return { summary: sections.join("\n\n"), priorIssues };
   }
 
-  private parseImpactAnalysisResponse(
-    response: string
-  ): ImpactAnalysisResponse {
+  /**
+   * Prompt section with the project knowledge most relevant to a request
+   * Best effort; empty when nothing matches or the store is unreadable
+   */
+  private async getRelevantKnowledge(request: any): Promise<string> {
+    const query = [
+      request?.context?.problem,
+      request?.context?.techStack,
+      request?.context?.component,
+      request?.systemContext?.architecture,
+      describeAttemptRequest(request),
+      ...requestFiles(request),
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    let results: KnowledgeSearchResult[];
     try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      throw new Error("No valid JSON found in response");
+      results = await this.getKnowledgeBase(
+        request?.projectContext?.projectRoot
+      ).search(query, PROJECT_KNOWLEDGE_LIMIT);
+    } catch {
+      return "";
+    }
+    if (results.length === 0) {
+      return "";
+    }
+
+    return `Project Knowledge (facts and recurring issues from earlier work on this project; verify before relying on them):\n${results
+      .map(({ entry }) => {
+        const label =
+          entry.kind === "issue"
+            ? `issue, reported ${entry.occurrences}x`
+            : "fact";
+        const files =
+          entry.files.length > 0 ? ` (files: ${entry.files.join(", ")})` : "";
+        return `- [${label}] ${entry.text}${files}`;
+      })
+      .join("\n")}`;
+  }
+
+  /**
+   * Persist an attempt, then collect the issues it reported into the
+   * project knowledge base
+   */
+  private async recordAttempt(
+    session: ValidationSession,
+    attempt: ValidationAttempt
+  ): Promise<void> {
+    const { tool, request, response } = attempt;
+    // Outcomes are reported against this ID
+    response.metadata = { ...response.metadata, attemptId: attempt.id };
+    await this.saveNewSession(session);
+    await this.memoryFor(session).addValidationAttempt(
+      session.id,
+      tool,
+      request,
+      response,
+      attempt.confidence,
+      attempt.id
+    );
+
+    const extract = toolResponseAccessors(tool)?.issues;
+    if (!extract || response?.error) {
+      return;
+    }
+    try {
+      await this.getKnowledgeBase(
+        request?.projectContext?.projectRoot
+      ).recordIssues({
+        tool,
+        sessionId: session.id,
+        issues: extract(response),
+        resolved: response.issueTracking?.resolved ?? [],
+        files: requestFiles(request),
+      });
     } catch (error) {
-      // Suppress error logging to prevent stdout contamination
-      // Return a default response
+      // The attempt is recorded; only the knowledge base misses it
+      console.error("Failed to update project knowledge base:", error);
+    }
+  }
+
+  /**
+   * Classify issues against the previous attempt of the same tool
+   * Uses the model's classification when it gave one, restricted to the
+   * previously reported issues; otherwise compares issue wording
+   */
+  private trackIssues(
+    tool: ValidationToolName,
+    priorIssues: string[],
+    response: { issueTracking?: IssueTracking; error?: ResponseError }
+  ): IssueTracking | undefined {
+    const extract = toolResponseAccessors(tool)?.issues;
+    if (!extract || response.error) {
+      return undefined;
+    }
+
+    const current = extract(response);
+    if (priorIssues.length === 0) {
+      return { resolved: [], stillOpen: [], new: current };
+    }
+
+    const normalize = (issue: string) => issue.trim().toLowerCase();
+    const reported = response.issueTracking;
+    if (reported) {
+      const resolved = new Set(reported.resolved.map(normalize));
       return {
-        impacts: {
-          overallRisk: "medium",
-          affectedAreas: [],
-          cascadingRisks: [],
-          quickTests: ["Unable to parse response, please try again"],
-        },
+        resolved: priorIssues.filter((issue) => resolved.has(normalize(issue))),
+        // Issues the model did not mark resolved are kept open
+        stillOpen: priorIssues.filter(
+          (issue) => !resolved.has(normalize(issue))
+        ),
+        new: reported.new,
       };
     }
+
+    const currentIssues = new Set(current.map(normalize));
+    const previousIssues = new Set(priorIssues.map(normalize));
+    return {
+      resolved: priorIssues.filter(
+        (issue) => !currentIssues.has(normalize(issue))
+      ),
+      stillOpen: priorIssues.filter((issue) =>
+        currentIssues.has(normalize(issue))
+      ),
+      new: current.filter((issue) => !previousIssues.has(normalize(issue))),
+    };
+  }
+
+  /**
+   * Provider fields of the response metadata, taken from the call trace
+   */
+  private getProviderMetadata(
+    provider: string | undefined,
+    trace: ProviderCallTrace
+  ): ToolResponseMetadata {
+    const providersTried = [...new Set(trace.providersTried)];
+    return {
+      providerUsed:
+        trace.providerUsed || providersTried[providersTried.length - 1],
+      overrideRequested: !!provider,
+      overrideSuccessful: provider ? isProviderConfigured(provider) : true,
+      providersTried,
+      providerFailures: trace.failures,
+      retryAttempts: trace.retryAttempts,
+    };
   }
 
-  private parseAssumptionCheckerResponse(
-    response: string
-  ): AssumptionCheckerResponse {
+  /**
+   * Stream the model's answer as text, reporting progress as it arrives
+   * Returns undefined if the stream breaks, so the caller falls back to a
+   * non-streamed structured call.
+   */
+  private async streamDraft(
+    params: {
+      systemPrompt: string;
+      prompt: string;
+      provider?: string;
+      trace?: ProviderCallTrace;
+    },
+    run: ToolRunContext
+  ): Promise<string | undefined> {
+    run.report?.("Waiting for model response");
+    const stream = await streamTextService({
+      systemPrompt: params.systemPrompt,
+      prompt: params.prompt,
+      providerOverride: params.provider,
+      trace: params.trace,
+      abortSignal: run.signal,
+    });
+
+    let text = "";
+    let reportedLength = 0;
     try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+      for await (const chunk of stream.textStream) {
+        text += chunk;
+        if (text.length - reportedLength >= STREAM_PROGRESS_INTERVAL_CHARS) {
+          reportedLength = text.length;
+          run.report?.(`Receiving model response (${text.length} characters)`);
+        }
       }
-      throw new Error("No valid JSON found in response");
     } catch (error) {
-      // Suppress error logging to prevent stdout contamination
-      // Return a default response
-      return {
-        validation: {
-          validAssumptions: [],
-          riskyAssumptions: [],
-          quickVerifications: ["Unable to parse response, please try again"],
-        },
-      };
+      run.signal.throwIfAborted();
+      console.error(
+        `Streaming failed, retrying without streaming: ${(error as Error).message}`
+      );
+      return undefined;
     }
+
+    return text || undefined;
   }
 
-  private parseDependencyMapperResponse(
-    response: string
-  ): DependencyMapperResponse {
-    try {
-      // Debug logging suppressed to prevent stdout contamination
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+  /**
+   * Generate a response that matches the tool's schema
+   * When a draft (the agentic run's final text, or the streamed answer when
+   * progress is reported) parses cleanly it is used as-is; otherwise the model
+   * is asked for the object via generateObjectService.
+   * Output that still cannot be parsed yields an explicit parseFailed error.
+   */
+  private async generateStructuredResponse<
+    T extends { error?: ResponseError }
+  >(params: {
+    systemPrompt: string;
+    prompt: string;
+    schema: any;
+    objectName: string;
+    provider?: string;
+    trace?: ProviderCallTrace;
+    run?: ToolRunContext;
+    draft?: string;
+    temperature?: number;
+    maxFallbackHops?: number;
+  }): Promise<T> {
+    let prompt = params.prompt;
+    let draft = params.draft;
+
+    // Stream the answer when the caller wants progress during the LLM call
+    if (!draft && params.run?.report) {
+      draft = await this.streamDraft(params, params.run);
+    }
+
+    params.run?.report?.("Parsing model response");
+    if (draft) {
+      const parsed = parseStructuredOutput<T>(draft, params.schema);
+      if (parsed.success) {
+        return parsed.data;
       }
-      throw new Error("No valid JSON found in response");
+      prompt = `${params.prompt}\n\nYour analysis so far:\n${draft}\n\nReturn this analysis in the specified JSON format.`;
+    }
+
+    try {
+      const result = await generateObjectService({
+        systemPrompt: params.systemPrompt,
+        prompt,
+        schema: params.schema,
+        objectName: params.objectName,
+        providerOverride: params.provider,
+        maxFallbackHops: params.maxFallbackHops,
+        trace: params.trace,
+        abortSignal: params.run?.signal,
+        temperature: params.temperature,
+      });
+      return result.object as T;
     } catch (error) {
-      // Suppress error logging to prevent stdout contamination
-      // Return a default response
-      return {
-        dependencies: {
-          critical: [],
-          secondary: [],
-          testFocus: ["Unable to parse response, please try again"],
-        },
-      };
+      if (error instanceof StructuredOutputError) {
+        return {
+          error: {
+            parseFailed: true,
+            message: error.message,
+            attempts: error.attempts,
+          },
+        } as T;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the consensus providers the same prompt in parallel and merge their
+   * answers. Their calls are recorded in the shared trace; providerUsed
+   * names every provider that answered.
+   * @param provider - Provider override, asked first
+   * @throws Error when no provider answered
+   */
+  private async generateConsensusResponse<T extends { error?: ResponseError }>(
+    params: {
+      systemPrompt: string;
+      prompt: string;
+      schema: any;
+      objectName: string;
+    },
+    options: ConsensusOptions,
+    merge: ConsensusMerger<T>,
+    provider: string | undefined,
+    trace: ProviderCallTrace,
+    run: ToolRunContext
+  ): Promise<{ response: T; verdicts: ConsensusVerdict[] }> {
+    const config = getConsensusConfig();
+    const providers = this.resolveConsensusProviders(options, provider);
+
+    run.report?.(
+      `Waiting for ${providers.length} providers: ${providers.join(", ")}`
+    );
+    const traces = providers.map(() => createProviderCallTrace());
+    const answers: ConsensusAnswer<T>[] = await Promise.all(
+      providers.map(async (name, index) => {
+        try {
+          // Parallel streams would interleave their progress updates
+          const result = await this.generateStructuredResponse<T>({
+            ...params,
+            provider: name,
+            trace: traces[index],
+            run: { signal: run.signal, stage: run.stage },
+          });
+          return { provider: name, result };
+        } catch (error) {
+          return { provider: name, error: (error as Error).message };
+        }
+      })
+    );
+    run.signal.throwIfAborted();
+
+    const answered = answers.filter(
+      (answer) => answer.result && !answer.result.error
+    );
+    absorbTraces(trace, traces);
+    trace.providerUsed = answered.map((answer) => answer.provider).join("+");
+    if (answered.length === 0) {
+      throw new Error(
+        `Consensus failed, no provider answered: ${answers
+          .map(
+            (answer) =>
+              `${answer.provider} (${answer.error ?? answer.result?.error?.message})`
+          )
+          .join("; ")}`
+      );
     }
+
+    run.report?.("Merging provider answers");
+    return merge(
+      answers,
+      options.voting || config.voting,
+      config.lexicalThreshold
+    );
   }
 
-  private parseThinkingOptimizerResponse(
-    response: string
-  ): ThinkingOptimizerResponse {
+  /**
+   * Adversarial second pass over a thinking validation
+   * The red-team model gets the same prompt, file context included, with the
+   * first verdict, and reports only what that verdict missed. Its findings
+   * are appended to criticalIssues with source "red_team", leaving out those
+   * worded like an issue already listed. goAhead and confidence stay those
+   * of the first pass; a failed pass is reported and otherwise ignored.
+   */
+  private async runRedTeamPass(
+    prompt: string,
+    validation: NonNullable<ThinkingValidationResponse["validation"]>,
+    provider: string | undefined,
+    trace: ProviderCallTrace,
+    run: ToolRunContext
+  ): Promise<RedTeamReport> {
+    run.report?.("Running red-team pass");
+    // A separate trace keeps providerUsed naming the first pass's providers
+    const redTeamTrace = createProviderCallTrace();
     try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+      const result = await this.generateStructuredResponse<{
+        missedIssues?: typeof validation.criticalIssues;
+        error?: ResponseError;
+      }>({
+        systemPrompt: RED_TEAM_PROMPT,
+        prompt: `${prompt}\n\nFirst verdict:\n${JSON.stringify(validation, null, 2)}`,
+        schema: RedTeamResultSchema,
+        objectName: "red_team",
+        provider,
+        trace: redTeamTrace,
+        run,
+      });
+      if (!result.missedIssues) {
+        return {
+          findings: 0,
+          error: result.error?.message ?? "No findings returned",
+        };
       }
-      throw new Error("No valid JSON found in response");
+
+      const threshold = getConsensusConfig().lexicalThreshold;
+      const missed = result.missedIssues.filter(
+        (finding) =>
+          !validation.criticalIssues.some(
+            (issue) =>
+              lexicalSimilarity(issue.issue, finding.issue) >= threshold
+          )
+      );
+      validation.criticalIssues.push(
+        ...missed.map((finding) => ({
+          ...finding,
+          source: "red_team" as const,
+        }))
+      );
+      return { findings: missed.length };
     } catch (error) {
-      // Suppress error logging to prevent stdout contamination
-      // Return a default response
+      run.signal.throwIfAborted();
+      return { findings: 0, error: (error as Error).message };
+    } finally {
+      absorbTraces(trace, [redTeamTrace]);
+    }
+  }
+
+  /**
+   * Sampling plan of a call, from the request's options over the
+   * SELF_CONSISTENCY_* configuration; undefined when sampling is off
+   */
+  private resolveSampling(
+    options?: SelfConsistencyOptions
+  ): SamplingPlan | undefined {
+    const config = getSelfConsistencyConfig();
+    const samples = Math.min(
+      options?.samples ?? config.samples,
+      MAX_SELF_CONSISTENCY_SAMPLES
+    );
+    if (samples < 2) {
+      return undefined;
+    }
+    return { samples, temperature: options?.temperature ?? config.temperature };
+  }
+
+  /**
+   * Sample one provider in parallel and return the answer giving the most
+   * common verdict, with how consistently the samples agreed
+   * Without a plan this is a single structured call. Samples that failed are
+   * left out; with fewer than two answers the one answer (or its parse
+   * error) is returned unmeasured.
+   * @param provider - Provider override; defaults to the best available one
+   * @throws Error when every sample failed
+   */
+  private async generateSampledResponse<T extends { error?: ResponseError }>(
+    params: {
+      systemPrompt: string;
+      prompt: string;
+      schema: any;
+      objectName: string;
+      draft?: string;
+    },
+    sampling: SamplingPlan | undefined,
+    provider: string | undefined,
+    trace: ProviderCallTrace,
+    run: ToolRunContext
+  ): Promise<{ response: T; consistency?: SelfConsistencyReport }> {
+    if (!sampling) {
       return {
-        optimizedStrategy: {
-          approach: "Unable to parse response",
-          toolsToUse: [],
-          timeAllocation: {
-            thinking: "30%",
-            implementation: "60%",
-            testing: "10%",
-          },
-          successProbability: 50,
-          keyFocus: "Please try again",
-        },
+        response: await this.generateStructuredResponse<T>({
+          ...params,
+          provider,
+          trace,
+          run,
+        }),
       };
     }
+
+    // Samples from different providers would not measure one model
+    const pinned = provider || getBestAvailableProvider() || undefined;
+    run.report?.(
+      `Waiting for ${sampling.samples} samples${pinned ? ` from ${pinned}` : ""}`
+    );
+    const traces = Array.from({ length: sampling.samples }, () =>
+      createProviderCallTrace()
+    );
+    const answers = await Promise.all(
+      traces.map(async (sampleTrace) => {
+        try {
+          // Parallel streams would interleave their progress updates
+          const result = await this.generateStructuredResponse<T>({
+            ...params,
+            provider: pinned,
+            trace: sampleTrace,
+            run: { signal: run.signal, stage: run.stage },
+            temperature: sampling.temperature,
+            maxFallbackHops: 0,
+          });
+          return { result };
+        } catch (error) {
+          return { error: error as Error };
+        }
+      })
+    );
+    run.signal.throwIfAborted();
+
+    absorbTraces(trace, traces);
+    trace.providerUsed = traces.find(
+      (entry) => entry.providerUsed
+    )?.providerUsed;
+    const answered = answers.flatMap(({ result }) =>
+      result && !result.error ? [result] : []
+    );
+    if (answered.length < 2) {
+      const response =
+        answered[0] ?? answers.find((answer) => answer.result)?.result;
+      if (!response) {
+        throw answers[0].error;
+      }
+      return { response };
+    }
+
+    run.report?.(`Comparing ${answered.length} samples`);
+    const { report, representative } = measureConsistency(
+      params.objectName,
+      answered,
+      sampling.temperature,
+      getConsensusConfig().lexicalThreshold
+    );
+    return { response: answered[representative], consistency: report };
+  }
+
+  /**
+   * Providers asked in consensus mode: the requested ones, or the first
+   * CONSENSUS_SIZE configured ones, after the override
+   * @throws StandardError when a provider is not configured or fewer than
+   * two remain
+   */
+  private resolveConsensusProviders(
+    options: ConsensusOptions,
+    provider?: string
+  ): string[] {
+    const config = getConsensusConfig();
+    const providers = [
+      ...new Set([
+        ...(provider ? [provider] : []),
+        ...(options.providers?.length ? options.providers : config.providers),
+      ]),
+    ].slice(0, options.providers?.length ? undefined : config.size);
+    providers.forEach((name) => this.validateProviderOverride(name));
+
+    if (providers.length < 2) {
+      throw new StandardError({
+        message: `Consensus mode needs at least two configured providers, got: ${
+          providers.join(", ") || "none"
+        }`,
+        category: ErrorCategory.CONFIGURATION,
+        troubleshooting:
+          "Configure API keys for more providers, or list them in CONSENSUS_PROVIDERS",
+      });
+    }
+    return providers;
   }
 
   private async getOrCreateSession(
     sessionId: string | undefined,
-    context: Partial<ValidationProjectContext>
+    context: Partial<ValidationProjectContext>,
+    projectRoot?: string
   ): Promise<ValidationSession> {
     const id = sessionId || uuidv4();
     let session = this.activeSessions.get(id);
 
     if (!session) {
       // Try to load from persistent storage first
-      session = await this.memorySystem.getSession(id);
+      const memory = this.getMemorySystem(projectRoot);
+      session = await memory.getSession(id);
+      this.sessionMemory.set(id, memory);
 
       if (!session) {
         // Create a complete ValidationProjectContext with required fields
@@ -859,10 +2433,14 @@ ${
           timestamp: new Date().toISOString(),
           context: completeContext,
           validationHistory: [],
+          tags: [],
+          status: "open",
+          archived: false,
         };
 
-        // Create and save the new session to persistent storage
-        await this.memorySystem.createSession(completeContext);
+        // Stored with its first attempt, so a cancelled or failed first
+        // call leaves no empty session behind
+        this.unsavedSessions.set(id, undefined);
       }
 
       this.activeSessions.set(id, session);
@@ -871,31 +2449,297 @@ ${
     return session;
   }
 
-  async getSession(sessionId: string): Promise<ValidationSession | null> {
-    // First check active sessions
-    let session = this.activeSessions.get(sessionId);
+  /**
+   * Store a session opened by getOrCreateSession; parallel stages of one
+   * review share the same save
+   */
+  private async saveNewSession(session: ValidationSession): Promise<void> {
+    if (!this.unsavedSessions.has(session.id)) {
+      return;
+    }
 
-    // If not found in active sessions, try to load from memory system
-    if (!session) {
-      session = await this.memorySystem.getSession(sessionId);
-      if (session) {
-        this.activeSessions.set(sessionId, session);
+    let saved = this.unsavedSessions.get(session.id);
+    if (!saved) {
+      saved = this.memoryFor(session).createSession(session.context);
+      this.unsavedSessions.set(session.id, saved);
+    }
+    try {
+      await saved;
+      this.unsavedSessions.delete(session.id);
+    } catch (error) {
+      // Retried with the next attempt
+      this.unsavedSessions.set(session.id, undefined);
+      throw error;
+    }
+  }
+
+  // Memory system a session was loaded from or created in
+  private memoryFor(session: ValidationSession): ThinkingMemorySystem {
+    return this.sessionMemory.get(session.id) || this.getMemorySystem();
+  }
+
+  /**
+   * @param projectRoot - Project whose store holds the session; without it
+   * every store opened so far is searched
+   */
+  async getSession(
+    sessionId: string,
+    projectRoot?: string
+  ): Promise<ValidationSession | null> {
+    const memory = await this.findSessionMemory(sessionId, projectRoot);
+    if (!memory) {
+      return null;
+    }
+
+    const stored = await memory.getSession(sessionId);
+    if (!stored) {
+      return null;
+    }
+
+    // Prefer the active session, unless it lives in another project's store
+    const active = this.activeSessions.get(sessionId);
+    if (active && this.sessionMemory.get(sessionId) === memory) {
+      // Compaction only updates the digest in storage
+      active.digest = stored.digest;
+      return active;
+    }
+
+    this.activeSessions.set(sessionId, stored);
+    this.sessionMemory.set(sessionId, memory);
+    return stored;
+  }
+
+  /**
+   * Subscribe to session and attempt changes in every memory system
+   * @returns Function that removes the listener
+   */
+  onMemoryChange(listener: (change: MemoryChange) => void): () => void {
+    this.memoryListeners.add(listener);
+    return () => {
+      this.memoryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Create an empty session ahead of the first validation
+   * @throws Error if a session with the same ID already exists
+   */
+  async createSession(
+    sessionId: string | undefined,
+    details: Pick<SessionUpdate, "title" | "tags"> = {},
+    projectRoot?: string
+  ): Promise<ValidationSession> {
+    const id = sessionId || uuidv4();
+    if (await this.getSession(id, projectRoot)) {
+      throw new Error(`Session already exists: ${id}`);
+    }
+
+    const memory = this.getMemorySystem(projectRoot);
+    const session = await memory.createSession(
+      { sessionId: id, techStack: "", problem: "" },
+      details
+    );
+    this.unsavedSessions.delete(id);
+    this.activeSessions.set(id, session);
+    this.sessionMemory.set(id, memory);
+    return session;
+  }
+
+  async updateSession(
+    sessionId: string,
+    updates: SessionUpdate,
+    projectRoot?: string
+  ): Promise<ValidationSession | null> {
+    const memory = await this.findSessionMemory(sessionId, projectRoot);
+    const updated = await memory?.updateSession(sessionId, updates);
+    if (!updated) {
+      return null;
+    }
+
+    // Update the cached session in place so runs holding it keep the new fields
+    const active =
+      this.sessionMemory.get(sessionId) === memory
+        ? this.activeSessions.get(sessionId)
+        : undefined;
+    if (active) {
+      const { title, tags, status, archived } = updated;
+      Object.assign(active, { title, tags, status, archived });
+    }
+
+    return active || updated;
+  }
+
+  async deleteSession(
+    sessionId: string,
+    projectRoot?: string
+  ): Promise<boolean> {
+    const memory = await this.findSessionMemory(sessionId, projectRoot);
+    if (!memory) {
+      return false;
+    }
+
+    if (this.sessionMemory.get(sessionId) === memory) {
+      this.activeSessions.delete(sessionId);
+      this.sessionMemory.delete(sessionId);
+    }
+    return memory.deleteSession(sessionId);
+  }
+
+  /**
+   * List sessions of one project, or of every store opened so far
+   */
+  async listSessions(
+    filter: SessionListFilter = {},
+    projectRoot?: string
+  ): Promise<SessionListPage> {
+    if (projectRoot) {
+      return this.getMemorySystem(projectRoot).listSessions(filter);
+    }
+
+    const pages = await Promise.all(
+      this.getOpenMemorySystems().map((memory) =>
+        memory.listSessions({ ...filter, offset: 0, limit: undefined })
+      )
+    );
+    const matching = pages
+      .flatMap((page) => page.sessions)
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+    const { items, ...page } = paginate(matching, filter.offset, filter.limit);
+    return { sessions: items, ...page };
+  }
+
+  /**
+   * Record what happened to the change an attempt validated
+   * @param sessionId - Session holding the attempt; without it the project's
+   * store, or every store opened so far, is searched
+   * @returns The session ID and updated attempt, or undefined when not found
+   */
+  async recordOutcome(
+    attemptId: string,
+    outcome: Omit<AttemptOutcome, "recordedAt">,
+    sessionId?: string,
+    projectRoot?: string
+  ): Promise<{ sessionId: string; attempt: ValidationAttempt } | undefined> {
+    let memories: ThinkingMemorySystem[];
+    if (sessionId) {
+      const memory = await this.findSessionMemory(sessionId, projectRoot);
+      memories = memory ? [memory] : [];
+    } else {
+      memories = projectRoot
+        ? [this.getMemorySystem(projectRoot)]
+        : this.getOpenMemorySystems();
+    }
+
+    const recorded: AttemptOutcome = {
+      ...outcome,
+      recordedAt: new Date().toISOString(),
+    };
+    for (const memory of memories) {
+      const result = await memory.recordOutcome(attemptId, recorded, sessionId);
+      if (!result) continue;
+
+      // Keep a cached copy of the session current
+      if (this.sessionMemory.get(result.sessionId) === memory) {
+        const active = this.activeSessions
+          .get(result.sessionId)
+          ?.validationHistory.find((attempt) => attempt.id === attemptId);
+        if (active) {
+          active.outcome = recorded;
+        }
       }
+      return result;
+    }
+    return undefined;
+  }
+
+  /**
+   * How often high-confidence go-aheads turned out wrong, per provider and
+   * per tool, over one project's store or every store opened so far
+   */
+  async getCalibrationReport(
+    threshold?: number,
+    projectRoot?: string
+  ): Promise<CalibrationReport> {
+    const memories = projectRoot
+      ? [this.getMemorySystem(projectRoot)]
+      : this.getOpenMemorySystems();
+    const attempts = await Promise.all(
+      memories.map((memory) => memory.listReportedAttempts())
+    );
+    return buildCalibrationReport(attempts.flat(), threshold);
+  }
+
+  /**
+   * Apply the configured retention policy to one project's store, or to
+   * every store opened so far; count and size limits apply per store
+   */
+  async cleanupMemory(projectRoot?: string): Promise<CleanupReport> {
+    const { cleanupIntervalMinutes, ...policy } = getMemoryRetentionConfig();
+    const memories = projectRoot
+      ? [this.getMemorySystem(projectRoot)]
+      : this.getOpenMemorySystems();
+
+    const report: CleanupReport = {
+      removed: [],
+      remainingSessions: 0,
+      remainingBytes: 0,
+    };
+    for (const memory of memories) {
+      const result = await memory.cleanup(policy);
+      report.removed.push(...result.removed);
+      report.remainingSessions += result.remainingSessions;
+      report.remainingBytes += result.remainingBytes;
     }
 
-    return session || null;
+    for (const { sessionId } of report.removed) {
+      if (memories.includes(this.sessionMemory.get(sessionId)!)) {
+        this.activeSessions.delete(sessionId);
+        this.sessionMemory.delete(sessionId);
+      }
+    }
+    return report;
   }
 
-  async listSessions(): Promise<{ id: string; timestamp: string }[]> {
-    // Get sessions from memory system
-    const persistentData = await this.memorySystem["loadPersistentStorage"]();
-    return Object.keys(persistentData).map((sessionId) => ({
-      id: sessionId,
-      timestamp:
-        persistentData[sessionId].timestamp ||
-        persistentData[sessionId].lastUpdated ||
-        new Date().toISOString(),
-    }));
+  /**
+   * Run memory cleanup on the configured interval for the life of the process
+   * @returns Function that stops the schedule
+   */
+  startMemoryCleanup(): () => void {
+    const intervalMinutes = getMemoryRetentionConfig().cleanupIntervalMinutes;
+    if (intervalMinutes <= 0) {
+      return () => {};
+    }
+
+    let running = false;
+    const timer = setInterval(
+      async () => {
+        // Skip a tick while a slow cleanup is still going
+        if (running) return;
+        running = true;
+        try {
+          const report = await this.cleanupMemory();
+          if (report.removed.length > 0) {
+            console.error(
+              `Memory cleanup removed ${report.removed.length} session(s): ${report.removed
+                .map(({ sessionId, reason }) => `${sessionId} (${reason})`)
+                .join(", ")}`
+            );
+          }
+        } catch (error) {
+          console.error("Scheduled memory cleanup failed:", error);
+        } finally {
+          running = false;
+        }
+      },
+      intervalMinutes * 60 * 1000
+    );
+    // Never keep the process alive just for cleanup
+    timer.unref();
+
+    return () => clearInterval(timer);
   }
 
   /**
@@ -905,7 +2749,8 @@ ${
   private async analyzeTargetedSections(
     targets: import("../types/thinking-validation-types.js").AnalysisTarget[],
     projectRoot: string,
-    workingDirectory?: string
+    workingDirectory?: string,
+    run?: ToolRunContext
   ): Promise<{
     content: string;
     fileAnalysisPerformed: boolean;
@@ -929,20 +2774,23 @@ ${
     );
 
     // Process in priority order
-    for (const targetGroup of [
-      criticalTargets,
-      importantTargets,
-      supplementaryTargets,
-    ]) {
+    const priorityGroups: [string, typeof targets][] = [
+      ["critical", criticalTargets],
+      ["important", importantTargets],
+      ["supplementary", supplementaryTargets],
+    ];
+    for (const [priority, targetGroup] of priorityGroups) {
       if (targetGroup.length === 0) continue;
+      run?.signal.throwIfAborted();
+      run?.report?.(
+        `Reading ${targetGroup.length} ${priority} file${
+          targetGroup.length === 1 ? "" : "s"
+        }`
+      );
 
       // Convert to read requests
       const fileRequests = targetGroup.map((target) => {
-        const fullPath = isAbsolute(target.file)
-          ? target.file
-          : workingDirectory
-          ? resolve(workingDirectory, target.file)
-          : resolve(projectRoot, target.file);
+        const fullPath = targetPath(target, projectRoot, workingDirectory);
 
         const mode = target.mode || "head";
 
@@ -966,7 +2814,8 @@ ${
 
       // Read all files in this priority group concurrently
       const readResults = await this.toolCallingService!.readMultipleFiles(
-        fileRequests
+        fileRequests,
+        run?.signal
       );
 
       if (readResults.success) {
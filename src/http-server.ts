@@ -0,0 +1,190 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves the MCP tool handlers over Streamable HTTP so several clients can
+ * share one Athena instance and its provider credentials. Every MCP session
+ * gets its own Server and transport, so responses, progress notifications and
+ * cancellations never cross between clients. All requests must carry the
+ * configured bearer token. Sessions idle past the timeout are closed, and new
+ * ones are refused once the session limit is reached.
+ *
+ * Clients are one tenant: they share the token, the validator and its
+ * memory, so any client can list, read or delete the validation sessions of
+ * another. Run one instance per team or user that must be kept apart.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { Server as HttpServer } from "http";
+import type { Request, Response } from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken: string;
+  // Host headers to accept; localhost binds are protected by default
+  allowedHosts?: string[];
+  // Time without requests after which an MCP session is closed
+  sessionIdleTimeoutMs: number;
+  // Open MCP sessions beyond which new clients are refused
+  maxSessions: number;
+}
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  // Requests still being answered, including open server-to-client streams
+  activeRequests: number;
+}
+
+const MCP_SESSION_HEADER = "mcp-session-id";
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Compare two tokens in constant time regardless of their lengths
+ */
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Start the Streamable HTTP endpoint at /mcp
+ * @param createServer - Builds a fresh MCP server for each client session
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpServer> {
+  const sessions = new Map<string, McpSession>();
+  const app = createMcpExpressApp({
+    host: options.host,
+    allowedHosts: options.allowedHosts,
+  });
+
+  app.use(
+    "/mcp",
+    requireBearerAuth({
+      verifier: {
+        verifyAccessToken: async (token) => {
+          if (!tokensMatch(token, options.authToken)) {
+            throw new InvalidTokenError("Invalid bearer token");
+          }
+          // Static tokens do not expire; the expiry only covers this request
+          return {
+            token,
+            clientId: "athena-protocol",
+            scopes: [],
+            expiresAt: Math.floor(Date.now() / 1000) + 3600,
+          };
+        },
+      },
+    })
+  );
+
+  // Route a request to the transport of its MCP session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers[MCP_SESSION_HEADER] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!session) {
+      if (sessionId) {
+        sendJsonRpcError(res, 404, "Session not found");
+      } else {
+        sendJsonRpcError(res, 400, "Missing Mcp-Session-Id header");
+      }
+      return;
+    }
+
+    session.activeRequests++;
+    session.lastActivity = Date.now();
+    res.once("close", () => {
+      session.activeRequests--;
+      session.lastActivity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, req.body);
+  };
+
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      if (req.headers[MCP_SESSION_HEADER] || !isInitializeRequest(req.body)) {
+        await handleSessionRequest(req, res);
+        return;
+      }
+
+      if (sessions.size >= options.maxSessions) {
+        sendJsonRpcError(res, 503, "Too many open sessions");
+        return;
+      }
+
+      // A new client session gets its own server and transport
+      const transport: StreamableHTTPServerTransport =
+        new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (sessionId) => {
+            sessions.set(sessionId, {
+              transport,
+              lastActivity: Date.now(),
+              activeRequests: 0,
+            });
+          },
+        });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // Server-to-client stream and session termination
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // Close sessions whose clients went away without terminating them
+  const idleSweep = setInterval(
+    () => {
+      const now = Date.now();
+      for (const session of sessions.values()) {
+        if (
+          session.activeRequests === 0 &&
+          now - session.lastActivity > options.sessionIdleTimeoutMs
+        ) {
+          session.transport.close().catch((error) => {
+            console.error("Error closing idle MCP session:", error);
+          });
+        }
+      }
+    },
+    Math.min(options.sessionIdleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS)
+  );
+  idleSweep.unref();
+
+  return new Promise((resolve, reject) => {
+    const httpServer = app.listen(options.port, options.host);
+    httpServer.once("listening", () => resolve(httpServer));
+    httpServer.once("error", reject);
+    httpServer.once("close", () => clearInterval(idleSweep));
+  });
+}
@@ -126,7 +126,10 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
   InitializeRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
@@ -135,16 +138,41 @@ import {
   loadToolCallingConfig,
   validateToolCallingConfig,
   setEnvironmentProvider,
+  getMcpTransport,
+  getHttpTransportConfig,
 } from "./config-manager.js";
 import { ThinkingValidator } from "./core/thinking-validator.js";
+import {
+  ConsensusOptions,
+  SelfConsistencyOptions,
+  FullReviewRequest,
+  ToolRunOptions,
+} from "./types/thinking-validation-types.js";
+import {
+  ThinkingValidationResponseSchema,
+  ImpactAnalysisResponseSchema,
+  AssumptionCheckerResponseSchema,
+  DependencyMapperResponseSchema,
+  ThinkingOptimizerResponseSchema,
+  FullReviewResponseSchema,
+} from "./types/thinking-validation-schemas.js";
+import { zodSchema } from "ai";
 import { HEALTH_CHECK_TOOL } from "./client-tools/simple-health-check.js";
 import { ToolCallingService } from "./services/tool-calling-service.js";
+import { startHttpServer } from "./http-server.js";
+import { registerSessionResources } from "./session-resources.js";
+import { DEFAULT_HIGH_CONFIDENCE_THRESHOLD } from "./memory/outcome-calibration.js";
+import {
+  WORKFLOW_PROMPTS,
+  buildWorkflowPrompt,
+} from "./prompts/workflow-prompts.js";
 import {
   getConfiguredProviders,
   validateConfiguration,
   printValidationResults,
 } from "./config-manager.js";
 import { SUPPORTED_PROVIDERS } from "./ai-providers/index.js";
+import { DiffParseError, parseUnifiedDiff } from "./utils/unified-diff.js";
 import {
   EnvironmentProvider,
   ProcessEnvProvider,
@@ -171,6 +199,79 @@ function getDefaultProviderDescription(): string {
   }
 }
 
+/**
+ * Convert a zod response schema into a tool outputSchema
+ */
+function toOutputSchema(schema: any): Tool["outputSchema"] {
+  // Schemas stay untyped here: inferring them through the AI SDK generics
+  // is very expensive for the type checker
+  const { $schema, ...outputSchema } = zodSchema(schema).jsonSchema as any;
+  return outputSchema;
+}
+
+/**
+ * Build a tool result with structuredContent plus the JSON text block older
+ * clients read. Responses that report an error are flagged with isError.
+ */
+function toolResult(
+  payload: object,
+  text: string = JSON.stringify(payload, null, 2)
+): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: payload as Record<string, unknown>,
+    ...("error" in payload && payload.error ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Build an error tool result for parameter and execution failures
+ */
+function toolError(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+// Shared by the tools that support consensus mode
+const CONSENSUS_PARAMETER = {
+  type: "object",
+  description:
+    "Ask several providers the same prompt in parallel and merge their answers; use for high-stakes changes. Pass {} to use the configured providers and voting rule",
+  properties: {
+    providers: {
+      type: "array",
+      items: { type: "string", enum: SUPPORTED_PROVIDERS },
+      description:
+        "Providers to ask; defaults to the first CONSENSUS_SIZE configured ones",
+    },
+    voting: {
+      type: "string",
+      enum: ["unanimous", "majority", "any_blocker"],
+      description:
+        "How goAhead is decided: every provider clears the change, more than half do, or none reports a blocker (high-priority issue or high risk)",
+    },
+  },
+};
+
+// Shared by every validation tool
+const SELF_CONSISTENCY_PARAMETER = {
+  type: "object",
+  description:
+    "Sample the same provider several times and derive the stored confidence from how consistently the samples agree; the answer giving the most common verdict is returned. Defaults to SELF_CONSISTENCY_SAMPLES",
+  properties: {
+    samples: {
+      type: "number",
+      minimum: 1,
+      maximum: 10,
+      description: "Samples to take; 2 or more enables sampling",
+    },
+    temperature: {
+      type: "number",
+      description:
+        "Sampling temperature, above 0 and at most 2; defaults to SELF_CONSISTENCY_TEMPERATURE",
+    },
+  },
+};
+
 // Tool definitions for the Athena Protocol MCP Server
 const THINKING_VALIDATION_TOOL: Tool = {
   name: "thinking_validation",
@@ -195,6 +296,11 @@ const THINKING_VALIDATION_TOOL: Tool = {
             type: "string",
             description: "The actual code change (before/after or new code)",
           },
+          diff: {
+            type: "string",
+            description:
+              "The change as a unified diff (git diff or diff -u); its hunks are checked against the files under projectRoot and the lines around them are read",
+          },
           files: {
             type: "array",
             items: { type: "string" },
@@ -303,6 +409,13 @@ const THINKING_VALIDATION_TOOL: Tool = {
         description:
           "Brief description of the project, its purpose, technology stack, and key components to prevent hallucination",
       },
+      consensus: CONSENSUS_PARAMETER,
+      selfConsistency: SELF_CONSISTENCY_PARAMETER,
+      redTeam: {
+        type: "boolean",
+        description:
+          "Run an adversarial second pass that looks only for what the first verdict missed (edge cases, security holes, concurrency bugs); its findings are added to criticalIssues with source 'red_team'. Defaults to true when urgency is high",
+      },
     },
     required: [
       "thinking",
@@ -313,6 +426,7 @@ const THINKING_VALIDATION_TOOL: Tool = {
       "projectBackground",
     ],
   },
+  outputSchema: toOutputSchema(ThinkingValidationResponseSchema),
 };
 
 const IMPACT_ANALYSIS_TOOL: Tool = {
@@ -334,6 +448,11 @@ const IMPACT_ANALYSIS_TOOL: Tool = {
             type: "string",
             description: "The code change",
           },
+          diff: {
+            type: "string",
+            description:
+              "The change as a unified diff (git diff or diff -u); its hunks are checked against the files under projectRoot and the lines around them are read",
+          },
           files: {
             type: "array",
             items: { type: "string" },
@@ -430,9 +549,12 @@ const IMPACT_ANALYSIS_TOOL: Tool = {
         description:
           "Brief description of the project, its purpose, technology stack, and key components to prevent hallucination",
       },
+      consensus: CONSENSUS_PARAMETER,
+      selfConsistency: SELF_CONSISTENCY_PARAMETER,
     },
     required: ["change", "projectContext", "projectBackground"],
   },
+  outputSchema: toOutputSchema(ImpactAnalysisResponseSchema),
 };
 
 const ASSUMPTION_CHECKER_TOOL: Tool = {
@@ -535,9 +657,11 @@ const ASSUMPTION_CHECKER_TOOL: Tool = {
         description:
           "Brief description of the project, its purpose, technology stack, and key components to prevent hallucination",
       },
+      selfConsistency: SELF_CONSISTENCY_PARAMETER,
     },
     required: ["assumptions", "context", "projectContext", "projectBackground"],
   },
+  outputSchema: toOutputSchema(AssumptionCheckerResponseSchema),
 };
 
 const DEPENDENCY_MAPPER_TOOL: Tool = {
@@ -555,6 +679,11 @@ const DEPENDENCY_MAPPER_TOOL: Tool = {
             type: "string",
             description: "Brief change description",
           },
+          diff: {
+            type: "string",
+            description:
+              "The change as a unified diff (git diff or diff -u); its hunks are checked against the files under projectRoot and the lines around them are read",
+          },
           files: {
             type: "array",
             items: { type: "string" },
@@ -641,9 +770,11 @@ const DEPENDENCY_MAPPER_TOOL: Tool = {
         description:
           "Brief description of the project, its purpose, technology stack, and key components to prevent hallucination",
       },
+      selfConsistency: SELF_CONSISTENCY_PARAMETER,
     },
     required: ["change", "projectContext", "projectBackground"],
   },
+  outputSchema: toOutputSchema(DependencyMapperResponseSchema),
 };
 
 const THINKING_OPTIMIZER_TOOL: Tool = {
@@ -745,6 +876,7 @@ const THINKING_OPTIMIZER_TOOL: Tool = {
         description:
           "Brief description of the project, its purpose, technology stack, and key components to prevent hallucination",
       },
+      selfConsistency: SELF_CONSISTENCY_PARAMETER,
     },
     required: [
       "problemType",
@@ -755,6 +887,57 @@ const THINKING_OPTIMIZER_TOOL: Tool = {
       "projectBackground",
     ],
   },
+  outputSchema: toOutputSchema(ThinkingOptimizerResponseSchema),
+};
+
+// Shares its parameter definitions with the tools it chains
+const THINKING_PROPERTIES = THINKING_VALIDATION_TOOL.inputSchema.properties!;
+
+const FULL_REVIEW_TOOL: Tool = {
+  name: "full_review",
+  description:
+    "Run assumption_checker, dependency_mapper, impact_analysis and thinking_validation in one call. The files in analysisTargets are read once, later analyses are shown what earlier ones found, and all attempts are recorded in one session. Returns a single go/no-go verdict with its blockers, plus each analysis as its own tool returns it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      thinking: THINKING_PROPERTIES.thinking,
+      proposedChange: THINKING_PROPERTIES.proposedChange,
+      context: THINKING_PROPERTIES.context,
+      urgency: THINKING_PROPERTIES.urgency,
+      assumptions: {
+        type: "array",
+        items: { type: "string" },
+        description: "Assumptions behind the change, for assumption_checker",
+      },
+      component: {
+        type: "string",
+        description:
+          "Component the assumptions are about; defaults to the changed files",
+      },
+      environment: {
+        type: "string",
+        enum: ["production", "development", "staging", "testing"],
+        description:
+          "Environment the assumptions must hold in; defaults to production",
+      },
+      systemContext: IMPACT_ANALYSIS_TOOL.inputSchema.properties!.systemContext,
+      sessionId: THINKING_PROPERTIES.sessionId,
+      provider: THINKING_PROPERTIES.provider,
+      projectContext: THINKING_PROPERTIES.projectContext,
+      projectBackground: THINKING_PROPERTIES.projectBackground,
+      redTeam: THINKING_PROPERTIES.redTeam,
+    },
+    required: [
+      "thinking",
+      "proposedChange",
+      "context",
+      "urgency",
+      "assumptions",
+      "projectContext",
+      "projectBackground",
+    ],
+  },
+  outputSchema: toOutputSchema(FullReviewResponseSchema),
 };
 
 // Using the consolidated health check tool from simple-health-check.ts
@@ -771,6 +954,75 @@ class ToolParameterError extends Error {
   }
 }
 
+function validateConsensusParam(consensus: any): void {
+  if (consensus === undefined) {
+    return;
+  }
+  if (typeof consensus !== "object" || Array.isArray(consensus)) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'consensus' must be an object"
+    );
+  }
+  if (
+    consensus.voting !== undefined &&
+    !["unanimous", "majority", "any_blocker"].includes(consensus.voting)
+  ) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'consensus.voting' must be one of 'unanimous', 'majority', 'any_blocker'"
+    );
+  }
+}
+
+function validateSelfConsistencyParam(selfConsistency: any): void {
+  if (selfConsistency === undefined) {
+    return;
+  }
+  if (typeof selfConsistency !== "object" || Array.isArray(selfConsistency)) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'selfConsistency' must be an object"
+    );
+  }
+  if (
+    selfConsistency.samples !== undefined &&
+    (!Number.isInteger(selfConsistency.samples) ||
+      selfConsistency.samples < 1 ||
+      selfConsistency.samples > 10)
+  ) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'selfConsistency.samples' must be an integer from 1 to 10"
+    );
+  }
+  if (
+    selfConsistency.temperature !== undefined &&
+    (typeof selfConsistency.temperature !== "number" ||
+      selfConsistency.temperature <= 0 ||
+      selfConsistency.temperature > 2)
+  ) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'selfConsistency.temperature' must be a number above 0 and at most 2"
+    );
+  }
+}
+
+function validateDiffParam(diff: any, name: string): void {
+  if (diff === undefined) {
+    return;
+  }
+  if (typeof diff !== "string") {
+    throw new ToolParameterError(`Invalid parameter: '${name}' must be a string`);
+  }
+  try {
+    parseUnifiedDiff(diff);
+  } catch (error) {
+    if (error instanceof DiffParseError) {
+      throw new ToolParameterError(
+        `Invalid parameter: '${name}' is not a unified diff: ${error.message}`
+      );
+    }
+    throw error;
+  }
+}
+
 function validateThinkingValidationParams(args: any): {
   thinking: string;
   proposedChange: any;
@@ -780,6 +1032,9 @@ function validateThinkingValidationParams(args: any): {
   projectBackground: string;
   sessionId?: string;
   provider?: string;
+  consensus?: ConsensusOptions;
+  selfConsistency?: SelfConsistencyOptions;
+  redTeam?: boolean;
 } {
   // Required parameters validation
   if (!args.thinking || typeof args.thinking !== "string") {
@@ -821,6 +1076,15 @@ function validateThinkingValidationParams(args: any): {
     );
   }
 
+  validateDiffParam(args.proposedChange.diff, "proposedChange.diff");
+  validateConsensusParam(args.consensus);
+  validateSelfConsistencyParam(args.selfConsistency);
+  if (args.redTeam !== undefined && typeof args.redTeam !== "boolean") {
+    throw new ToolParameterError(
+      "Invalid parameter: 'redTeam' must be a boolean"
+    );
+  }
+
   return {
     thinking: args.thinking,
     proposedChange: args.proposedChange,
@@ -830,6 +1094,9 @@ function validateThinkingValidationParams(args: any): {
     projectBackground: args.projectBackground,
     sessionId: args.sessionId,
     provider: args.provider,
+    consensus: args.consensus,
+    selfConsistency: args.selfConsistency,
+    redTeam: args.redTeam,
   };
 }
 
@@ -840,6 +1107,8 @@ function validateImpactAnalysisParams(args: any): {
   projectBackground: string;
   sessionId?: string;
   provider?: string;
+  consensus?: ConsensusOptions;
+  selfConsistency?: SelfConsistencyOptions;
 } {
   if (!args.change || typeof args.change !== "object") {
     throw new ToolParameterError(
@@ -870,6 +1139,10 @@ function validateImpactAnalysisParams(args: any): {
     );
   }
 
+  validateDiffParam(args.change.diff, "change.diff");
+  validateConsensusParam(args.consensus);
+  validateSelfConsistencyParam(args.selfConsistency);
+
   return {
     change: args.change,
     systemContext: args.systemContext,
@@ -877,6 +1150,8 @@ function validateImpactAnalysisParams(args: any): {
     projectBackground: args.projectBackground,
     sessionId: args.sessionId,
     provider: args.provider,
+    consensus: args.consensus,
+    selfConsistency: args.selfConsistency,
   };
 }
 
@@ -887,6 +1162,7 @@ function validateAssumptionCheckerParams(args: any): {
   projectBackground: string;
   sessionId?: string;
   provider?: string;
+  selfConsistency?: SelfConsistencyOptions;
 } {
   if (
     !args.assumptions ||
@@ -936,6 +1212,8 @@ function validateAssumptionCheckerParams(args: any): {
     );
   }
 
+  validateSelfConsistencyParam(args.selfConsistency);
+
   return {
     assumptions: args.assumptions,
     context: args.context,
@@ -943,6 +1221,7 @@ function validateAssumptionCheckerParams(args: any): {
     projectBackground: args.projectBackground,
     sessionId: args.sessionId,
     provider: args.provider,
+    selfConsistency: args.selfConsistency,
   };
 }
 
@@ -952,6 +1231,7 @@ function validateDependencyMapperParams(args: any): {
   projectBackground: string;
   sessionId?: string;
   provider?: string;
+  selfConsistency?: SelfConsistencyOptions;
 } {
   if (!args.change || typeof args.change !== "object") {
     throw new ToolParameterError(
@@ -982,12 +1262,16 @@ function validateDependencyMapperParams(args: any): {
     );
   }
 
+  validateDiffParam(args.change.diff, "change.diff");
+  validateSelfConsistencyParam(args.selfConsistency);
+
   return {
     change: args.change,
     projectContext: args.projectContext,
     projectBackground: args.projectBackground,
     sessionId: args.sessionId,
     provider: args.provider,
+    selfConsistency: args.selfConsistency,
   };
 }
 
@@ -1000,6 +1284,7 @@ function validateThinkingOptimizerParams(args: any): {
   projectBackground: string;
   sessionId?: string;
   provider?: string;
+  selfConsistency?: SelfConsistencyOptions;
 } {
   if (
     !args.problemType ||
@@ -1049,6 +1334,8 @@ function validateThinkingOptimizerParams(args: any): {
     );
   }
 
+  validateSelfConsistencyParam(args.selfConsistency);
+
   return {
     problemType: args.problemType,
     complexity: args.complexity,
@@ -1058,9 +1345,68 @@ function validateThinkingOptimizerParams(args: any): {
     projectBackground: args.projectBackground,
     sessionId: args.sessionId,
     provider: args.provider,
+    selfConsistency: args.selfConsistency,
+  };
+}
+
+function validateFullReviewParams(args: any): FullReviewRequest & {
+  sessionId?: string;
+  provider?: string;
+} {
+  const base = validateThinkingValidationParams(args);
+  if (
+    !Array.isArray(args.assumptions) ||
+    args.assumptions.length === 0 ||
+    args.assumptions.some((entry: any) => typeof entry !== "string")
+  ) {
+    throw new ToolParameterError(
+      "Missing or invalid required parameter: 'assumptions' must be a non-empty array of strings"
+    );
+  }
+  if (args.component !== undefined && typeof args.component !== "string") {
+    throw new ToolParameterError(
+      "Invalid parameter: 'component' must be a string"
+    );
+  }
+  if (
+    args.environment !== undefined &&
+    !["production", "development", "staging", "testing"].includes(
+      args.environment
+    )
+  ) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'environment' must be one of 'production', 'development', 'staging', 'testing'"
+    );
+  }
+  if (
+    args.systemContext !== undefined &&
+    (typeof args.systemContext !== "object" || args.systemContext === null)
+  ) {
+    throw new ToolParameterError(
+      "Invalid parameter: 'systemContext' must be an object"
+    );
+  }
+
+  return {
+    thinking: base.thinking,
+    proposedChange: base.proposedChange,
+    context: base.context,
+    urgency: base.urgency as FullReviewRequest["urgency"],
+    assumptions: args.assumptions,
+    component: args.component,
+    environment: args.environment,
+    systemContext: args.systemContext,
+    projectContext: base.projectContext,
+    projectBackground: base.projectBackground,
+    redTeam: base.redTeam,
+    sessionId: base.sessionId,
+    provider: base.provider,
   };
 }
 
+// Page size for session_management list when no limit is given
+const DEFAULT_SESSION_PAGE_SIZE = 20;
+
 const SESSION_MANAGEMENT_TOOL: Tool = {
   name: "session_management",
   description:
@@ -1070,25 +1416,234 @@ const SESSION_MANAGEMENT_TOOL: Tool = {
     properties: {
       action: {
         type: "string",
-        enum: ["create", "get", "update", "list", "delete"],
-        description: "Session action to perform",
+        enum: ["create", "get", "update", "list", "delete", "cleanup"],
+        description:
+          "Session action to perform; cleanup removes sessions outside the memory retention policy",
       },
       sessionId: {
         type: "string",
-        description: "Session ID (required for get, update, delete)",
+        description:
+          "Session ID (required for get, update, delete; optional for create)",
       },
       tags: {
         type: "array",
         items: { type: "string" },
-        description: "Tags to categorize the session",
+        description: "Tags to categorize the session (for create/update)",
       },
       title: {
         type: "string",
         description: "Session title/description (for create/update)",
       },
+      status: {
+        type: "string",
+        enum: ["open", "closed"],
+        description: "Session status (for update, or to filter list)",
+      },
+      archived: {
+        type: "boolean",
+        description: "Archive or unarchive the session (for update)",
+      },
+      tag: {
+        type: "string",
+        description: "Only list sessions with this tag",
+      },
+      includeArchived: {
+        type: "boolean",
+        description: "Include archived sessions in list (default false)",
+      },
+      createdAfter: {
+        type: "string",
+        description: "Only list sessions created at or after this ISO date",
+      },
+      createdBefore: {
+        type: "string",
+        description: "Only list sessions created at or before this ISO date",
+      },
+      offset: {
+        type: "number",
+        description: "Number of matching sessions to skip (for list)",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum sessions to return (for list, default ${DEFAULT_SESSION_PAGE_SIZE})`,
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Absolute project root whose sessions to manage; when omitted, sessions of projects used since the server started and of the shared store are searched",
+      },
     },
     required: ["action"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      sessionId: { type: "string" },
+      session: { type: "object" },
+      sessions: { type: "array", items: { type: "object" } },
+      total: { type: "number" },
+      offset: { type: "number" },
+      nextOffset: { type: "number" },
+      removed: { type: "array", items: { type: "object" } },
+      remainingSessions: { type: "number" },
+      remainingBytes: { type: "number" },
+      error: { type: "string" },
+    },
+  },
+};
+
+// Page size for knowledge_management list when no limit is given
+const DEFAULT_KNOWLEDGE_PAGE_SIZE = 20;
+
+const KNOWLEDGE_MANAGEMENT_TOOL: Tool = {
+  name: "knowledge_management",
+  description:
+    "View and edit the project knowledge base: durable facts about the project and recurring issues collected from validations, which are added to later validations when relevant. Record facts worth remembering across sessions (e.g. where a module lives, conventions the project follows).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["add", "get", "update", "list", "delete", "search"],
+        description: "Knowledge action to perform",
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Absolute project root whose knowledge base to use; when omitted, the shared knowledge base",
+      },
+      entryId: {
+        type: "string",
+        description: "Entry ID (required for get, update, delete)",
+      },
+      kind: {
+        type: "string",
+        enum: ["fact", "issue"],
+        description:
+          "Entry kind (for add/update, default fact; or to filter list)",
+      },
+      text: {
+        type: "string",
+        description: "The fact or issue (required for add; for update)",
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Tags to categorize the entry (for add/update)",
+      },
+      files: {
+        type: "array",
+        items: { type: "string" },
+        description: "Files the entry is about (for add/update)",
+      },
+      resolved: {
+        type: "boolean",
+        description: "Mark an issue resolved or open again (for update)",
+      },
+      tag: {
+        type: "string",
+        description: "Only list entries with this tag",
+      },
+      includeResolved: {
+        type: "boolean",
+        description: "Include resolved issues in list (default false)",
+      },
+      query: {
+        type: "string",
+        description: "Text to rank entries against (required for search)",
+      },
+      offset: {
+        type: "number",
+        description: "Number of matching entries to skip (for list)",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum entries to return (default ${DEFAULT_KNOWLEDGE_PAGE_SIZE} for list, 5 for search)`,
+      },
+    },
+    required: ["action"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      entryId: { type: "string" },
+      entry: { type: "object" },
+      entries: { type: "array", items: { type: "object" } },
+      results: { type: "array", items: { type: "object" } },
+      total: { type: "number" },
+      offset: { type: "number" },
+      nextOffset: { type: "number" },
+      error: { type: "string" },
+    },
+  },
+};
+
+const RECORD_OUTCOME_TOOL: Tool = {
+  name: "record_outcome",
+  description:
+    "Report what happened to a change after it was validated, so confidence can be checked against reality. Pass the attemptId from the validation's metadata with shipped (landed cleanly), regression (landed and broke something) or abandoned. The report action shows, per provider and per tool, how often high-confidence go-aheads turned out to be regressions.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["record", "report"],
+        description:
+          "record an outcome (default) or build the calibration report",
+      },
+      attemptId: {
+        type: "string",
+        description:
+          "Attempt ID from the response metadata (required for record)",
+      },
+      outcome: {
+        type: "string",
+        enum: ["shipped", "regression", "abandoned"],
+        description: "What happened to the change (required for record)",
+      },
+      notes: {
+        type: "string",
+        description:
+          "What went wrong or why the change was dropped (for record)",
+      },
+      reportedBy: {
+        type: "string",
+        description: "Agent or person reporting the outcome (for record)",
+      },
+      sessionId: {
+        type: "string",
+        description:
+          "Session holding the attempt; speeds up the lookup (for record)",
+      },
+      highConfidenceThreshold: {
+        type: "number",
+        description: `Confidence (0-100) from which a go-ahead counts as high-confidence (for report, default ${DEFAULT_HIGH_CONFIDENCE_THRESHOLD})`,
+      },
+      projectRoot: {
+        type: "string",
+        description:
+          "Absolute project root whose memory holds the attempts; when omitted, projects used since the server started and the shared store are searched",
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      sessionId: { type: "string" },
+      attempt: { type: "object" },
+      highConfidenceThreshold: { type: "number" },
+      totalOutcomes: { type: "number" },
+      byProvider: { type: "array", items: { type: "object" } },
+      byTool: { type: "array", items: { type: "object" } },
+      error: { type: "string" },
+    },
+  },
 };
 
 // VALIDATE_CONFIGURATION_TOOL removed - functionality consolidated into validate_configuration_comprehensive
@@ -1184,11 +1739,65 @@ async function main() {
   // Initialize the thinking validator
   const thinkingValidator = new ThinkingValidator();
   await thinkingValidator.initialize(config);
+  thinkingValidator.startMemoryCleanup();
+
+  // The --http flag takes precedence over MCP_TRANSPORT
+  const transportMode = process.argv.includes("--http")
+    ? "http"
+    : getMcpTransport();
+  const httpConfig =
+    transportMode === "http" ? getHttpTransportConfig() : undefined;
+  if (httpConfig && !httpConfig.allowedRoots) {
+    console.error(
+      "MCP_HTTP_ALLOWED_ROOTS is required when the HTTP transport is enabled."
+    );
+    process.exit(1);
+  }
 
   // Initialize tool calling service and connect to thinking validator
-  const toolCallingService = new ToolCallingService(toolCallingConfig);
+  // Shared over HTTP, files are only read under the allowed roots
+  const toolCallingService = new ToolCallingService({
+    ...toolCallingConfig,
+    allowedRoots: httpConfig?.allowedRoots,
+  });
   thinkingValidator.setToolCallingService(toolCallingService);
 
+  if (httpConfig) {
+    if (!httpConfig.authToken) {
+      console.error(
+        "MCP_HTTP_AUTH_TOKEN is required when the HTTP transport is enabled."
+      );
+      process.exit(1);
+    }
+
+    await startHttpServer(() => createMcpServer(thinkingValidator), {
+      host: httpConfig.host,
+      port: httpConfig.port,
+      authToken: httpConfig.authToken,
+      allowedHosts: httpConfig.allowedHosts,
+      sessionIdleTimeoutMs: httpConfig.sessionIdleTimeoutMs,
+      maxSessions: httpConfig.maxSessions,
+    });
+    console.error(
+      `Athena Protocol - Ready! Listening on http://${httpConfig.host}:${httpConfig.port}/mcp`
+    );
+    return;
+  }
+
+  // Listen on stdio
+  const server = createMcpServer(thinkingValidator);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+
+  // Signal that the server is ready
+  console.error("Athena Protocol - Ready!");
+}
+
+/**
+ * Create an MCP server with all tool handlers registered
+ * The HTTP transport creates one per client session; stdio uses a single one
+ */
+function createMcpServer(thinkingValidator: ThinkingValidator): Server {
   // Create MCP server
   const server = new Server(
     {
@@ -1198,6 +1807,8 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     }
   );
@@ -1209,6 +1820,8 @@ async function main() {
       protocolVersion: protocolVersion || "2024-11-05",
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
       serverInfo: {
         name: "athena-protocol",
@@ -1226,16 +1839,38 @@ async function main() {
         ASSUMPTION_CHECKER_TOOL,
         DEPENDENCY_MAPPER_TOOL,
         THINKING_OPTIMIZER_TOOL,
+        FULL_REVIEW_TOOL,
         HEALTH_CHECK_TOOL, // Using the consolidated health check tool
         SESSION_MANAGEMENT_TOOL,
+        KNOWLEDGE_MANAGEMENT_TOOL,
+        RECORD_OUTCOME_TOOL,
       ],
     };
   });
 
   // Register tool handlers
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
+    // Cancellation and, when the client sent a progress token, stage updates
+    const progressToken = request.params._meta?.progressToken;
+    const runOptions: ToolRunOptions = {
+      signal: extra.signal,
+      onProgress:
+        progressToken !== undefined
+          ? ({ progress, message }) => {
+              extra
+                .sendNotification({
+                  method: "notifications/progress",
+                  params: { progressToken, progress, message },
+                })
+                .catch((error) =>
+                  console.error("Failed to send progress notification:", error)
+                );
+            }
+          : undefined,
+    };
+
     try {
       switch (name) {
         case "thinking_validation": {
@@ -1250,32 +1885,24 @@ async function main() {
               urgency: validatedParams.urgency as "low" | "medium" | "high",
               projectContext: validatedParams.projectContext,
               projectBackground: validatedParams.projectBackground,
+              consensus: validatedParams.consensus,
+              selfConsistency: validatedParams.selfConsistency,
+              redTeam: validatedParams.redTeam,
             };
 
             const validationResponse =
               await thinkingValidator.validateThinkingWithTools(
                 request,
                 validatedParams.sessionId,
-                validatedParams.provider
+                validatedParams.provider,
+                runOptions
               );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(validationResponse, null, 2),
-                },
-              ],
-            };
+            return toolResult(validationResponse);
           } catch (error) {
             if (error instanceof ToolParameterError) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ error: error.message }, null, 2),
-                  },
-                ],
-              };
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
             }
             throw error;
           }
@@ -1291,25 +1918,19 @@ async function main() {
                 systemContext: validatedParams.systemContext,
                 projectContext: validatedParams.projectContext,
                 projectBackground: validatedParams.projectBackground,
+                consensus: validatedParams.consensus,
+                selfConsistency: validatedParams.selfConsistency,
               },
               validatedParams.sessionId,
-              validatedParams.provider
+              validatedParams.provider,
+              runOptions
             );
-            return {
-              content: [
-                { type: "text", text: JSON.stringify(impactResponse, null, 2) },
-              ],
-            };
+            return toolResult(impactResponse);
           } catch (error) {
             if (error instanceof ToolParameterError) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ error: error.message }, null, 2),
-                  },
-                ],
-              };
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
             }
             throw error;
           }
@@ -1325,28 +1946,18 @@ async function main() {
                 context: validatedParams.context,
                 projectContext: validatedParams.projectContext,
                 projectBackground: validatedParams.projectBackground,
+                selfConsistency: validatedParams.selfConsistency,
               },
               validatedParams.sessionId,
-              validatedParams.provider
+              validatedParams.provider,
+              runOptions
             );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(assumptionResponse, null, 2),
-                },
-              ],
-            };
+            return toolResult(assumptionResponse);
           } catch (error) {
             if (error instanceof ToolParameterError) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ error: error.message }, null, 2),
-                  },
-                ],
-              };
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
             }
             throw error;
           }
@@ -1361,28 +1972,18 @@ async function main() {
                 change: validatedParams.change,
                 projectContext: validatedParams.projectContext,
                 projectBackground: validatedParams.projectBackground,
+                selfConsistency: validatedParams.selfConsistency,
               },
               validatedParams.sessionId,
-              validatedParams.provider
+              validatedParams.provider,
+              runOptions
             );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(dependencyResponse, null, 2),
-                },
-              ],
-            };
+            return toolResult(dependencyResponse);
           } catch (error) {
             if (error instanceof ToolParameterError) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ error: error.message }, null, 2),
-                  },
-                ],
-              };
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
             }
             throw error;
           }
@@ -1410,28 +2011,40 @@ async function main() {
                   currentApproach: validatedParams.currentApproach,
                   projectContext: validatedParams.projectContext,
                   projectBackground: validatedParams.projectBackground,
+                  selfConsistency: validatedParams.selfConsistency,
                 },
                 validatedParams.sessionId,
-                validatedParams.provider
+                validatedParams.provider,
+                runOptions
               );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(optimizationResponse, null, 2),
-                },
-              ],
-            };
+            return toolResult(optimizationResponse);
+          } catch (error) {
+            if (error instanceof ToolParameterError) {
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
+            }
+            throw error;
+          }
+        }
+
+        case "full_review": {
+          try {
+            const { sessionId, provider, ...request } =
+              validateFullReviewParams(args);
+
+            const reviewResponse = await thinkingValidator.fullReview(
+              request,
+              sessionId,
+              provider,
+              runOptions
+            );
+            return toolResult(reviewResponse);
           } catch (error) {
             if (error instanceof ToolParameterError) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ error: error.message }, null, 2),
-                  },
-                ],
-              };
+              return toolError(
+                JSON.stringify({ error: error.message }, null, 2)
+              );
             }
             throw error;
           }
@@ -1440,14 +2053,7 @@ async function main() {
         case "athena_health_check": {
           // Use consolidated health check tool
           const result = await HEALTH_CHECK_TOOL.execute(args);
-          return {
-            content: [
-              {
-                type: "text",
-                text: result,
-              },
-            ],
-          };
+          return toolResult({ report: result }, result);
         }
 
         // list_providers tool removed - functionality consolidated into health_check
@@ -1458,11 +2064,23 @@ async function main() {
             thinkingValidator,
             args
           );
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(sessionResult, null, 2) },
-            ],
-          };
+          return toolResult(sessionResult);
+        }
+
+        case "knowledge_management": {
+          const knowledgeResult = await handleKnowledgeManagement(
+            thinkingValidator,
+            args
+          );
+          return toolResult(knowledgeResult);
+        }
+
+        case "record_outcome": {
+          const outcomeResult = await handleRecordOutcome(
+            thinkingValidator,
+            args
+          );
+          return toolResult(outcomeResult);
         }
 
         // validate_configuration tool removed - use validate_configuration_comprehensive for detailed validation
@@ -1470,45 +2088,55 @@ async function main() {
         // validate_configuration_comprehensive tool removed - functionality consolidated into health_check
 
         default: {
-          return {
-            content: [{ type: "text", text: `Unknown tool: ${name}` }],
-          };
+          return toolError(`Unknown tool: ${name}`);
         }
       }
     } catch (error) {
       // Suppress detailed error logging to prevent stdout contamination
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error executing tool ${name}: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return toolError(
+        `Error executing tool ${name}: ${(error as Error).message}`
+      );
     }
   });
 
-  // Listen on stdio
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Register workflow prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: WORKFLOW_PROMPTS };
+  });
 
-  // Signal that the server is ready
-  console.error("Athena Protocol - Ready!");
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return buildWorkflowPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Publish sessions and validation history as resources
+  registerSessionResources(server, thinkingValidator);
+
+  return server;
 }
 
 async function handleSessionManagement(
   thinkingValidator: ThinkingValidator,
   args: any
 ) {
-  const { action, sessionId, tags, title } = args;
+  const { action, sessionId, tags, title, status, archived, projectRoot } =
+    args;
+
+  if (status !== undefined && status !== "open" && status !== "closed") {
+    throw new Error(`Invalid session status: ${status}`);
+  }
 
   switch (action) {
     case "create": {
-      // Sessions are created automatically, but we can create one with specific context
+      const session = await thinkingValidator.createSession(
+        sessionId,
+        { title, tags },
+        projectRoot
+      );
       return {
         success: true,
-        message:
-          "Session management is handled automatically. Use tools with a sessionId parameter to create sessions.",
+        message: "Session created",
+        sessionId: session.id,
+        session,
       };
     }
 
@@ -1516,29 +2144,63 @@ async function handleSessionManagement(
       if (!sessionId) {
         throw new Error("sessionId is required for get action");
       }
-      const session = await thinkingValidator.getSession(sessionId);
+      const session = await thinkingValidator.getSession(
+        sessionId,
+        projectRoot
+      );
       return session || { error: "Session not found" };
     }
 
     case "list": {
-      const sessions = await thinkingValidator.listSessions();
-      return sessions;
+      return await thinkingValidator.listSessions(
+        {
+          tag: args.tag,
+          status,
+          includeArchived: args.includeArchived,
+          createdAfter: args.createdAfter,
+          createdBefore: args.createdBefore,
+          offset: args.offset,
+          limit: args.limit ?? DEFAULT_SESSION_PAGE_SIZE,
+        },
+        projectRoot
+      );
     }
 
     case "delete": {
-      // We don't actually delete sessions in this implementation
-      return { success: true, message: "Session deletion not implemented" };
+      if (!sessionId) {
+        throw new Error("sessionId is required for delete action");
+      }
+      const deleted = await thinkingValidator.deleteSession(
+        sessionId,
+        projectRoot
+      );
+      if (!deleted) {
+        return { error: "Session not found" };
+      }
+      return { success: true, message: "Session deleted", sessionId };
     }
 
     case "update": {
-      // Update session with new information
       if (!sessionId) {
         throw new Error("sessionId is required for update action");
       }
+      const session = await thinkingValidator.updateSession(
+        sessionId,
+        { title, tags, status, archived },
+        projectRoot
+      );
+      if (!session) {
+        return { error: "Session not found" };
+      }
+      return { success: true, message: "Session updated", sessionId, session };
+    }
+
+    case "cleanup": {
+      const report = await thinkingValidator.cleanupMemory(projectRoot);
       return {
         success: true,
-        message: "Session update not fully implemented but session exists",
-        sessionId,
+        message: `Removed ${report.removed.length} session(s)`,
+        ...report,
       };
     }
 
@@ -1548,6 +2210,144 @@ async function handleSessionManagement(
   }
 }
 
+async function handleKnowledgeManagement(
+  thinkingValidator: ThinkingValidator,
+  args: any
+) {
+  const { action, projectRoot, entryId, kind, text, tags, files, resolved } =
+    args;
+
+  if (kind !== undefined && kind !== "fact" && kind !== "issue") {
+    throw new Error(`Invalid knowledge kind: ${kind}`);
+  }
+  const knowledgeBase = thinkingValidator.getKnowledgeBase(projectRoot);
+
+  switch (action) {
+    case "add": {
+      if (!text?.trim()) {
+        throw new Error("text is required for add action");
+      }
+      const entry = await knowledgeBase.add({
+        kind: kind || "fact",
+        text,
+        tags,
+        files,
+        source: "user",
+      });
+      return {
+        success: true,
+        message: entry.occurrences > 1 ? "Entry merged" : "Entry added",
+        entryId: entry.id,
+        entry,
+      };
+    }
+
+    case "get": {
+      if (!entryId) {
+        throw new Error("entryId is required for get action");
+      }
+      const entry = await knowledgeBase.get(entryId);
+      return entry ? { entryId, entry } : { error: "Entry not found" };
+    }
+
+    case "list": {
+      return await knowledgeBase.list({
+        kind,
+        tag: args.tag,
+        includeResolved: args.includeResolved,
+        offset: args.offset,
+        limit: args.limit ?? DEFAULT_KNOWLEDGE_PAGE_SIZE,
+      });
+    }
+
+    case "search": {
+      if (!args.query?.trim()) {
+        throw new Error("query is required for search action");
+      }
+      const results = await knowledgeBase.search(args.query, args.limit);
+      return { results, total: results.length };
+    }
+
+    case "update": {
+      if (!entryId) {
+        throw new Error("entryId is required for update action");
+      }
+      const entry = await knowledgeBase.update(entryId, {
+        kind,
+        text,
+        tags,
+        files,
+        resolved,
+      });
+      if (!entry) {
+        return { error: "Entry not found" };
+      }
+      return { success: true, message: "Entry updated", entryId, entry };
+    }
+
+    case "delete": {
+      if (!entryId) {
+        throw new Error("entryId is required for delete action");
+      }
+      if (!(await knowledgeBase.delete(entryId))) {
+        return { error: "Entry not found" };
+      }
+      return { success: true, message: "Entry deleted", entryId };
+    }
+
+    default: {
+      throw new Error(`Unsupported knowledge action: ${action}`);
+    }
+  }
+}
+
+async function handleRecordOutcome(
+  thinkingValidator: ThinkingValidator,
+  args: any
+) {
+  const {
+    action = "record",
+    attemptId,
+    outcome,
+    notes,
+    reportedBy,
+    sessionId,
+    projectRoot,
+  } = args;
+
+  switch (action) {
+    case "record": {
+      if (!attemptId) {
+        throw new Error("attemptId is required for record action");
+      }
+      if (!["shipped", "regression", "abandoned"].includes(outcome)) {
+        throw new Error(`Invalid outcome: ${outcome}`);
+      }
+      const result = await thinkingValidator.recordOutcome(
+        attemptId,
+        { status: outcome, notes, reportedBy },
+        sessionId,
+        projectRoot
+      );
+      if (!result) {
+        return { error: "Attempt not found" };
+      }
+      return { success: true, message: "Outcome recorded", ...result };
+    }
+
+    case "report": {
+      return await thinkingValidator.getCalibrationReport(
+        args.highConfidenceThreshold,
+        projectRoot
+      );
+    }
+
+    default: {
+      throw new Error(`Unsupported outcome action: ${action}`);
+    }
+  }
+}
+
 main().catch((error) => {
   console.error("Fatal error in Athena Protocol:", error);
   process.exit(1);
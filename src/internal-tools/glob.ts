@@ -9,24 +9,35 @@
 import { promises as fs } from 'fs';
 import { join, dirname } from 'path';
 
+// Regular expression for each glob wildcard; "**/" also matches no directory
+const GLOB_WILDCARDS: Record<string, string> = {
+  '**/': '(?:.*/)?',
+  '**': '.*',
+  '*': '[^/]*',
+  '?': '[^/]',
+};
+
 export async function globTool(args: {
   pattern: string;
   root?: string;
-}): Promise<{ matches: string[]; success: boolean; error?: string }> {
+  // Directory names never descended into (e.g. node_modules)
+  exclude?: string[];
+}, signal?: AbortSignal): Promise<{ matches: string[]; success: boolean; error?: string }> {
   try {
-    const { pattern, root = process.cwd() } = args;
+    const { pattern, root = process.cwd(), exclude = [] } = args;
     const matches: string[] = [];
     
-    // Simple glob pattern matching
+    // Simple glob pattern matching; literal characters are escaped first so
+    // the wildcards' own regex syntax is left alone
     const regexPattern = pattern
-      .replace(/\*\*/g, '.*')
-      .replace(/\*/g, '[^/]*')
-      .replace(/\?/g, '[^/]')
-      .replace(/\./g, '\\.');
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*\*\/|\*\*|\*|\?/g, (wildcard) => GLOB_WILDCARDS[wildcard]);
     
     const regex = new RegExp(`^${regexPattern}$`);
     
     const searchDirectory = async (dirPath: string, basePath: string = ''): Promise<void> => {
+      // Stop walking the tree once the caller gives up
+      signal?.throwIfAborted();
       try {
         const items = await fs.readdir(dirPath, { withFileTypes: true });
         
@@ -38,7 +49,9 @@ export async function globTool(args: {
             if (regex.test(`${relativePath}/`)) {
               matches.push(`${relativePath}/`);
             }
-            await searchDirectory(itemFullPath, relativePath);
+            if (!exclude.includes(item.name)) {
+              await searchDirectory(itemFullPath, relativePath);
+            }
           } else {
             if (regex.test(relativePath)) {
               matches.push(relativePath);
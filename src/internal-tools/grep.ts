@@ -14,16 +14,30 @@ export async function grepTool(args: {
   path: string;
   recursive?: boolean;
   caseSensitive?: boolean;
-}): Promise<{ matches: Array<{ file: string; line: number; content: string }>; success: boolean; error?: string }> {
+  // Directory names never descended into (e.g. node_modules)
+  exclude?: string[];
+  // Files larger than this are skipped
+  maxFileSizeKB?: number;
+}, signal?: AbortSignal): Promise<{ matches: Array<{ file: string; line: number; content: string }>; success: boolean; error?: string }> {
   try {
-    const { pattern, path, recursive = false, caseSensitive = false } = args;
+    const { pattern, path, recursive = false, caseSensitive = false, exclude = [], maxFileSizeKB } = args;
     const matches: Array<{ file: string; line: number; content: string }> = [];
     const flags = caseSensitive ? 'g' : 'gi';
     const regex = new RegExp(pattern, flags);
     
     const searchFile = async (filePath: string): Promise<void> => {
       try {
+        if (maxFileSizeKB !== undefined) {
+          const { size } = await fs.stat(filePath);
+          if (size > maxFileSizeKB * 1024) {
+            return;
+          }
+        }
         const content = await fs.readFile(filePath, 'utf8');
+        // Skip binary files
+        if (content.includes('\0')) {
+          return;
+        }
         const lines = content.split('\n');
         
         lines.forEach((line, index) => {
@@ -41,14 +55,20 @@ export async function grepTool(args: {
     };
     
     const searchDirectory = async (dirPath: string): Promise<void> => {
+      // Stop walking the tree once the caller gives up
+      signal?.throwIfAborted();
       try {
         const items = await fs.readdir(dirPath, { withFileTypes: true });
         
         for (const item of items) {
           const itemPath = join(dirPath, item.name);
           
+          // Links may lead outside the tree being searched
+          if (item.isSymbolicLink()) {
+            continue;
+          }
           if (item.isDirectory()) {
-            if (recursive) {
+            if (recursive && !exclude.includes(item.name)) {
               await searchDirectory(itemPath);
             }
           } else {
@@ -13,12 +13,16 @@ export async function listFilesTool(args: {
   path: string;
   recursive?: boolean;
   includeHidden?: boolean;
-}): Promise<{ files: string[]; success: boolean; error?: string }> {
+  // Directory names never descended into (e.g. node_modules)
+  exclude?: string[];
+}, signal?: AbortSignal): Promise<{ files: string[]; success: boolean; error?: string }> {
   try {
-    const { path, recursive = false, includeHidden = false } = args;
+    const { path, recursive = false, includeHidden = false, exclude = [] } = args;
     const files: string[] = [];
     
     const processDirectory = async (dirPath: string, basePath: string = ''): Promise<void> => {
+      // Stop walking the tree once the caller gives up
+      signal?.throwIfAborted();
       const items = await fs.readdir(dirPath, { withFileTypes: true });
       
       for (const item of items) {
@@ -32,7 +36,7 @@ export async function listFilesTool(args: {
         
         if (item.isDirectory()) {
           files.push(`${relativePath}/`);
-          if (recursive) {
+          if (recursive && !exclude.includes(item.name)) {
             await processDirectory(itemFullPath, relativePath);
           }
         } else {
@@ -20,8 +20,8 @@ import { gitOperationTool } from "./git-operation.js";
 
 export interface ToolRegistry {
   // Enhanced tools
-  readFile: (args: any) => Promise<any>;
-  readMultipleFiles: (args: any) => Promise<any>;
+  readFile: (args: any, signal?: AbortSignal) => Promise<any>;
+  readMultipleFiles: (args: any, signal?: AbortSignal) => Promise<any>;
   editFile: (args: any) => Promise<any>;
   
   // Backward compatibility aliases
@@ -30,9 +30,9 @@ export interface ToolRegistry {
   
   // Legacy tools
   writeFile: (args: any) => Promise<any>;
-  listFiles: (args: any) => Promise<any>;
-  glob: (args: any) => Promise<any>;
-  grep: (args: any) => Promise<any>;
+  listFiles: (args: any, signal?: AbortSignal) => Promise<any>;
+  glob: (args: any, signal?: AbortSignal) => Promise<any>;
+  grep: (args: any, signal?: AbortSignal) => Promise<any>;
   executeShell: (args: any) => Promise<any>;
   gitOperation: (args: any) => Promise<any>;
 }
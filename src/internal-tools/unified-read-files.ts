@@ -24,7 +24,11 @@ import {
 /**
  * Read first N lines from a file
  */
-async function headFile(filePath: string, numLines: number): Promise<string> {
+async function headFile(
+  filePath: string,
+  numLines: number,
+  signal?: AbortSignal
+): Promise<string> {
   const fileHandle = await fs.open(filePath, "r");
   try {
     const lines: string[] = [];
@@ -34,6 +38,7 @@ async function headFile(filePath: string, numLines: number): Promise<string> {
 
     // Read chunks and count lines until we have enough or reach EOF
     while (lines.length < numLines) {
+      signal?.throwIfAborted();
       const result = await fileHandle.read(chunk, 0, chunk.length, bytesRead);
       if (result.bytesRead === 0) break; // End of file
       bytesRead += result.bytesRead;
@@ -67,7 +72,11 @@ async function headFile(filePath: string, numLines: number): Promise<string> {
 /**
  * Read last N lines from a file
  */
-async function tailFile(filePath: string, numLines: number): Promise<string> {
+async function tailFile(
+  filePath: string,
+  numLines: number,
+  signal?: AbortSignal
+): Promise<string> {
   const CHUNK_SIZE = 1024; // Read 1KB at a time
   const stats = await fs.stat(filePath);
   const fileSize = stats.size;
@@ -85,6 +94,7 @@ async function tailFile(filePath: string, numLines: number): Promise<string> {
 
     // Read chunks from the end of the file until we have enough lines
     while (position > 0 && linesFound < numLines) {
+      signal?.throwIfAborted();
       const chunkSize = Math.min(CHUNK_SIZE, position);
       position -= chunkSize;
 
@@ -125,7 +135,8 @@ async function tailFile(filePath: string, numLines: number): Promise<string> {
 async function rangeFile(
   filePath: string,
   startLine: number,
-  endLine: number
+  endLine: number,
+  signal?: AbortSignal
 ): Promise<string> {
   const CHUNK_SIZE = 1024; // Read 1KB at a time
   const fileHandle = await fs.open(filePath, "r");
@@ -139,6 +150,7 @@ async function rangeFile(
 
     // Read file sequentially until we reach the end line
     while (currentLineNumber < endLine) {
+      signal?.throwIfAborted();
       const result = await fileHandle.read(chunk, 0, chunk.length, bytesRead);
 
       // End of file reached
@@ -183,9 +195,15 @@ async function rangeFile(
 
 /**
  * Read a single file with mode support
+ * @param signal - Aborts the read between chunks (or mid-read in full mode)
  */
-async function readSingleFile(args: ReadFileArgs): Promise<ReadFileResult> {
+async function readSingleFile(
+  args: ReadFileArgs,
+  signal?: AbortSignal
+): Promise<ReadFileResult> {
   try {
+    signal?.throwIfAborted();
+
     // Validate args with Zod schema
     const validated = ReadFileArgsSchema.parse(args);
     const { path, mode = "full", lines, startLine, endLine } = validated;
@@ -197,14 +215,14 @@ async function readSingleFile(args: ReadFileArgs): Promise<ReadFileResult> {
         if (!lines) {
           throw new Error("'lines' parameter required for head mode");
         }
-        content = await headFile(path, lines);
+        content = await headFile(path, lines, signal);
         break;
 
       case "tail":
         if (!lines) {
           throw new Error("'lines' parameter required for tail mode");
         }
-        content = await tailFile(path, lines);
+        content = await tailFile(path, lines, signal);
         break;
 
       case "range":
@@ -213,13 +231,13 @@ async function readSingleFile(args: ReadFileArgs): Promise<ReadFileResult> {
             "'startLine' and 'endLine' parameters required for range mode"
           );
         }
-        content = await rangeFile(path, startLine, endLine);
+        content = await rangeFile(path, startLine, endLine, signal);
         break;
 
       case "full":
       default:
         // Read entire file
-        content = await fs.readFile(path, "utf-8");
+        content = await fs.readFile(path, { encoding: "utf-8", signal });
         break;
     }
 
@@ -239,7 +257,8 @@ async function readSingleFile(args: ReadFileArgs): Promise<ReadFileResult> {
  * Read multiple files concurrently with per-file mode support
  */
 export async function readMultipleFilesTool(
-  args: ReadMultipleFilesArgs
+  args: ReadMultipleFilesArgs,
+  signal?: AbortSignal
 ): Promise<ReadMultipleFilesResult> {
   try {
     // DEBUG: Log what we received
@@ -256,7 +275,7 @@ export async function readMultipleFilesTool(
     const results = await Promise.all(
       files.map(async (fileRequest) => {
         console.error("[readMultipleFilesTool] Reading file:", fileRequest.path, "mode:", fileRequest.mode, "lines:", fileRequest.lines);
-        const result = await readSingleFile(fileRequest);
+        const result = await readSingleFile(fileRequest, signal);
         console.error("[readMultipleFilesTool] Read result for", fileRequest.path, "success:", result.success, "content length:", result.content?.length || 0);
         return {
           path: fileRequest.path,
@@ -285,7 +304,10 @@ export async function readMultipleFilesTool(
  * Convenience function for reading a single file
  * Wraps readMultipleFilesTool for backward compatibility
  */
-export async function readFileTool(args: ReadFileArgs): Promise<ReadFileResult> {
-  return readSingleFile(args);
+export async function readFileTool(
+  args: ReadFileArgs,
+  signal?: AbortSignal
+): Promise<ReadFileResult> {
+  return readSingleFile(args, signal);
 }
 
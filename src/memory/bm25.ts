@@ -0,0 +1,84 @@
+/**
+ * Okapi BM25 ranking
+ *
+ * Local lexical retrieval for the project knowledge base. Tokens are split on
+ * punctuation, path separators and camelCase, so "src/authMiddleware.ts"
+ * matches a query about "auth middleware".
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "we",
+  "with",
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Score each document against the query; documents sharing no term score 0
+ * @param documents - Tokenized documents
+ */
+export function rankBm25(query: string[], documents: string[][]): number[] {
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const terms = [...new Set(query)];
+  return documents.map((doc) => {
+    const frequencies = new Map<string, number>();
+    doc.forEach((term) =>
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1)
+    );
+
+    return terms.reduce((score, term) => {
+      const frequency = frequencies.get(term);
+      if (!frequency) {
+        return score;
+      }
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return (
+        score +
+        (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * doc.length) / averageLength))
+      );
+    }, 0);
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Advisory lock files
+ *
+ * Keeps several server processes sharing one memory directory from writing
+ * the same file at once. The lock is a file created exclusively, holding the
+ * owner's pid; a lock whose owner has exited is broken so a crash never
+ * blocks other processes for good. A lock whose owner is alive is never
+ * broken, however long it is held.
+ */
+
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+
+export interface FileLockOptions {
+  // How long to wait for another process to release the lock
+  timeoutMs: number;
+  // Age after which a lock its creator never wrote an owner into is broken
+  staleMs: number;
+}
+
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Run a task while holding the lock file, waiting for other holders first
+ * @throws Error when the lock is not released within the timeout
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  task: () => Promise<T>,
+  options: FileLockOptions
+): Promise<T> {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    try {
+      await fs.promises.writeFile(
+        lockPath,
+        JSON.stringify({
+          pid: process.pid,
+          acquiredAt: Date.now(),
+          // Tells this acquisition apart from earlier ones of the same pid
+          token: randomUUID(),
+        }),
+        { flag: "wx" }
+      );
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      if (await breakStaleLock(lockPath, options.staleMs)) {
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    // Nobody breaks the lock of a live owner, so it is still ours
+    await fs.promises.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Remove the lock when it may be broken
+ * Two waiters can find the same stale lock, and the first may have broken it
+ * and taken the lock by the time the second acts. So the lock is renamed to
+ * a tombstone of this waiter's own and checked again there: when it is no
+ * longer the stale lock, it is a live holder's, and is put back.
+ * @returns Whether the lock is gone and can be taken right away
+ */
+async function breakStaleLock(
+  lockPath: string,
+  staleMs: number
+): Promise<boolean> {
+  const stale = await staleLockIdentity(lockPath, staleMs);
+  if (!stale) {
+    return false;
+  }
+
+  const tombstone = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    await fs.promises.rename(lockPath, tombstone);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      // Released or broken by someone else meanwhile
+      return true;
+    }
+    throw error;
+  }
+
+  const taken = await readLockIdentity(tombstone);
+  if (taken?.identity !== stale.identity) {
+    // link, unlike rename, never replaces a lock taken in the meantime
+    await fs.promises.link(tombstone, lockPath).catch(() => {
+      console.error(
+        `Could not restore lock ${lockPath} after breaking it by mistake`
+      );
+    });
+    await fs.promises.rm(tombstone, { force: true });
+    return false;
+  }
+
+  console.error(`Breaking stale lock ${lockPath} held by pid ${stale.pid}`);
+  await fs.promises.rm(tombstone, { force: true });
+  return true;
+}
+
+/**
+ * Identity of the lock file when it may be broken: its owner has exited, or
+ * it has no owner and is older than the stale age (its creator died between
+ * creating and writing it). Undefined when the lock must be left alone.
+ */
+async function staleLockIdentity(
+  lockPath: string,
+  staleMs: number
+): Promise<{ identity: string; pid?: number } | undefined> {
+  const lock = await readLockIdentity(lockPath);
+  if (!lock) {
+    // Released meanwhile
+    return undefined;
+  }
+
+  if (lock.pid) {
+    return hasExited(lock.pid) ? lock : undefined;
+  }
+  return Date.now() - lock.mtimeMs > staleMs ? lock : undefined;
+}
+
+/**
+ * Read a lock file; the identity tells it apart from any later lock, even
+ * one of the same pid, by its inode, modification time and content
+ */
+async function readLockIdentity(
+  path: string
+): Promise<{ identity: string; pid?: number; mtimeMs: number } | undefined> {
+  let stats: fs.Stats;
+  let content: string;
+  try {
+    stats = await fs.promises.stat(path);
+    content = await fs.promises.readFile(path, "utf-8");
+  } catch {
+    return undefined;
+  }
+
+  let pid: number | undefined;
+  try {
+    pid = JSON.parse(content).pid;
+  } catch {
+    // Its creator has not written it yet
+  }
+  return {
+    identity: `${stats.ino}:${stats.mtimeMs}:${content}`,
+    pid,
+    mtimeMs: stats.mtimeMs,
+  };
+}
+
+/**
+ * Whether the process is gone; this process and those of other users that
+ * cannot be signalled count as alive
+ */
+function hasExited(pid: number): boolean {
+  if (pid === process.pid) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Journaled Memory Store
+ *
+ * Default MemoryStore backed by an append-only JSONL journal. Every change is
+ * one appended line, so recording an attempt no longer rewrites the whole
+ * history. Compaction writes the live sessions to a temporary file and
+ * renames it over the journal, so readers always see either the old or the
+ * new file. Writers take an advisory lock file, which keeps several server
+ * processes sharing one directory from interleaving appends with a
+ * compaction. Each process replays journal lines written by the others
+ * before every operation.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AttemptOutcome,
+  CondensedPayloadPolicy,
+  SessionDigest,
+  SessionUpdate,
+  ValidationAttempt,
+} from "../types/thinking-validation-types.js";
+import {
+  MemoryStore,
+  StoredSession,
+  condenseHistory,
+  createEmptySession,
+  normalizeStoredSession,
+} from "./memory-store.js";
+import { withFileLock } from "./file-lock.js";
+
+type JournalEntry =
+  | { op: "put"; session: StoredSession }
+  | {
+      op: "attempt";
+      sessionId: string;
+      attempt: ValidationAttempt;
+      maxAttempts?: number;
+    }
+  | { op: "update"; sessionId: string; updates: SessionUpdate; at: string }
+  | { op: "delete"; sessionId: string }
+  | {
+      op: "condense";
+      sessionId: string;
+      digest: SessionDigest;
+      attemptIds: string[];
+      policy: CondensedPayloadPolicy;
+    }
+  | {
+      op: "outcome";
+      sessionId: string;
+      attemptId: string;
+      outcome: AttemptOutcome;
+    };
+
+export interface JournalMemoryStoreOptions {
+  // Single-file JSON store to import when the journal does not exist yet
+  legacyPath?: string;
+  // Appended entries after which the journal is compacted
+  compactAfterEntries?: number;
+  // How long to wait for another process to release the lock
+  lockTimeoutMs?: number;
+  // Age after which a lock its creator never wrote an owner into is broken
+  staleLockMs?: number;
+}
+
+const DEFAULT_COMPACT_AFTER_ENTRIES = 500;
+const DEFAULT_LOCK_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_LOCK_MS = 30000;
+
+export class JournalMemoryStore implements MemoryStore {
+  private sessions: Map<string, StoredSession> = new Map();
+  private lockPath: string;
+  private legacyPath?: string;
+  private compactAfterEntries: number;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  // Journal position replayed so far, and the file it belongs to
+  private offset = 0;
+  private inode?: number;
+  private entriesSinceCompaction = 0;
+  private initialized?: Promise<void>;
+  // Serializes journal access within this process; the lock file covers
+  // other processes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private journalPath: string,
+    options: JournalMemoryStoreOptions = {}
+  ) {
+    this.lockPath = `${journalPath}.lock`;
+    this.legacyPath = options.legacyPath;
+    this.compactAfterEntries =
+      options.compactAfterEntries ?? DEFAULT_COMPACT_AFTER_ENTRIES;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+  }
+
+  async getSession(sessionId: string): Promise<StoredSession | undefined> {
+    await this.refresh();
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : undefined;
+  }
+
+  async listSessions(): Promise<StoredSession[]> {
+    await this.refresh();
+    return [...this.sessions.values()].map((session) =>
+      structuredClone(session)
+    );
+  }
+
+  async putSession(session: StoredSession): Promise<void> {
+    await this.write({ op: "put", session });
+  }
+
+  async appendAttempt(
+    sessionId: string,
+    attempt: ValidationAttempt,
+    maxAttempts?: number
+  ): Promise<boolean> {
+    let created = false;
+    await this.write({ op: "attempt", sessionId, attempt, maxAttempts }, () => {
+      created = !this.sessions.has(sessionId);
+      return true;
+    });
+    return created;
+  }
+
+  async updateSession(
+    sessionId: string,
+    updates: SessionUpdate
+  ): Promise<StoredSession | undefined> {
+    const written = await this.write(
+      { op: "update", sessionId, updates, at: new Date().toISOString() },
+      () => this.sessions.has(sessionId)
+    );
+    return written ? this.getSession(sessionId) : undefined;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.write({ op: "delete", sessionId }, () =>
+      this.sessions.has(sessionId)
+    );
+  }
+
+  async condenseAttempts(
+    sessionId: string,
+    digest: SessionDigest,
+    attemptIds: string[],
+    policy: CondensedPayloadPolicy
+  ): Promise<StoredSession | undefined> {
+    const written = await this.write(
+      { op: "condense", sessionId, digest, attemptIds, policy },
+      () => this.sessions.has(sessionId)
+    );
+    return written ? this.getSession(sessionId) : undefined;
+  }
+
+  async recordOutcome(
+    sessionId: string,
+    attemptId: string,
+    outcome: AttemptOutcome
+  ): Promise<ValidationAttempt | undefined> {
+    const findAttempt = () =>
+      this.sessions
+        .get(sessionId)
+        ?.validationHistory.find((attempt) => attempt.id === attemptId);
+    const written = await this.write(
+      { op: "outcome", sessionId, attemptId, outcome },
+      () => findAttempt() !== undefined
+    );
+    const attempt = written ? findAttempt() : undefined;
+    return attempt ? structuredClone(attempt) : undefined;
+  }
+
+  async compact(): Promise<void> {
+    await this.initialize();
+    await this.serialize(() =>
+      this.withLock(async () => {
+        await this.replay();
+        await this.rewriteJournal();
+      })
+    );
+  }
+
+  /**
+   * Append an entry under the lock, after catching up with other processes
+   * @param shouldWrite - Checked against the caught-up state; false skips the write
+   * @returns Whether the entry was written
+   */
+  private async write(
+    entry: JournalEntry,
+    shouldWrite: () => boolean = () => true
+  ): Promise<boolean> {
+    await this.initialize();
+    return this.serialize(() =>
+      this.withLock(async () => {
+        await this.replay();
+        if (!shouldWrite()) {
+          return false;
+        }
+
+        const line = `${JSON.stringify(entry)}\n`;
+        await fs.promises.appendFile(this.journalPath, line, "utf-8");
+        this.offset += Buffer.byteLength(line);
+        this.inode ??= (await fs.promises.stat(this.journalPath)).ino;
+        // Apply a parsed copy so callers never share objects with the store
+        this.apply(JSON.parse(line));
+
+        if (++this.entriesSinceCompaction >= this.compactAfterEntries) {
+          await this.rewriteJournal();
+        }
+        return true;
+      })
+    );
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private initialize(): Promise<void> {
+    this.initialized ??= this.serialize(async () => {
+      await fs.promises.mkdir(path.dirname(this.journalPath), {
+        recursive: true,
+      });
+      await this.withLock(async () => {
+        if (!fs.existsSync(this.journalPath)) {
+          await this.migrateLegacyStore();
+        }
+        await this.replay();
+      });
+    }).catch((error) => {
+      // Let the next operation try again
+      this.initialized = undefined;
+      throw error;
+    });
+    return this.initialized;
+  }
+
+  private async refresh(): Promise<void> {
+    await this.initialize();
+    await this.serialize(() => this.replay());
+  }
+
+  /**
+   * Import the single-file JSON store, keeping it as a .migrated backup
+   */
+  private async migrateLegacyStore(): Promise<void> {
+    if (!this.legacyPath || !fs.existsSync(this.legacyPath)) {
+      return;
+    }
+
+    try {
+      const data = await fs.promises.readFile(this.legacyPath, "utf-8");
+      const legacy = data.trim() ? JSON.parse(data) : {};
+      this.sessions = new Map(
+        Object.entries(legacy).map(([sessionId, session]) => [
+          sessionId,
+          normalizeStoredSession(sessionId, session),
+        ])
+      );
+      await this.rewriteJournal();
+      await fs.promises.rename(this.legacyPath, `${this.legacyPath}.migrated`);
+      console.error(
+        `Migrated ${this.sessions.size} session(s) from ${this.legacyPath} to ${this.journalPath}`
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to migrate memory store ${this.legacyPath}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Apply journal lines appended since the last replay
+   * Starts over when the journal was replaced by a compaction
+   */
+  private async replay(): Promise<void> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.journalPath, "r");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const stat = await handle.stat();
+      if (stat.ino !== this.inode || stat.size < this.offset) {
+        this.sessions.clear();
+        this.offset = 0;
+        this.entriesSinceCompaction = 0;
+        this.inode = stat.ino;
+      }
+      if (stat.size === this.offset) {
+        return;
+      }
+
+      const buffer = Buffer.alloc(stat.size - this.offset);
+      await handle.read(buffer, 0, buffer.length, this.offset);
+      // A line still being written has no newline yet; leave it for later
+      const end = buffer.lastIndexOf("\n");
+      if (end < 0) {
+        return;
+      }
+
+      for (const line of buffer.toString("utf-8", 0, end).split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          this.apply(JSON.parse(line));
+          this.entriesSinceCompaction++;
+        } catch (error) {
+          // A torn line from a crashed writer; later entries are still valid
+          console.error("Skipping unreadable memory journal entry:", error);
+        }
+      }
+      this.offset += end + 1;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private apply(entry: JournalEntry): void {
+    switch (entry.op) {
+      case "put":
+        this.sessions.set(entry.session.id, entry.session);
+        break;
+
+      case "attempt": {
+        let session = this.sessions.get(entry.sessionId);
+        if (!session) {
+          session = createEmptySession(
+            entry.sessionId,
+            entry.attempt.timestamp
+          );
+          this.sessions.set(entry.sessionId, session);
+        }
+        session.validationHistory.push(entry.attempt);
+        session.lastUpdated = entry.attempt.timestamp;
+        if (
+          entry.maxAttempts !== undefined &&
+          session.validationHistory.length > entry.maxAttempts
+        ) {
+          // Keep the newest attempts, oldest first like the rest of the history
+          session.validationHistory = session.validationHistory.slice(
+            -entry.maxAttempts
+          );
+        }
+        break;
+      }
+
+      case "update": {
+        const session = this.sessions.get(entry.sessionId);
+        if (session) {
+          for (const field of [
+            "title",
+            "tags",
+            "status",
+            "archived",
+          ] as const) {
+            if (entry.updates[field] !== undefined) {
+              (session as any)[field] = entry.updates[field];
+            }
+          }
+          session.lastUpdated = entry.at;
+        }
+        break;
+      }
+
+      case "delete":
+        this.sessions.delete(entry.sessionId);
+        break;
+
+      case "condense": {
+        // Attempts appended meanwhile are left untouched
+        const session = this.sessions.get(entry.sessionId);
+        if (session) {
+          session.digest = entry.digest;
+          session.validationHistory = condenseHistory(
+            session.validationHistory,
+            entry.attemptIds,
+            entry.policy
+          );
+        }
+        break;
+      }
+
+      case "outcome": {
+        // The attempt may have been trimmed or dropped by a later entry
+        const attempt = this.sessions
+          .get(entry.sessionId)
+          ?.validationHistory.find(
+            (candidate) => candidate.id === entry.attemptId
+          );
+        if (attempt) {
+          attempt.outcome = entry.outcome;
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Replace the journal with one snapshot line per live session
+   * Caller must hold the lock
+   */
+  private async rewriteJournal(): Promise<void> {
+    const tempPath = `${this.journalPath}.${process.pid}.tmp`;
+    const content = [...this.sessions.values()]
+      .map((session) => `${JSON.stringify({ op: "put", session })}\n`)
+      .join("");
+
+    const handle = await fs.promises.open(tempPath, "w");
+    try {
+      await handle.writeFile(content, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, this.journalPath);
+
+    const stat = await fs.promises.stat(this.journalPath);
+    this.inode = stat.ino;
+    this.offset = stat.size;
+    this.entriesSinceCompaction = 0;
+  }
+
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    return withFileLock(this.lockPath, task, {
+      timeoutMs: this.lockTimeoutMs,
+      staleMs: this.staleLockMs,
+    });
+  }
+}
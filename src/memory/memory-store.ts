@@ -0,0 +1,149 @@
+import {
+  AttemptOutcome,
+  CondensedPayloadPolicy,
+  SessionDigest,
+  SessionUpdate,
+  ValidationAttempt,
+  ValidationSession,
+} from "../types/thinking-validation-types.js";
+
+/**
+ * Session as kept by a storage backend
+ */
+export interface StoredSession extends ValidationSession {
+  lastUpdated: string;
+}
+
+/**
+ * Storage backend for ThinkingMemorySystem
+ * Implementations own durability and safety across server processes; the
+ * memory system keeps retention and relevance policy. Returned sessions are
+ * copies that callers may modify.
+ */
+export interface MemoryStore {
+  // Session by ID, or undefined when it does not exist
+  getSession(sessionId: string): Promise<StoredSession | undefined>;
+  listSessions(): Promise<StoredSession[]>;
+  // Create or replace a session
+  putSession(session: StoredSession): Promise<void>;
+  // Append an attempt, creating an empty session first when needed, and keep
+  // only the newest maxAttempts. Returns true when the session was created
+  appendAttempt(
+    sessionId: string,
+    attempt: ValidationAttempt,
+    maxAttempts?: number
+  ): Promise<boolean>;
+  // Returns undefined when the session does not exist
+  updateSession(
+    sessionId: string,
+    updates: SessionUpdate
+  ): Promise<StoredSession | undefined>;
+  // Returns false when the session does not exist
+  deleteSession(sessionId: string): Promise<boolean>;
+  // Replace the session digest and condense the attempts it now covers.
+  // Returns undefined when the session does not exist
+  condenseAttempts(
+    sessionId: string,
+    digest: SessionDigest,
+    attemptIds: string[],
+    policy: CondensedPayloadPolicy
+  ): Promise<StoredSession | undefined>;
+  // Set the outcome of an attempt, replacing any earlier one. Returns the
+  // updated attempt, or undefined when the session or attempt does not exist
+  recordOutcome(
+    sessionId: string,
+    attemptId: string,
+    outcome: AttemptOutcome
+  ): Promise<ValidationAttempt | undefined>;
+  // Rewrite storage so it holds only live data
+  compact(): Promise<void>;
+}
+
+/**
+ * Empty session created when an attempt arrives for an unknown session ID
+ */
+export function createEmptySession(
+  sessionId: string,
+  timestamp: string
+): StoredSession {
+  return {
+    id: sessionId,
+    timestamp,
+    context: { sessionId, techStack: "", problem: "" },
+    validationHistory: [],
+    tags: [],
+    status: "open",
+    archived: false,
+    lastUpdated: timestamp,
+  };
+}
+
+/**
+ * Fill fields missing from sessions written by older versions
+ */
+export function normalizeStoredSession(
+  sessionId: string,
+  data: any
+): StoredSession {
+  const timestamp =
+    data.timestamp || data.lastUpdated || new Date().toISOString();
+  return {
+    id: data.id || sessionId,
+    timestamp,
+    context: data.context || { sessionId, techStack: "", problem: "" },
+    validationHistory: data.validationHistory || [],
+    title: data.title,
+    tags: data.tags || [],
+    status: data.status || "open",
+    archived: data.archived || false,
+    digest: data.digest,
+    lastUpdated: data.lastUpdated || timestamp,
+  };
+}
+
+/**
+ * Shorten every string in a payload to maxChars, noting how much was cut
+ */
+export function truncatePayload(value: unknown, maxChars: number): unknown {
+  if (typeof value === "string") {
+    return value.length > maxChars
+      ? `${value.slice(0, maxChars)}... [${value.length - maxChars} characters truncated]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => truncatePayload(entry, maxChars));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        truncatePayload(entry, maxChars),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Apply a condensed payload policy to a session's history
+ */
+export function condenseHistory(
+  history: ValidationAttempt[],
+  attemptIds: string[],
+  policy: CondensedPayloadPolicy
+): ValidationAttempt[] {
+  const condensed = new Set(attemptIds);
+  if (policy.mode === "drop") {
+    return history.filter((attempt) => !condensed.has(attempt.id));
+  }
+  return history.map((attempt) =>
+    condensed.has(attempt.id)
+      ? {
+          ...attempt,
+          request: truncatePayload(attempt.request, policy.maxChars),
+          response: truncatePayload(attempt.response, policy.maxChars),
+          condensed: true,
+        }
+      : attempt
+  );
+}
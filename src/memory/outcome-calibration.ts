@@ -0,0 +1,100 @@
+/**
+ * Outcome Calibration
+ *
+ * Compares what validations predicted with the outcomes later reported for
+ * them through record_outcome. A high-confidence go-ahead is an attempt at
+ * or above the threshold whose response let the change proceed; it turned
+ * out wrong when the change caused a regression. Only attempts giving both a
+ * verdict and a confidence estimate can be calibrated.
+ */
+
+import {
+  CalibrationBucket,
+  CalibrationReport,
+  ValidationAttempt,
+} from "../types/thinking-validation-types.js";
+import { toolResponseAccessors } from "../types/tool-responses.js";
+
+export const DEFAULT_HIGH_CONFIDENCE_THRESHOLD = 80;
+
+/**
+ * Whether the attempt cleared the change to proceed; undefined for tools that
+ * give no verdict
+ */
+export function isGoAhead(attempt: ValidationAttempt): boolean | undefined {
+  const extract = toolResponseAccessors(attempt.tool)?.goAhead;
+  if (!extract) {
+    return undefined;
+  }
+  return !attempt.response?.error && extract(attempt.response);
+}
+
+/**
+ * Group the attempts with a reported outcome by provider and by tool
+ * Attempts stored without a confidence estimate, or of tools that give no
+ * verdict, cannot be calibrated and are left out.
+ * @param threshold - Confidence (0-100) from which a go-ahead counts as high-confidence
+ */
+export function buildCalibrationReport(
+  attempts: ValidationAttempt[],
+  threshold: number = DEFAULT_HIGH_CONFIDENCE_THRESHOLD
+): CalibrationReport {
+  const reported = attempts.filter(
+    (attempt) =>
+      attempt.outcome &&
+      attempt.confidence !== undefined &&
+      isGoAhead(attempt) !== undefined
+  );
+  const group = (keyOf: (attempt: ValidationAttempt) => string) => {
+    const groups = new Map<string, ValidationAttempt[]>();
+    for (const attempt of reported) {
+      const key = keyOf(attempt);
+      groups.set(key, [...(groups.get(key) ?? []), attempt]);
+    }
+    return [...groups]
+      .map(([key, entries]) => summarizeGroup(key, entries, threshold))
+      .sort((a, b) => b.outcomes - a.outcomes || a.key.localeCompare(b.key));
+  };
+
+  return {
+    highConfidenceThreshold: threshold,
+    totalOutcomes: reported.length,
+    byProvider: group(
+      (attempt) => attempt.response?.metadata?.providerUsed || "unknown"
+    ),
+    byTool: group((attempt) => attempt.tool),
+  };
+}
+
+function summarizeGroup(
+  key: string,
+  attempts: ValidationAttempt[],
+  threshold: number
+): CalibrationBucket {
+  const count = (list: ValidationAttempt[], status: string) =>
+    list.filter((attempt) => attempt.outcome!.status === status).length;
+  const goAheads = attempts.filter(
+    (attempt) => attempt.confidence! >= threshold && isGoAhead(attempt)
+  );
+  const wrong = count(goAheads, "regression");
+  // Abandoned changes never landed, so they neither confirm nor refute
+  const landed = goAheads.length - count(goAheads, "abandoned");
+
+  return {
+    key,
+    outcomes: attempts.length,
+    shipped: count(attempts, "shipped"),
+    regressions: count(attempts, "regression"),
+    abandoned: count(attempts, "abandoned"),
+    averageConfidence:
+      Math.round(
+        (attempts.reduce((sum, attempt) => sum + attempt.confidence!, 0) /
+          attempts.length) *
+          10
+      ) / 10,
+    highConfidenceGoAheads: goAheads.length,
+    highConfidenceRegressions: wrong,
+    highConfidenceWrongRate:
+      landed > 0 ? Math.round((wrong / landed) * 1000) / 1000 : undefined,
+  };
+}
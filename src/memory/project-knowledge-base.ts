@@ -0,0 +1,341 @@
+/**
+ * Project Knowledge Base
+ *
+ * Durable facts and recurring issues about one project, kept next to its
+ * session memory so every session of the project can draw on them. Facts are
+ * added through the knowledge_management tool; issues are collected from the
+ * validations themselves and marked resolved when a later validation says
+ * so. New validations retrieve the relevant entries with BM25.
+ *
+ * The entries live in one JSON file, replaced atomically on every change
+ * while holding a lock file, and reloaded whenever another process changed it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  KnowledgeEntry,
+  KnowledgeKind,
+  KnowledgeListFilter,
+  KnowledgeListPage,
+  KnowledgeSearchResult,
+  KnowledgeUpdate,
+} from "../types/thinking-validation-types.js";
+import { paginate } from "../utils/pagination.js";
+import { rankBm25, tokenize } from "./bm25.js";
+import { withFileLock } from "./file-lock.js";
+
+export const KNOWLEDGE_BASE_FILE = "knowledge-base.json";
+
+export interface ProjectKnowledgeBaseOptions {
+  // Entries kept; reported issues are dropped first, resolved ones before open ones
+  maxEntries?: number;
+  lockTimeoutMs?: number;
+  staleLockMs?: number;
+}
+
+export interface KnowledgeInput {
+  kind: KnowledgeKind;
+  text: string;
+  tags?: string[];
+  files?: string[];
+  source: KnowledgeEntry["source"];
+  tool?: string;
+  sessionId?: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export class ProjectKnowledgeBase {
+  private entries: KnowledgeEntry[] = [];
+  private lockPath: string;
+  private maxEntries: number;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  // Identifies the file content last read; every write renames a new file in
+  private loadedVersion?: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    options: ProjectKnowledgeBaseOptions = {}
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10000;
+    this.staleLockMs = options.staleLockMs ?? 30000;
+  }
+
+  async get(entryId: string): Promise<KnowledgeEntry | undefined> {
+    await this.serialize(() => this.reload());
+    const entry = this.entries.find((candidate) => candidate.id === entryId);
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  // Entries matching the filters, most recently updated first
+  async list(filter: KnowledgeListFilter = {}): Promise<KnowledgeListPage> {
+    await this.serialize(() => this.reload());
+    const matching = this.entries
+      .filter(
+        (entry) =>
+          (!filter.kind || entry.kind === filter.kind) &&
+          (!filter.tag || entry.tags.includes(filter.tag)) &&
+          (filter.includeResolved || !entry.resolved)
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    const { items, ...page } = paginate(matching, filter.offset, filter.limit);
+    return { entries: structuredClone(items), ...page };
+  }
+
+  /**
+   * Rank unresolved entries against free text such as a problem statement,
+   * file paths and tech stack
+   */
+  async search(
+    query: string,
+    limit: number = 5
+  ): Promise<KnowledgeSearchResult[]> {
+    await this.serialize(() => this.reload());
+    const candidates = this.entries.filter((entry) => !entry.resolved);
+    const scores = rankBm25(
+      tokenize(query),
+      candidates.map((entry) =>
+        tokenize([entry.text, ...entry.tags, ...entry.files].join(" "))
+      )
+    );
+
+    return candidates
+      .map((entry, index) => ({ entry, score: scores[index] }))
+      .filter((result) => result.score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.entry.updatedAt.localeCompare(a.entry.updatedAt)
+      )
+      .slice(0, limit)
+      .map((result) => structuredClone(result));
+  }
+
+  /**
+   * Add an entry; the same text of the same kind is merged into the
+   * existing entry instead, counting another occurrence
+   */
+  async add(input: KnowledgeInput): Promise<KnowledgeEntry> {
+    let added!: KnowledgeEntry;
+    await this.mutate(() => {
+      added = this.upsert(input, new Date().toISOString());
+    });
+    return structuredClone(added);
+  }
+
+  /**
+   * Remember the issues a validation reported and mark those it resolved
+   */
+  async recordIssues(report: {
+    tool: string;
+    sessionId: string;
+    issues: string[];
+    resolved: string[];
+    files: string[];
+  }): Promise<void> {
+    if (report.issues.length === 0 && report.resolved.length === 0) {
+      return;
+    }
+
+    await this.mutate(() => {
+      const now = new Date().toISOString();
+      for (const text of report.issues) {
+        this.upsert(
+          {
+            kind: "issue",
+            text,
+            files: report.files,
+            source: "validation",
+            tool: report.tool,
+            sessionId: report.sessionId,
+          },
+          now
+        );
+      }
+
+      const resolved = new Set(report.resolved.map(normalizeText));
+      for (const entry of this.entries) {
+        if (entry.kind === "issue" && resolved.has(normalizeText(entry.text))) {
+          entry.resolved = true;
+          entry.updatedAt = now;
+        }
+      }
+    });
+  }
+
+  // Returns undefined when the entry does not exist
+  async update(
+    entryId: string,
+    updates: KnowledgeUpdate
+  ): Promise<KnowledgeEntry | undefined> {
+    let updated: KnowledgeEntry | undefined;
+    await this.mutate(() => {
+      const entry = this.entries.find((candidate) => candidate.id === entryId);
+      if (!entry) return false;
+
+      for (const field of [
+        "kind",
+        "text",
+        "tags",
+        "files",
+        "resolved",
+      ] as const) {
+        if (updates[field] !== undefined) {
+          (entry as any)[field] = updates[field];
+        }
+      }
+      entry.updatedAt = new Date().toISOString();
+      updated = entry;
+    });
+    return updated ? structuredClone(updated) : undefined;
+  }
+
+  // Returns false when the entry does not exist
+  async delete(entryId: string): Promise<boolean> {
+    let deleted = false;
+    await this.mutate(() => {
+      const before = this.entries.length;
+      this.entries = this.entries.filter((entry) => entry.id !== entryId);
+      deleted = this.entries.length < before;
+      return deleted;
+    });
+    return deleted;
+  }
+
+  private upsert(input: KnowledgeInput, now: string): KnowledgeEntry {
+    const key = normalizeText(input.text);
+    const existing = this.entries.find(
+      (entry) => entry.kind === input.kind && normalizeText(entry.text) === key
+    );
+
+    if (existing) {
+      existing.occurrences++;
+      existing.tags = [...new Set([...existing.tags, ...(input.tags ?? [])])];
+      existing.files = [
+        ...new Set([...existing.files, ...(input.files ?? [])]),
+      ];
+      existing.tool = input.tool ?? existing.tool;
+      existing.sessionId = input.sessionId ?? existing.sessionId;
+      // Reported again, so it is not resolved after all
+      existing.resolved = input.kind === "issue" ? false : existing.resolved;
+      existing.updatedAt = now;
+      return existing;
+    }
+
+    const entry: KnowledgeEntry = {
+      id: uuidv4(),
+      kind: input.kind,
+      text: input.text.trim(),
+      tags: input.tags ?? [],
+      files: input.files ?? [],
+      source: input.source,
+      tool: input.tool,
+      sessionId: input.sessionId,
+      occurrences: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Apply a change to the latest entries under the lock and write them back
+   * @param change - Returns false to skip the write
+   */
+  private async mutate(change: () => boolean | void): Promise<void> {
+    await this.serialize(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+      });
+      await withFileLock(
+        this.lockPath,
+        async () => {
+          await this.reload();
+          if (change() === false) {
+            return;
+          }
+          this.enforceLimit();
+          await this.write();
+        },
+        { timeoutMs: this.lockTimeoutMs, staleMs: this.staleLockMs }
+      );
+    });
+  }
+
+  // Drop resolved issues, then the least recently reported open ones
+  private enforceLimit(): void {
+    const excess = this.entries.length - this.maxEntries;
+    if (excess <= 0) {
+      return;
+    }
+
+    const removable = this.entries
+      .filter((entry) => entry.source === "validation")
+      .sort(
+        (a, b) =>
+          Number(b.resolved ?? false) - Number(a.resolved ?? false) ||
+          a.updatedAt.localeCompare(b.updatedAt)
+      )
+      .slice(0, excess);
+    const removed = new Set(removable.map((entry) => entry.id));
+    this.entries = this.entries.filter((entry) => !removed.has(entry.id));
+  }
+
+  private async reload(): Promise<void> {
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.entries = [];
+        this.loadedVersion = undefined;
+        return;
+      }
+      throw error;
+    }
+    const version = `${stat.ino}:${stat.mtimeMs}`;
+    if (version === this.loadedVersion) {
+      return;
+    }
+
+    const data = await fs.promises.readFile(this.filePath, "utf-8");
+    this.entries = data.trim() ? JSON.parse(data).entries || [] : [];
+    this.loadedVersion = version;
+  }
+
+  // Caller must hold the lock
+  private async write(): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await fs.promises.open(tempPath, "w");
+    try {
+      await handle.writeFile(
+        JSON.stringify({ entries: this.entries }, null, 2),
+        "utf-8"
+      );
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, this.filePath);
+    const stat = await fs.promises.stat(this.filePath);
+    this.loadedVersion = `${stat.ino}:${stat.mtimeMs}`;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Session Summarizer
+ *
+ * Condenses the older attempts of a long session into its running digest.
+ * The digest keeps what later validations need: issues that were never
+ * resolved and the outcome of each condensed attempt. The heuristic
+ * summarizer reads the fields each tool reports; a summarizer backed by a
+ * model can replace it through MemorySystemOptions.
+ */
+
+import {
+  DigestIssue,
+  SessionDigest,
+  ValidationAttempt,
+} from "../types/thinking-validation-types.js";
+import { toolResponseAccessors } from "../types/tool-responses.js";
+
+/**
+ * Fold older attempts into the previous digest, if any
+ * @param attempts - Attempts being condensed, oldest first
+ */
+export type SessionSummarizer = (
+  previous: SessionDigest | undefined,
+  attempts: ValidationAttempt[]
+) => Promise<SessionDigest>;
+
+const ATTEMPT_SUBJECT_CHARS = 200;
+// Entries kept in a digest; the oldest fall off first
+const MAX_DIGEST_ISSUES = 30;
+const MAX_DIGEST_DECISIONS = 30;
+const MAX_DIGEST_SUMMARY_LINES = 20;
+
+/**
+ * One-line description of what an attempt was about
+ */
+export function describeAttemptRequest(request: any): string {
+  const subject: string =
+    request?.proposedChange?.description ||
+    request?.change?.description ||
+    request?.assumptions?.join("; ") ||
+    request?.currentApproach ||
+    "";
+  return subject.length > ATTEMPT_SUBJECT_CHARS
+    ? `${subject.slice(0, ATTEMPT_SUBJECT_CHARS)}...`
+    : subject;
+}
+
+/**
+ * Decision line recording what an attempt asked and what it concluded
+ */
+export function describeAttemptOutcome(attempt: ValidationAttempt): string {
+  const subject = describeAttemptRequest(attempt.request);
+  const outcome = attempt.response?.error
+    ? "failed"
+    : toolResponseAccessors(attempt.tool)?.outcome(attempt.response);
+  return `${attempt.tool}${subject ? `: ${subject}` : ""}${
+    outcome ? ` -> ${outcome}` : ""
+  }`;
+}
+
+/**
+ * Issues left open after the attempts, per tool
+ * The latest successful attempt of a tool decides its open issues: its
+ * issue tracking when present, otherwise the issues it reported
+ */
+export function trackOpenIssues(
+  previous: DigestIssue[],
+  attempts: ValidationAttempt[]
+): DigestIssue[] {
+  const open = new Map<string, string[]>();
+  for (const { tool, issue } of previous) {
+    open.set(tool, [...(open.get(tool) ?? []), issue]);
+  }
+
+  for (const attempt of attempts) {
+    const extract = toolResponseAccessors(attempt.tool)?.issues;
+    if (!extract || attempt.response?.error) continue;
+
+    const tracking = attempt.response?.issueTracking;
+    const issues: string[] = tracking
+      ? [...tracking.stillOpen, ...tracking.new]
+      : extract(attempt.response);
+    open.set(attempt.tool, [...new Set(issues)]);
+  }
+
+  return [...open.entries()]
+    .flatMap(([tool, issues]) => issues.map((issue) => ({ tool, issue })))
+    .slice(-MAX_DIGEST_ISSUES);
+}
+
+/**
+ * Default summarizer, built only from the structured fields of each attempt
+ */
+export const summarizeAttempts: SessionSummarizer = async (
+  previous,
+  attempts
+) => {
+  const tools = new Map<string, number>();
+  attempts.forEach((attempt) =>
+    tools.set(attempt.tool, (tools.get(attempt.tool) ?? 0) + 1)
+  );
+  const first = attempts[0]?.timestamp ?? "";
+  const last = attempts[attempts.length - 1]?.timestamp ?? first;
+  const line = `- ${first} to ${last}: ${attempts.length} attempt(s) (${[
+    ...tools,
+  ]
+    .map(([tool, count]) => `${tool} x${count}`)
+    .join(", ")})`;
+
+  return {
+    summary: [...(previous?.summary.split("\n") ?? []), line]
+      .filter(Boolean)
+      .slice(-MAX_DIGEST_SUMMARY_LINES)
+      .join("\n"),
+    openIssues: trackOpenIssues(previous?.openIssues ?? [], attempts),
+    decisions: [
+      ...(previous?.decisions ?? []),
+      ...attempts.map(describeAttemptOutcome),
+    ].slice(-MAX_DIGEST_DECISIONS),
+    attemptsCondensed: (previous?.attemptsCondensed ?? 0) + attempts.length,
+    condensedThrough: last || previous?.condensedThrough || "",
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Prompt section presenting a digest to the model
+ */
+export function formatSessionDigest(digest: SessionDigest): string {
+  const sections = [
+    `Session Digest (${digest.attemptsCondensed} earlier attempt(s) through ${digest.condensedThrough}, condensed):\n${digest.summary}`,
+  ];
+  if (digest.decisions.length > 0) {
+    sections.push(
+      `Key decisions:\n${digest.decisions.map((entry) => `- ${entry}`).join("\n")}`
+    );
+  }
+  if (digest.openIssues.length > 0) {
+    sections.push(
+      `Unresolved issues from condensed attempts:\n${digest.openIssues
+        .map(({ tool, issue }) => `- [${tool}] ${issue}`)
+        .join("\n")}`
+    );
+  }
+  return sections.join("\n");
+}
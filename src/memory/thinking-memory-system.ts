@@ -3,43 +3,136 @@ import {
   ValidationSession,
   ValidationProjectContext,
   ValidationAttempt,
+  MemoryChange,
+  SessionUpdate,
+  SessionListFilter,
+  SessionListPage,
+  SessionSummary,
+  RetentionPolicy,
+  RemovedSession,
+  CleanupReport,
+  CondensedPayloadPolicy,
+  AttemptOutcome,
 } from "../types/thinking-validation-types.js";
-import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
+import { MemoryStore, StoredSession } from "./memory-store.js";
+import { JournalMemoryStore } from "./journal-memory-store.js";
+import { SessionSummarizer, summarizeAttempts } from "./session-summarizer.js";
+import { paginate } from "../utils/pagination.js";
+
+const JOURNAL_FILE = "thinking-memory.jsonl";
+// Single-file store used before the journal; migrated on first start
+export const LEGACY_STORE_FILE = "thinking-memory.json";
+// Memory directory inside a project root
+export const PROJECT_MEMORY_DIR = path.join(".athena", "memory");
+// Memory directory for requests that name no project
+export const GLOBAL_MEMORY_DIR = path.join(os.homedir(), ".athena", "memory");
+
+// Retention applied when cleanup is called without a policy
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: 7,
+  maxSessions: 0,
+  maxBytes: 0,
+  keepTags: ["keep"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MemorySystemOptions {
+  // Directory holding the journal; defaults to the working directory
+  directory?: string;
+  // Single-file JSON store to migrate; defaults to thinking-memory.json in the directory
+  legacyStorePath?: string;
+  // Storage backend replacing the default journal
+  store?: MemoryStore;
+  // Limits from config.memory; unset or 0 keeps the built-in default
+  maxShortTermEntries?: number;
+  maxPersistentEntries?: number;
+  compressionThreshold?: number;
+  relevanceThreshold?: number;
+  // Condenses older attempts into the session digest; defaults to the heuristic one
+  summarizer?: SessionSummarizer;
+  // What happens to condensed payloads; defaults to truncating them
+  condensedPayloads?: CondensedPayloadPolicy;
+}
+
+/**
+ * Directory holding the memory of a project
+ * @param overrideDir - MEMORY_STORAGE_DIR, which wins over the project root
+ */
+export function resolveMemoryDirectory(
+  projectRoot?: string,
+  overrideDir?: string
+): string {
+  if (overrideDir) {
+    return path.resolve(overrideDir);
+  }
+  return projectRoot
+    ? path.join(path.resolve(projectRoot), PROJECT_MEMORY_DIR)
+    : GLOBAL_MEMORY_DIR;
+}
 
 export class ThinkingMemorySystem {
   private shortTermMemory: Map<string, ValidationAttempt[]> = new Map();
-  private persistentStoragePath: string;
+  private store: MemoryStore;
   private maxShortTermEntries: number = 100;
   private maxPersistentEntries: number = 1000;
   private compressionThreshold: number = 0.7;
   private relevanceThreshold: number = 0.6;
+  private changeListeners: Set<(change: MemoryChange) => void> = new Set();
+  private summarizer: SessionSummarizer;
+  private condensedPayloads: CondensedPayloadPolicy;
+  // Sessions being compacted, so concurrent attempts do not start another run
+  private compacting: Set<string> = new Set();
+
+  constructor(options: MemorySystemOptions = {}) {
+    const directory = options.directory || process.cwd();
+    this.store =
+      options.store ||
+      new JournalMemoryStore(path.join(directory, JOURNAL_FILE), {
+        legacyPath:
+          options.legacyStorePath || path.join(directory, LEGACY_STORE_FILE),
+      });
+
+    // loadConfig() reports unset values as 0
+    this.maxShortTermEntries =
+      options.maxShortTermEntries || this.maxShortTermEntries;
+    this.maxPersistentEntries =
+      options.maxPersistentEntries || this.maxPersistentEntries;
+    this.compressionThreshold =
+      options.compressionThreshold || this.compressionThreshold;
+    this.relevanceThreshold =
+      options.relevanceThreshold || this.relevanceThreshold;
+    this.summarizer = options.summarizer || summarizeAttempts;
+    this.condensedPayloads = options.condensedPayloads || {
+      mode: "truncate",
+      maxChars: 500,
+    };
+  }
 
-  constructor(storagePath?: string) {
-    this.persistentStoragePath =
-      storagePath || path.join(process.cwd(), "thinking-memory.json");
-    this.initializeStorage();
+  // Subscribe to session and attempt changes; returns an unsubscribe function
+  onChange(listener: (change: MemoryChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
   }
 
-  private async initializeStorage(): Promise<void> {
-    try {
-      if (!fs.existsSync(this.persistentStoragePath)) {
-        await fs.promises.writeFile(
-          this.persistentStoragePath,
-          JSON.stringify({})
-        );
+  private notifyChange(change: MemoryChange): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Memory change listener failed:", error);
       }
-    } catch (error) {
-      console.error("Failed to initialize persistent storage:", error);
-      throw new Error(
-        `Failed to initialize persistent storage: ${(error as Error).message}`
-      );
     }
   }
 
   // Create or update a validation session
   async createSession(
-    context: ValidationProjectContext
+    context: ValidationProjectContext,
+    details: Pick<SessionUpdate, "title" | "tags"> = {}
   ): Promise<ValidationSession> {
     const sessionId = context.sessionId;
     const session: ValidationSession = {
@@ -47,16 +140,22 @@ export class ThinkingMemorySystem {
       timestamp: new Date().toISOString(),
       context,
       validationHistory: [],
+      title: details.title,
+      tags: details.tags || [],
+      status: "open",
+      archived: false,
     };
 
     await this.saveSession(session);
+    this.notifyChange({ type: "session_created", sessionId });
     return session;
   }
 
   // Save session to both short-term and persistent storage
   async saveSession(session: ValidationSession): Promise<void> {
-    // Save to short-term memory
-    this.shortTermMemory.set(session.id, session.validationHistory);
+    // Save to short-term memory; a copy, since callers keep appending
+    // attempts to the session they hold
+    this.shortTermMemory.set(session.id, [...session.validationHistory]);
 
     // Save to persistent storage
     await this.saveToPersistentStorage(session);
@@ -68,10 +167,11 @@ export class ThinkingMemorySystem {
     tool: string,
     request: any,
     response: any,
-    confidence: number = 0.5
+    confidence: number | undefined,
+    attemptId: string = uuidv4()
   ): Promise<string> {
     const attempt: ValidationAttempt = {
-      id: uuidv4(),
+      id: attemptId,
       timestamp: new Date().toISOString(),
       tool,
       request,
@@ -79,6 +179,13 @@ export class ThinkingMemorySystem {
       confidence,
     };
 
+    // Update persistent storage first so a failed write is not left
+    // half-recorded in short-term memory
+    const sessionCreated = await this.updatePersistentStorage(
+      sessionId,
+      attempt
+    );
+
     // Add to short-term memory
     if (!this.shortTermMemory.has(sessionId)) {
       this.shortTermMemory.set(sessionId, []);
@@ -90,7 +197,7 @@ export class ThinkingMemorySystem {
     // Maintain short-term memory size limit
     if (sessionAttempts.length > this.maxShortTermEntries) {
       const sortedAttempts = sessionAttempts.sort(
-        (a, b) => b.confidence * b.confidence - a.confidence * a.confidence
+        (a, b) => (b.confidence ?? 0) ** 2 - (a.confidence ?? 0) ** 2
       );
       this.shortTermMemory.set(
         sessionId,
@@ -98,12 +205,77 @@ export class ThinkingMemorySystem {
       );
     }
 
-    // Update persistent storage
-    await this.updatePersistentStorage(sessionId, attempt);
+    if (sessionCreated) {
+      this.notifyChange({ type: "session_created", sessionId });
+    }
+    this.notifyChange({
+      type: "attempt_added",
+      sessionId,
+      attemptId: attempt.id,
+    });
+
+    // The attempt is recorded either way; a failed compaction is retried
+    // with the next attempt
+    try {
+      await this.compactSession(sessionId);
+    } catch (error) {
+      console.error("Failed to compact session:", error);
+    }
 
     return attempt.id;
   }
 
+  /**
+   * Condense older attempts into the session digest once the attempts not
+   * yet condensed exceed compressionThreshold of maxShortTermEntries.
+   * The newest half of that threshold is kept in full.
+   */
+  private async compactSession(sessionId: string): Promise<void> {
+    const threshold = Math.max(
+      2,
+      Math.ceil(this.compressionThreshold * this.maxShortTermEntries)
+    );
+    if (this.compacting.has(sessionId)) {
+      return;
+    }
+
+    this.compacting.add(sessionId);
+    try {
+      const session = await this.store.getSession(sessionId);
+      const pending = (session?.validationHistory ?? [])
+        .filter((attempt) => !attempt.condensed)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      if (!session || pending.length <= threshold) {
+        return;
+      }
+
+      const attempts = pending.slice(
+        0,
+        pending.length - Math.floor(threshold / 2)
+      );
+      const digest = await this.summarizer(session.digest, attempts);
+      const updated = await this.store.condenseAttempts(
+        sessionId,
+        digest,
+        attempts.map((attempt) => attempt.id),
+        this.condensedPayloads
+      );
+      if (!updated) {
+        return;
+      }
+
+      if (this.shortTermMemory.has(sessionId)) {
+        this.shortTermMemory.set(
+          sessionId,
+          updated.validationHistory.slice(-this.maxShortTermEntries)
+        );
+      }
+      this.notifyChange({ type: "session_updated", sessionId });
+    } finally {
+      this.compacting.delete(sessionId);
+    }
+  }
+
   // Retrieve session with validation history
   async getSession(sessionId: string): Promise<ValidationSession | undefined> {
     // Try short-term memory first
@@ -111,7 +283,7 @@ export class ThinkingMemorySystem {
     if (shortTermAttempts) {
       const session = await this.loadSessionFromPersistentStorage(sessionId);
       if (session) {
-        session.validationHistory = shortTermAttempts;
+        session.validationHistory = [...shortTermAttempts];
         return session;
       }
     }
@@ -120,6 +292,139 @@ export class ThinkingMemorySystem {
     return await this.loadSessionFromPersistentStorage(sessionId);
   }
 
+  // Update session metadata; returns undefined when the session does not exist
+  async updateSession(
+    sessionId: string,
+    updates: SessionUpdate
+  ): Promise<ValidationSession | undefined> {
+    try {
+      if (!(await this.store.updateSession(sessionId, updates))) {
+        return undefined;
+      }
+    } catch (error) {
+      console.error("Failed to update session:", error);
+      throw new Error(`Failed to update session: ${(error as Error).message}`);
+    }
+
+    this.notifyChange({ type: "session_updated", sessionId });
+    return this.getSession(sessionId);
+  }
+
+  /**
+   * Record what happened to the change an attempt validated
+   * @param sessionId - Session holding the attempt; searched for when omitted
+   * @returns The session ID and updated attempt, or undefined when not found
+   */
+  async recordOutcome(
+    attemptId: string,
+    outcome: AttemptOutcome,
+    sessionId?: string
+  ): Promise<{ sessionId: string; attempt: ValidationAttempt } | undefined> {
+    let attempt: ValidationAttempt | undefined;
+    try {
+      sessionId ??= (await this.store.listSessions()).find((session) =>
+        session.validationHistory.some((entry) => entry.id === attemptId)
+      )?.id;
+      attempt = sessionId
+        ? await this.store.recordOutcome(sessionId, attemptId, outcome)
+        : undefined;
+    } catch (error) {
+      console.error("Failed to record outcome:", error);
+      throw new Error(`Failed to record outcome: ${(error as Error).message}`);
+    }
+    if (!sessionId || !attempt) {
+      return undefined;
+    }
+
+    const cached = this.shortTermMemory
+      .get(sessionId)
+      ?.find((entry) => entry.id === attemptId);
+    if (cached) {
+      cached.outcome = attempt.outcome;
+    }
+    this.notifyChange({ type: "session_updated", sessionId, attemptId });
+    return { sessionId, attempt };
+  }
+
+  // Attempts of every session that have a reported outcome
+  async listReportedAttempts(): Promise<ValidationAttempt[]> {
+    return (await this.store.listSessions()).flatMap((session) =>
+      session.validationHistory.filter((attempt) => attempt.outcome)
+    );
+  }
+
+  // Delete a session from short-term and persistent storage
+  // Returns false when the session does not exist
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      if (!(await this.store.deleteSession(sessionId))) {
+        return false;
+      }
+      this.shortTermMemory.delete(sessionId);
+    } catch (error) {
+      console.error("Failed to delete session:", error);
+      throw new Error(`Failed to delete session: ${(error as Error).message}`);
+    }
+
+    this.notifyChange({ type: "session_deleted", sessionId });
+    return true;
+  }
+
+  // List session summaries matching the filters, newest first
+  async listSessions(filter: SessionListFilter = {}): Promise<SessionListPage> {
+    const createdAfter = this.parseFilterDate(
+      "createdAfter",
+      filter.createdAfter
+    );
+    const createdBefore = this.parseFilterDate(
+      "createdBefore",
+      filter.createdBefore
+    );
+
+    const stored = await this.store.listSessions();
+    const matching = stored
+      .map((session) => this.toSessionSummary(session))
+      .filter((session) => {
+        const created = new Date(session.timestamp).getTime();
+        return (
+          (filter.includeArchived || !session.archived) &&
+          (!filter.status || session.status === filter.status) &&
+          (!filter.tag || session.tags.includes(filter.tag)) &&
+          (createdAfter === undefined || created >= createdAfter) &&
+          (createdBefore === undefined || created <= createdBefore)
+        );
+      })
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+
+    const { items, ...page } = paginate(matching, filter.offset, filter.limit);
+    return { sessions: items, ...page };
+  }
+
+  private parseFilterDate(name: string, value?: string): number | undefined {
+    if (!value) return undefined;
+    const time = new Date(value).getTime();
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid ${name} date: ${value}`);
+    }
+    return time;
+  }
+
+  private toSessionSummary(session: StoredSession): SessionSummary {
+    return {
+      id: session.id,
+      timestamp: session.timestamp,
+      lastUpdated: session.lastUpdated,
+      title: session.title,
+      tags: session.tags,
+      status: session.status,
+      archived: session.archived,
+      attemptCount: session.validationHistory.length,
+    };
+  }
+
   // Get relevant validation attempts for context
   async getRelevantValidationHistory(
     sessionId: string,
@@ -129,11 +434,14 @@ export class ThinkingMemorySystem {
     const session = await this.getSession(sessionId);
     if (!session) return [];
 
-    // Calculate relevance scores for all validation attempts
-    const scoredAttempts = session.validationHistory.map((attempt) => ({
-      ...attempt,
-      confidence: this.calculateRelevanceScore(attempt, context),
-    }));
+    // Calculate relevance scores for all validation attempts; condensed
+    // ones are represented by the session digest
+    const scoredAttempts = session.validationHistory
+      .filter((attempt) => !attempt.condensed)
+      .map((attempt) => ({
+        ...attempt,
+        confidence: this.calculateRelevanceScore(attempt, context),
+      }));
 
     // Filter by relevance threshold and sort by score
     const relevantAttempts = scoredAttempts
@@ -154,7 +462,9 @@ export class ThinkingMemorySystem {
     attempt: ValidationAttempt,
     context: ValidationProjectContext
   ): number {
-    let score = attempt.confidence;
+    // Attempt confidences are 0-100, relevance scores 0-1; an attempt
+    // without an estimate counts as undecided
+    let score = (attempt.confidence ?? 50) / 100;
 
     // Boost score for recent attempts
     const attemptAge = Date.now() - new Date(attempt.timestamp).getTime();
@@ -187,21 +497,20 @@ export class ThinkingMemorySystem {
     session: ValidationSession
   ): Promise<void> {
     try {
-      const persistentData = await this.loadPersistentStorage();
-      persistentData[session.id] = {
+      await this.store.putSession({
         id: session.id,
         timestamp: session.timestamp,
         context: session.context,
         validationHistory: session.validationHistory.slice(
           -this.maxPersistentEntries
         ), // Limit persistent entries
+        title: session.title,
+        tags: session.tags,
+        status: session.status,
+        archived: session.archived,
+        digest: session.digest,
         lastUpdated: new Date().toISOString(),
-      };
-
-      await fs.promises.writeFile(
-        this.persistentStoragePath,
-        JSON.stringify(persistentData, null, 2)
-      );
+      });
     } catch (error) {
       console.error("Failed to save to persistent storage:", error);
       throw new Error(
@@ -211,55 +520,16 @@ export class ThinkingMemorySystem {
   }
 
   // Update persistent storage with new attempt
+  // Returns true when the session did not exist yet
   private async updatePersistentStorage(
     sessionId: string,
     attempt: ValidationAttempt
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
-      const persistentData = await this.loadPersistentStorage();
-
-      // If session doesn't exist, create a minimal structure
-      if (!persistentData[sessionId]) {
-        persistentData[sessionId] = {
-          id: sessionId,
-          timestamp: new Date().toISOString(),
-          context: {
-            sessionId: sessionId,
-            techStack: "",
-            problem: "",
-          },
-          validationHistory: [],
-          lastUpdated: new Date().toISOString(),
-        };
-      }
-
-      // Ensure validationHistory exists
-      if (!persistentData[sessionId].validationHistory) {
-        persistentData[sessionId].validationHistory = [];
-      }
-
-      // Add the new attempt
-      persistentData[sessionId].validationHistory.push(attempt);
-      persistentData[sessionId].lastUpdated = new Date().toISOString();
-
-      // Limit persistent entries
-      if (
-        persistentData[sessionId].validationHistory.length >
+      return await this.store.appendAttempt(
+        sessionId,
+        attempt,
         this.maxPersistentEntries
-      ) {
-        persistentData[sessionId].validationHistory = persistentData[
-          sessionId
-        ].validationHistory
-          .sort(
-            (a: any, b: any) =>
-              new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-          )
-          .slice(0, this.maxPersistentEntries);
-      }
-
-      await fs.promises.writeFile(
-        this.persistentStoragePath,
-        JSON.stringify(persistentData, null, 2)
       );
     } catch (error) {
       console.error("Failed to update persistent storage:", error);
@@ -274,24 +544,7 @@ export class ThinkingMemorySystem {
     sessionId: string
   ): Promise<ValidationSession | undefined> {
     try {
-      const persistentData = await this.loadPersistentStorage();
-      const sessionData = persistentData[sessionId] as any;
-
-      if (sessionData) {
-        return {
-          id: sessionData.id || sessionId,
-          timestamp:
-            sessionData.timestamp ||
-            sessionData.lastUpdated ||
-            new Date().toISOString(),
-          context: sessionData.context || {
-            sessionId: sessionId,
-            techStack: "",
-            problem: "",
-          },
-          validationHistory: sessionData.validationHistory || [],
-        };
-      }
+      return await this.store.getSession(sessionId);
     } catch (error) {
       console.error("Failed to load session from persistent storage:", error);
       throw new Error(
@@ -300,54 +553,84 @@ export class ThinkingMemorySystem {
         }`
       );
     }
-
-    return undefined;
   }
 
-  // Load all persistent storage data
-  private async loadPersistentStorage(): Promise<any> {
+  /**
+   * Remove sessions outside the retention policy
+   * Sessions past the maximum age go first; the oldest of the rest are then
+   * removed until the session count and total size fit. Sessions tagged with
+   * a keep tag are never removed but still count toward the limits.
+   */
+  async cleanup(
+    policy: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ): Promise<CleanupReport> {
     try {
-      if (fs.existsSync(this.persistentStoragePath)) {
-        const data = await fs.promises.readFile(
-          this.persistentStoragePath,
-          "utf-8"
-        );
-        if (data.trim()) {
-          return JSON.parse(data);
-        }
-      }
-    } catch (error) {
-      console.error("Failed to load persistent storage:", error);
-      throw new Error(
-        `Failed to load persistent storage: ${(error as Error).message}`
-      );
-    }
-
-    return {};
-  }
-
-  // Clean up old sessions and memory
-  async cleanup(): Promise<void> {
-    try {
-      const persistentData = await this.loadPersistentStorage();
       const now = Date.now();
-      const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days
+      const sessions = (await this.store.listSessions()).sort(
+        (a, b) =>
+          new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime()
+      );
+      const sizes = new Map(
+        sessions.map((session) => [
+          session.id,
+          Buffer.byteLength(JSON.stringify(session)),
+        ])
+      );
+      const isKept = (session: StoredSession) =>
+        session.tags.some((tag) => policy.keepTags.includes(tag));
+
+      // Oldest first, so limits remove the least recently updated sessions
+      const removable = sessions.filter((session) => !isKept(session));
+      const removals = new Map<string, RemovedSession["reason"]>();
+      let remainingSessions = sessions.length;
+      let remainingBytes = [...sizes.values()].reduce((a, b) => a + b, 0);
+      const remove = (
+        session: StoredSession,
+        reason: RemovedSession["reason"]
+      ) => {
+        removals.set(session.id, reason);
+        remainingSessions--;
+        remainingBytes -= sizes.get(session.id)!;
+      };
 
-      for (const [sessionId, sessionData] of Object.entries(persistentData)) {
-        const data = sessionData as any;
-        const sessionAge =
-          now - new Date(data.lastUpdated || data.timestamp).getTime();
+      for (const session of removable) {
+        const age = now - new Date(session.lastUpdated).getTime();
+        if (policy.maxAgeDays > 0 && age > policy.maxAgeDays * DAY_MS) {
+          remove(session, "max_age");
+        }
+      }
+      for (const session of removable) {
+        if (removals.has(session.id)) continue;
+        if (policy.maxSessions > 0 && remainingSessions > policy.maxSessions) {
+          remove(session, "max_sessions");
+        } else if (policy.maxBytes > 0 && remainingBytes > policy.maxBytes) {
+          remove(session, "max_bytes");
+        }
+      }
 
-        if (sessionAge > maxAge) {
-          delete persistentData[sessionId];
-          this.shortTermMemory.delete(sessionId);
+      const removed: RemovedSession[] = [];
+      for (const session of removable) {
+        const reason = removals.get(session.id);
+        if (reason && (await this.store.deleteSession(session.id))) {
+          this.shortTermMemory.delete(session.id);
+          removed.push({
+            sessionId: session.id,
+            title: session.title,
+            lastUpdated: session.lastUpdated,
+            reason,
+          });
         }
       }
 
-      await fs.promises.writeFile(
-        this.persistentStoragePath,
-        JSON.stringify(persistentData, null, 2)
+      if (removed.length > 0) {
+        // Drop the deleted sessions from the journal
+        await this.store.compact();
+      }
+
+      removed.forEach(({ sessionId }) =>
+        this.notifyChange({ type: "session_deleted", sessionId })
       );
+      return { removed, remainingSessions, remainingBytes };
     } catch (error) {
       console.error("Failed to cleanup persistent storage:", error);
       throw new Error(
@@ -361,21 +644,20 @@ export class ThinkingMemorySystem {
     const session = await this.getSession(sessionId);
     if (!session) return null;
 
+    const estimated = session.validationHistory.filter(
+      (attempt) => attempt.confidence !== undefined
+    );
     return {
       sessionId,
       validationAttempts: session.validationHistory.length,
       averageConfidence:
-        session.validationHistory.length > 0
-          ? session.validationHistory.reduce(
-              (sum, attempt) => sum + attempt.confidence,
-              0
-            ) / session.validationHistory.length
+        estimated.length > 0
+          ? estimated.reduce((sum, attempt) => sum + attempt.confidence!, 0) /
+            estimated.length
           : 0,
       mostConfident:
-        session.validationHistory.length > 0
-          ? session.validationHistory.sort(
-              (a, b) => b.confidence - a.confidence
-            )[0]
+        estimated.length > 0
+          ? estimated.sort((a, b) => b.confidence! - a.confidence!)[0]
           : null,
       recentActivity: session.validationHistory.filter((attempt) => {
         const age = Date.now() - new Date(attempt.timestamp).getTime();
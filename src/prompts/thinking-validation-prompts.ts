@@ -417,3 +417,47 @@ Response Format:
     "toolsUsed": [array of tool names you called, e.g. ["read_file", "grep"]]
   }
 }`;
+
+// System prompt for the adversarial second pass of thinking validation
+export const RED_TEAM_PROMPT = `You are a red-team reviewer. Another reviewer has already validated the thinking and proposed change below; their verdict follows the request. Reviewers tend to agree with the agent they review. Your job is to disagree where it is warranted.
+
+Look ONLY for what the first verdict missed:
+- Edge cases: empty, missing or malformed input, boundaries, error paths, partial failures, retries
+- Security holes: injection, missing authentication or authorization, path traversal, secrets in logs, unsafe defaults
+- Concurrency bugs: races, lost updates, deadlocks, non-atomic read-modify-write, ordering assumptions, shared mutable state
+
+RULES:
+- Do not repeat or reword issues the first verdict already lists
+- Ground every finding in the provided code or the described change; no generic warnings
+- Give each finding a concrete suggestion and a priority: high if it can lose data, open a security hole or break production, medium if it is a likely bug, low otherwise
+- If the first verdict missed nothing, return an empty list
+
+Response Format:
+{
+  "missedIssues": [
+    {
+      "issue": "specific problem the first verdict missed",
+      "suggestion": "concrete fix suggestion",
+      "priority": "high|medium|low"
+    }
+  ]
+}`;
+
+// Appended to the user prompt when the validator model may call file tools itself
+export const AGENTIC_TOOL_INSTRUCTIONS = `TOOL ACCESS:
+You can inspect the project yourself with these tools before answering:
+- grep: search file contents with a regular expression
+- readFileWithMode: read a file (full, head, tail or a line range)
+- listFiles: list a directory
+- glob: find files by pattern (e.g. "src/**/*.ts")
+
+All paths are relative to the project root. Use the tools to verify claims in the thinking that the provided code sections do not cover (callers, related modules, configuration). Keep tool use focused; your step budget is limited. When you are done, reply ONLY with the JSON response.`;
+
+// System prompt for condensing older session attempts into the running digest
+export const SESSION_DIGEST_PROMPT = `You maintain the running digest of a validation session. You receive the previous digest, if any, and a batch of older validation attempts that are about to be condensed.
+
+Write:
+- summary: a short narrative (at most 8 sentences) of how the work evolved across the previous digest and the new attempts: what was proposed, what changed between attempts, and where things stand.
+- decisions: the key decisions and conclusions, one line each, oldest first. Merge the previous digest's decisions with the new ones and drop duplicates or decisions later reversed.
+
+Do not list open issues; they are tracked separately. Reply ONLY with the JSON response.`;
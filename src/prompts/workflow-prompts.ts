@@ -0,0 +1,307 @@
+// Client-facing prompt templates for the validation workflows
+// Each template expands into a user message that tells the agent exactly which
+// tool to call and how to shape its arguments, so humans can start a workflow
+// from their MCP client's prompt menu
+
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AnalysisTarget } from "../types/thinking-validation-types.js";
+
+const PROJECT_ROOT_PLACEHOLDER = "<absolute path to the project root>";
+const PROJECT_BACKGROUND_PLACEHOLDER =
+  "<what the project does, its stack and key components>";
+
+const SESSION_FOLLOW_UP =
+  "The response names its session in `metadata.sessionId`; pass it as `sessionId` in follow-up checks so they share history.";
+
+const FILES_ARGUMENT_DESCRIPTION =
+  "Comma-separated files to analyze; append :start-end to read a line range (e.g. src/app.ts:40-90)";
+
+export const WORKFLOW_PROMPTS: Prompt[] = [
+  {
+    name: "pre_change_review",
+    title: "Pre-change review",
+    description:
+      "Validate a planned change with thinking_validation before editing any code",
+    arguments: [
+      {
+        name: "change",
+        description: "What you are about to change and why",
+        required: true,
+      },
+      {
+        name: "files",
+        description: FILES_ARGUMENT_DESCRIPTION,
+        required: true,
+      },
+      {
+        name: "projectRoot",
+        description: "Absolute path to the project root",
+      },
+      {
+        name: "techStack",
+        description: "Technology stack (react|node|python etc)",
+      },
+    ],
+  },
+  {
+    name: "assumption_audit",
+    title: "Assumption audit",
+    description:
+      "Check the assumptions behind a plan with thinking_validation against the actual code",
+    arguments: [
+      {
+        name: "assumptions",
+        description: "Assumptions to check, one per line",
+        required: true,
+      },
+      {
+        name: "component",
+        description: "Component the assumptions are about",
+        required: true,
+      },
+      {
+        name: "files",
+        description: FILES_ARGUMENT_DESCRIPTION,
+      },
+      {
+        name: "environment",
+        description: "Environment (production, development, etc.)",
+      },
+      {
+        name: "projectRoot",
+        description: "Absolute path to the project root",
+      },
+    ],
+  },
+  {
+    name: "blast_radius_check",
+    title: "Blast-radius check",
+    description:
+      "Map what a change can break with impact_analysis before it ships",
+    arguments: [
+      {
+        name: "change",
+        description: "The change to assess",
+        required: true,
+      },
+      {
+        name: "files",
+        description: FILES_ARGUMENT_DESCRIPTION,
+        required: true,
+      },
+      {
+        name: "architecture",
+        description: "Brief architecture description",
+      },
+      {
+        name: "projectRoot",
+        description: "Absolute path to the project root",
+      },
+    ],
+  },
+];
+
+/**
+ * Turn "a.ts, b.ts:10-40" into analysis targets; listed files are the ones
+ * being changed, so they are all critical
+ */
+export function parseAnalysisTargets(files: string): AnalysisTarget[] {
+  return files
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): AnalysisTarget => {
+      const range = entry.match(/^(.+):(\d+)-(\d+)$/);
+      if (range) {
+        return {
+          file: range[1],
+          mode: "range",
+          startLine: Number(range[2]),
+          endLine: Number(range[3]),
+          priority: "critical",
+        };
+      }
+      return { file: entry, mode: "full", priority: "critical" };
+    });
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function projectContextFor(args: Record<string, string>, files?: string) {
+  return {
+    projectRoot: args.projectRoot || PROJECT_ROOT_PLACEHOLDER,
+    analysisTargets: files ? parseAnalysisTargets(files) : [],
+  };
+}
+
+function toolCallMessage(
+  intro: string,
+  tool: string,
+  toolArgs: Record<string, unknown>,
+  followUp: string[]
+): string {
+  return [
+    intro,
+    "",
+    `Call the \`${tool}\` tool with these arguments, replacing every <placeholder> with real values from this project:`,
+    "",
+    "```json",
+    JSON.stringify(toolArgs, null, 2),
+    "```",
+    "",
+    "Guidelines for `projectContext.analysisTargets`:",
+    "- Use paths relative to `projectRoot`, or absolute paths inside it.",
+    '- Prefer `mode: "range"` with `startLine`/`endLine` when you know where the change lands; use `"full"` only when the relevant area is unclear.',
+    '- Add callers or configuration the change depends on as `priority: "important"` targets.',
+    "",
+    "After the tool returns:",
+    ...followUp.map((step) => `- ${step}`),
+  ].join("\n");
+}
+
+function requireArgument(
+  args: Record<string, string>,
+  prompt: string,
+  name: string
+): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt ${prompt} requires the "${name}" argument`
+    );
+  }
+  return value;
+}
+
+/**
+ * Expand a workflow prompt with the arguments chosen in the client
+ */
+export function buildWorkflowPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): GetPromptResult {
+  let description: string;
+  let text: string;
+
+  switch (name) {
+    case "pre_change_review": {
+      const change = requireArgument(args, name, "change");
+      const files = requireArgument(args, name, "files");
+      description = "Pre-change review with thinking_validation";
+      text = toolCallMessage(
+        "Before editing any code, validate this planned change with Athena.",
+        "thinking_validation",
+        {
+          thinking:
+            "<your reasoning: the approach, why it solves the problem, and what you considered>",
+          proposedChange: {
+            description: change,
+            code: "<the code you intend to write, or before/after snippets>",
+            files: parseAnalysisTargets(files).map((target) => target.file),
+          },
+          context: {
+            problem: "<the problem this change solves>",
+            techStack: args.techStack || "<technology stack>",
+          },
+          urgency: "medium",
+          projectContext: projectContextFor(args, files),
+          projectBackground: PROJECT_BACKGROUND_PLACEHOLDER,
+        },
+        [
+          "If `goAhead` is false, address every critical issue and run the review again before editing.",
+          "Otherwise apply the recommendations you agree with and add the suggested `testCases`.",
+          SESSION_FOLLOW_UP,
+        ]
+      );
+      break;
+    }
+
+    case "assumption_audit": {
+      const assumptions = splitLines(
+        requireArgument(args, name, "assumptions")
+      );
+      const component = requireArgument(args, name, "component");
+      description = "Assumption audit with thinking_validation";
+      text = toolCallMessage(
+        "Before acting on the current plan, check the assumptions it relies on with Athena.",
+        "thinking_validation",
+        {
+          thinking: [
+            "The plan assumes:",
+            ...assumptions.map((assumption) => `- ${assumption}`),
+            "",
+            "<your plan and how it depends on each assumption>",
+          ].join("\n"),
+          proposedChange: {
+            description: `<the change the plan makes to ${component}>`,
+            files: args.files
+              ? parseAnalysisTargets(args.files).map((target) => target.file)
+              : undefined,
+          },
+          context: {
+            problem: `Confirm that these assumptions about ${component} hold in the ${
+              args.environment || "<production|development|...>"
+            } environment, as the code shows it`,
+            techStack: "<technology stack>",
+          },
+          urgency: "medium",
+          projectContext: projectContextFor(args, args.files),
+          projectBackground: PROJECT_BACKGROUND_PLACEHOLDER,
+        },
+        [
+          "Treat every critical issue that contradicts an assumption as a wrong assumption, and revise the plan before relying on it.",
+          "Add the suggested `testCases` that exercise the assumptions.",
+          SESSION_FOLLOW_UP,
+        ]
+      );
+      break;
+    }
+
+    case "blast_radius_check": {
+      const change = requireArgument(args, name, "change");
+      const files = requireArgument(args, name, "files");
+      description = "Blast-radius check with impact_analysis";
+      text = toolCallMessage(
+        "Assess everything this change can affect before it ships.",
+        "impact_analysis",
+        {
+          change: {
+            description: change,
+            files: parseAnalysisTargets(files).map((target) => target.file),
+          },
+          systemContext: {
+            architecture:
+              args.architecture || "<brief architecture description>",
+            keyDependencies: ["<dependencies the changed code relies on>"],
+          },
+          projectContext: projectContextFor(args, files),
+          projectBackground: PROJECT_BACKGROUND_PLACEHOLDER,
+        },
+        [
+          "Plan a mitigation for every `affectedAreas` entry and every high-probability `cascadingRisks` entry.",
+          "Run the `quickTests` before and after making the change.",
+        ]
+      );
+      break;
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
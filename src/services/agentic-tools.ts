@@ -0,0 +1,206 @@
+/**
+ * Agentic Tools - AI SDK tool definitions for validator models
+ *
+ * Exposes a read-only subset of ToolCallingService (grep, readFileWithMode,
+ * listFiles, glob) as AI SDK tools so the validator model can inspect the
+ * project itself. Every path is resolved against the project root and calls
+ * that would escape it are rejected.
+ */
+
+import { jsonSchema, tool, ToolSet } from "ai";
+import { isAbsolute, resolve } from "path";
+import { ToolCallingService } from "./tool-calling-service.js";
+import { isInsideRoot, realPath } from "../utils/path-access.js";
+
+export interface AgenticToolCall {
+  toolName: string;
+  input: any;
+}
+
+/**
+ * Resolve a model-supplied path inside the project root
+ * Symlinks are resolved first, so a link inside the project cannot lead
+ * the tools outside it.
+ * @throws {Error} When the path points outside the project root
+ */
+async function resolveInsideRoot(
+  projectRoot: string,
+  target: string = "."
+): Promise<string> {
+  const root = await realPath(resolve(projectRoot));
+  const fullPath = await realPath(
+    isAbsolute(target) ? resolve(target) : resolve(projectRoot, target)
+  );
+
+  if (!isInsideRoot(root, fullPath)) {
+    throw new Error(`Path '${target}' is outside the project root`);
+  }
+
+  return fullPath;
+}
+
+/**
+ * Build the AI SDK tool set for a validation run
+ * @param service - Tool calling service enforcing the configured restrictions
+ * @param projectRoot - Root directory the model is allowed to inspect
+ * @param onToolCall - Invoked for every tool call the model makes
+ */
+export function createAgenticTools(
+  service: ToolCallingService,
+  projectRoot: string,
+  onToolCall?: (call: AgenticToolCall) => void
+): ToolSet {
+  const guard = async <T>(
+    toolName: string,
+    input: any,
+    run: () => Promise<T>
+  ): Promise<T | { success: false; error: string }> => {
+    onToolCall?.({ toolName, input });
+    try {
+      return await run();
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  };
+
+  return {
+    grep: tool({
+      description:
+        "Search file contents under the project root with a regular expression. Returns matching lines with file and line number. node_modules, .git, dist, binary files and files over the size limit are skipped.",
+      inputSchema: jsonSchema<{
+        pattern: string;
+        path?: string;
+        recursive?: boolean;
+        caseSensitive?: boolean;
+      }>({
+        type: "object",
+        properties: {
+          pattern: {
+            type: "string",
+            description: "Regular expression to search for",
+          },
+          path: {
+            type: "string",
+            description: "File or directory relative to the project root",
+          },
+          recursive: {
+            type: "boolean",
+            description: "Also search subdirectories (default true)",
+          },
+          caseSensitive: { type: "boolean" },
+        },
+        required: ["pattern"],
+      }),
+      execute: async (input, { abortSignal }) =>
+        guard("grep", input, async () => {
+          const result = await service.grep(
+            input.pattern,
+            await resolveInsideRoot(projectRoot, input.path),
+            {
+              recursive: input.recursive ?? true,
+              caseSensitive: input.caseSensitive,
+            },
+            abortSignal
+          );
+          // Keep tool output small enough for the model context
+          return {
+            ...result,
+            matches: result.matches?.slice(0, 100),
+            truncated: (result.matches?.length || 0) > 100,
+          };
+        }),
+    }),
+
+    readFileWithMode: tool({
+      description:
+        "Read a file under the project root. Modes: 'full' (entire file), 'head'/'tail' (first/last N lines, requires lines), 'range' (requires startLine and endLine).",
+      inputSchema: jsonSchema<{
+        path: string;
+        mode?: "full" | "head" | "tail" | "range";
+        lines?: number;
+        startLine?: number;
+        endLine?: number;
+      }>({
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "File path relative to the project root",
+          },
+          mode: { type: "string", enum: ["full", "head", "tail", "range"] },
+          lines: { type: "integer", minimum: 1 },
+          startLine: { type: "integer", minimum: 1 },
+          endLine: { type: "integer", minimum: 1 },
+        },
+        required: ["path"],
+      }),
+      execute: async (input, { abortSignal }) =>
+        guard("readFileWithMode", input, async () =>
+          service.readFileWithMode(
+            {
+              ...input,
+              path: await resolveInsideRoot(projectRoot, input.path),
+              mode: input.mode || "full",
+            },
+            abortSignal
+          )
+        ),
+    }),
+
+    listFiles: tool({
+      description:
+        "List the contents of a directory under the project root. Recursive listings do not descend into node_modules, .git or dist.",
+      inputSchema: jsonSchema<{ path?: string; recursive?: boolean }>({
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Directory relative to the project root",
+          },
+          recursive: { type: "boolean" },
+        },
+      }),
+      execute: async (input, { abortSignal }) =>
+        guard("listFiles", input, async () => {
+          const result = await service.listFiles(
+            await resolveInsideRoot(projectRoot, input.path),
+            input.recursive ?? false,
+            abortSignal
+          );
+          return {
+            ...result,
+            files: result.files?.slice(0, 500),
+            truncated: (result.files?.length || 0) > 500,
+          };
+        }),
+    }),
+
+    glob: tool({
+      description:
+        "Find files under the project root matching a glob pattern such as 'src/**/*.ts'. node_modules, .git and dist are skipped.",
+      inputSchema: jsonSchema<{ pattern: string }>({
+        type: "object",
+        properties: {
+          pattern: {
+            type: "string",
+            description: "Glob pattern relative to the project root",
+          },
+        },
+        required: ["pattern"],
+      }),
+      execute: async (input, { abortSignal }) =>
+        guard("glob", input, async () => {
+          const result = await service.glob(
+            input.pattern,
+            await resolveInsideRoot(projectRoot),
+            abortSignal
+          );
+          return {
+            ...result,
+            matches: result.matches?.slice(0, 500),
+            truncated: (result.matches?.length || 0) > 500,
+          };
+        }),
+    }),
+  };
+}
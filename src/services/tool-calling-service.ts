@@ -2,6 +2,7 @@ import { join, resolve } from "path";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { logger } from "../utils/logger.js";
+import { isInsideAllowedRoots } from "../utils/path-access.js";
 import {
   createToolRegistry,
   ToolRegistry,
@@ -26,14 +27,36 @@ export interface ToolCallingConfig {
   maxExecutionTimeSec?: number;
   allowedFileExtensions?: string[];
   allowedCommands?: string[];
+  // Directories every path must lie in (MCP_HTTP_ALLOWED_ROOTS in HTTP
+  // mode); unset leaves paths unrestricted
+  allowedRoots?: string[];
   // Tool-specific timeouts (in milliseconds)
   timeoutThinkingValidationMs?: number;
   timeoutImpactAnalysisMs?: number;
   timeoutAssumptionCheckerMs?: number;
   timeoutDependencyMapperMs?: number;
   timeoutThinkingOptimizerMs?: number;
+  // Whole full_review run, all stages included
+  timeoutFullReviewMs?: number;
+  // Maximum model steps for agentic tool calling during validation (0 disables)
+  agenticMaxSteps?: number;
 }
 
+// Default budget of a whole full_review run, all stages included
+export const DEFAULT_FULL_REVIEW_TIMEOUT_MS = 600000;
+
+export type ValidationToolName =
+  | "thinking_validation"
+  | "impact_analysis"
+  | "assumption_checker"
+  | "dependency_mapper"
+  | "thinking_optimizer"
+  | "full_review";
+
+// Dependency, VCS and build output directories grep, glob and recursive
+// listings never descend into
+const EXCLUDED_DIRECTORIES = ["node_modules", ".git", "dist"];
+
 export class ToolCallingService {
   private config: ToolCallingConfig;
   private toolRegistry: ToolRegistry;
@@ -75,6 +98,9 @@ export class ToolCallingService {
       timeoutAssumptionCheckerMs: config.timeoutAssumptionCheckerMs ?? 60000,
       timeoutDependencyMapperMs: config.timeoutDependencyMapperMs ?? 90000,
       timeoutThinkingOptimizerMs: config.timeoutThinkingOptimizerMs ?? 60000,
+      timeoutFullReviewMs:
+        config.timeoutFullReviewMs ?? DEFAULT_FULL_REVIEW_TIMEOUT_MS,
+      agenticMaxSteps: config.agenticMaxSteps ?? 5,
     };
     this.toolRegistry = createToolRegistry();
   }
@@ -85,9 +111,11 @@ export class ToolCallingService {
 
   /**
    * Read file with mode support (enhanced version)
+   * @param signal - Aborts the read when the calling tool times out
    */
   async readFileWithMode(
-    args: ReadFileArgs
+    args: ReadFileArgs,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; content?: string; error?: string }> {
     if (!this.config.readFile.enabled) {
       return {
@@ -96,6 +124,11 @@ export class ToolCallingService {
       };
     }
 
+    const outsideError = await this.checkAllowedRoots(args.path);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
     // Validate file extension
     const fileExt = this.getFileExtension(args.path);
     if (!this.config.allowedFileExtensions!.includes(fileExt)) {
@@ -108,7 +141,7 @@ export class ToolCallingService {
     }
 
     try {
-      const result = await this.toolRegistry.readFile(args);
+      const result = await this.toolRegistry.readFile(args, signal);
 
       // Check file size limit if content was successfully read
       if (result.success && result.content) {
@@ -140,8 +173,12 @@ export class ToolCallingService {
 
   /**
    * Read multiple files concurrently with per-file mode support
+   * @param signal - Aborts the reads when the calling tool times out
    */
-  async readMultipleFiles(files: ReadFileRequest[]): Promise<{
+  async readMultipleFiles(
+    files: ReadFileRequest[],
+    signal?: AbortSignal
+  ): Promise<{
     success: boolean;
     results: Array<{ path: string; content?: string; error?: string }>;
     error?: string;
@@ -154,8 +191,12 @@ export class ToolCallingService {
       };
     }
 
-    // Validate file extensions for all files
+    // Validate paths and file extensions for all files
     for (const fileRequest of files) {
+      const outsideError = await this.checkAllowedRoots(fileRequest.path);
+      if (outsideError) {
+        return { success: false, results: [], error: outsideError };
+      }
       const fileExt = this.getFileExtension(fileRequest.path);
       if (!this.config.allowedFileExtensions!.includes(fileExt)) {
         return {
@@ -171,7 +212,10 @@ export class ToolCallingService {
     }
 
     try {
-      const result = await this.toolRegistry.readMultipleFiles({ files });
+      const result = await this.toolRegistry.readMultipleFiles(
+        { files },
+        signal
+      );
 
       // Check file size limits for all results
       for (const fileResult of result.results) {
@@ -217,7 +261,8 @@ export class ToolCallingService {
 
   async listFiles(
     directoryPath: string,
-    recursive: boolean = false
+    recursive: boolean = false,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; files?: string[]; error?: string }> {
     if (!this.config.listFiles.enabled) {
       return {
@@ -226,11 +271,20 @@ export class ToolCallingService {
       };
     }
 
+    const outsideError = await this.checkAllowedRoots(directoryPath);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
     try {
-      const result = await this.toolRegistry.listFiles({
-        path: directoryPath,
-        recursive,
-      });
+      const result = await this.toolRegistry.listFiles(
+        {
+          path: directoryPath,
+          recursive,
+          exclude: EXCLUDED_DIRECTORIES,
+        },
+        signal
+      );
       return {
         success: result.success,
         files: result.files,
@@ -248,7 +302,8 @@ export class ToolCallingService {
   async grep(
     pattern: string,
     path: string,
-    options?: { recursive?: boolean; caseSensitive?: boolean }
+    options?: { recursive?: boolean; caseSensitive?: boolean },
+    signal?: AbortSignal
   ): Promise<{
     success: boolean;
     matches?: Array<{ file: string; line: number; content: string }>;
@@ -261,13 +316,23 @@ export class ToolCallingService {
       };
     }
 
+    const outsideError = await this.checkAllowedRoots(path);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
     try {
-      const result = await this.toolRegistry.grep({
-        pattern,
-        path,
-        recursive: options?.recursive ?? true,
-        caseSensitive: options?.caseSensitive ?? false,
-      });
+      const result = await this.toolRegistry.grep(
+        {
+          pattern,
+          path,
+          recursive: options?.recursive ?? true,
+          caseSensitive: options?.caseSensitive ?? false,
+          exclude: EXCLUDED_DIRECTORIES,
+          maxFileSizeKB: this.config.maxFileSizeKB,
+        },
+        signal
+      );
       return {
         success: result.success,
         matches: result.matches,
@@ -282,6 +347,70 @@ export class ToolCallingService {
     }
   }
 
+  async glob(
+    pattern: string,
+    root: string,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean; matches?: string[]; error?: string }> {
+    if (!this.config.listFiles.enabled) {
+      return {
+        success: false,
+        error: "Directory listing is disabled in configuration",
+      };
+    }
+
+    const outsideError = await this.checkAllowedRoots(root);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
+    try {
+      const result = await this.toolRegistry.glob(
+        { pattern, root, exclude: EXCLUDED_DIRECTORIES },
+        signal
+      );
+      return {
+        success: result.success,
+        matches: result.matches,
+        error: result.error,
+      };
+    } catch (error) {
+      logger.error(`Error running glob in ${root}:`, error);
+      return {
+        success: false,
+        error: `Glob failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Maximum number of model steps allowed when the validator model
+   * calls file tools itself (0 disables the agentic loop)
+   */
+  getAgenticMaxSteps(): number {
+    return this.config.agenticMaxSteps!;
+  }
+
+  /**
+   * Time budget for a single validation tool call (0 disables the timeout)
+   */
+  getToolTimeoutMs(tool: ValidationToolName): number {
+    switch (tool) {
+      case "thinking_validation":
+        return this.config.timeoutThinkingValidationMs!;
+      case "impact_analysis":
+        return this.config.timeoutImpactAnalysisMs!;
+      case "assumption_checker":
+        return this.config.timeoutAssumptionCheckerMs!;
+      case "dependency_mapper":
+        return this.config.timeoutDependencyMapperMs!;
+      case "thinking_optimizer":
+        return this.config.timeoutThinkingOptimizerMs!;
+      case "full_review":
+        return this.config.timeoutFullReviewMs!;
+    }
+  }
+
   async readManyFiles(filePaths: string[]): Promise<{
     success: boolean;
     files?: Array<{ path: string; content?: string; error?: string }>;
@@ -339,8 +468,13 @@ export class ToolCallingService {
       };
     }
 
+    const cwd = workingDirectory ? resolve(workingDirectory) : process.cwd();
+    const outsideError = await this.checkAllowedRoots(cwd);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
     try {
-      const cwd = workingDirectory ? resolve(workingDirectory) : process.cwd();
       const timeoutMs = this.config.maxExecutionTimeSec! * 1000; // Convert to milliseconds
 
       const result = await execAsync(command, {
@@ -403,6 +537,11 @@ export class ToolCallingService {
       };
     }
 
+    const outsideError = await this.checkAllowedRoots(args.path);
+    if (outsideError) {
+      return { success: false, error: outsideError };
+    }
+
     // Validate file extension
     const fileExt = this.getFileExtension(args.path);
     if (!this.config.allowedFileExtensions!.includes(fileExt)) {
@@ -456,6 +595,22 @@ export class ToolCallingService {
     };
   }
 
+  /**
+   * Directories every path must lie in, or undefined when unrestricted
+   */
+  getAllowedRoots(): string[] | undefined {
+    return this.config.allowedRoots;
+  }
+
+  // Error for a path outside the allowed roots, symlinks resolved
+  private async checkAllowedRoots(path: string): Promise<string | undefined> {
+    const allowedRoots = this.config.allowedRoots;
+    if (!allowedRoots || (await isInsideAllowedRoots(path, allowedRoots))) {
+      return undefined;
+    }
+    return `Path '${path}' is outside the allowed roots`;
+  }
+
   // Helper method to get file extension
   private getFileExtension(filePath: string): string {
     const ext = filePath.split(".").pop()?.toLowerCase() || "";
@@ -0,0 +1,207 @@
+/**
+ * Session Resources
+ *
+ * Publishes validation sessions and their attempts as MCP resources so
+ * clients can attach past validations as context without a tool call:
+ *   athena://sessions/{sessionId}
+ *   athena://sessions/{sessionId}/attempts/{attemptId}
+ * Clients are told about created, edited or removed sessions through
+ * resources/list_changed, and about edits and new attempts on a session they
+ * subscribed to through resources/updated.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ThinkingValidator } from "./core/thinking-validator.js";
+import { MemoryChange } from "./types/thinking-validation-types.js";
+
+const SESSION_URI_PREFIX = "athena://sessions/";
+const JSON_MIME_TYPE = "application/json";
+
+// JSON-RPC code the MCP specification assigns to unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+function sessionUri(sessionId: string): string {
+  return `${SESSION_URI_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+function attemptUri(sessionId: string, attemptId: string): string {
+  return `${sessionUri(sessionId)}/attempts/${encodeURIComponent(attemptId)}`;
+}
+
+function parseSessionUri(
+  uri: string
+): { sessionId: string; attemptId?: string } | null {
+  const match = uri.match(
+    /^athena:\/\/sessions\/([^/]+)(?:\/attempts\/([^/]+))?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return {
+      sessionId: decodeURIComponent(match[1]),
+      attemptId: match[2] ? decodeURIComponent(match[2]) : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Register the resource handlers on a server and keep its clients informed
+ * of memory changes until the server closes
+ */
+export function registerSessionResources(
+  server: Server,
+  thinkingValidator: ThinkingValidator
+): void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const { sessions } = await thinkingValidator.listSessions({
+      includeArchived: true,
+    });
+    const resources: Resource[] = sessions.map((session) => ({
+      uri: sessionUri(session.id),
+      name: `session-${session.id}`,
+      title: session.title || `Validation session ${session.id}`,
+      description: `Validation session started ${session.timestamp}, with its context and attempt index`,
+      mimeType: JSON_MIME_TYPE,
+    }));
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{sessionId}`,
+        name: "validation-session",
+        title: "Validation session",
+        description: "Session context and an index of its validation attempts",
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{sessionId}/attempts/{attemptId}`,
+        name: "validation-attempt",
+        title: "Validation attempt",
+        description:
+          "A single validation attempt with its full request and response",
+        mimeType: JSON_MIME_TYPE,
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parseSessionUri(uri);
+    if (!parsed) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const session = await thinkingValidator.getSession(parsed.sessionId);
+    if (!session) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+
+    let contents: unknown;
+    if (parsed.attemptId) {
+      const attempt = session.validationHistory.find(
+        (entry) => entry.id === parsed.attemptId
+      );
+      if (!attempt) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      }
+      contents = { sessionId: session.id, ...attempt };
+    } else {
+      contents = {
+        id: session.id,
+        timestamp: session.timestamp,
+        title: session.title,
+        tags: session.tags,
+        status: session.status,
+        archived: session.archived,
+        context: session.context,
+        digest: session.digest,
+        attempts: session.validationHistory.map((attempt) => ({
+          id: attempt.id,
+          timestamp: attempt.timestamp,
+          tool: attempt.tool,
+          confidence: attempt.confidence,
+          condensed: attempt.condensed,
+          outcome: attempt.outcome?.status,
+          uri: attemptUri(session.id, attempt.id),
+        })),
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: JSON_MIME_TYPE,
+          text: JSON.stringify(contents, null, 2),
+        },
+      ],
+    };
+  });
+
+  // Only session URIs produce updates, which include outcomes recorded for
+  // their attempts; they are stored in canonical form to match the URIs
+  // built from memory changes
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const parsed = parseSessionUri(request.params.uri);
+    if (!parsed) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource: ${request.params.uri}`
+      );
+    }
+    if (!parsed.attemptId) {
+      subscriptions.add(sessionUri(parsed.sessionId));
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const parsed = parseSessionUri(request.params.uri);
+    if (parsed && !parsed.attemptId) {
+      subscriptions.delete(sessionUri(parsed.sessionId));
+    }
+    return {};
+  });
+
+  const notify = (send: () => Promise<void>) => {
+    send().catch((error) =>
+      console.error("Failed to send resource notification:", error)
+    );
+  };
+
+  const unsubscribe = thinkingValidator.onMemoryChange(
+    (change: MemoryChange) => {
+      const uri = sessionUri(change.sessionId);
+
+      if (change.type !== "attempt_added") {
+        notify(() => server.sendResourceListChanged());
+      }
+      if (change.type !== "session_created" && subscriptions.has(uri)) {
+        notify(() => server.sendResourceUpdated({ uri }));
+      }
+    }
+  );
+
+  server.onclose = () => {
+    unsubscribe();
+    subscriptions.clear();
+  };
+}
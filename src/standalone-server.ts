@@ -24,6 +24,7 @@ app.use(express.json());
 const config = loadConfig();
 const thinkingValidator = new ThinkingValidator();
 await thinkingValidator.initialize(config);
+thinkingValidator.startMemoryCleanup();
 
 // Health check endpoint
 app.get("/health", async (req, res) => {
@@ -47,10 +48,17 @@ app.get("/providers", async (req, res) => {
   try {
     // Return basic provider information from config
     const { getConfiguredProviders } = await import("./config-manager.js");
+    const { getMetricsCollector } =
+      await import("./utils/metrics-collector.js");
     const providers = getConfiguredProviders();
+    const metricsCollector = getMetricsCollector();
     res.json({
       status: "ok",
-      providers: providers.map((p) => ({ name: p.name, enabled: p.hasApiKey })),
+      providers: providers.map((p) => ({
+        name: p.name,
+        enabled: p.hasApiKey,
+        circuitBreaker: metricsCollector.getCircuitBreakerStatus(p.name),
+      })),
     });
   } catch (error) {
     res.status(500).json({
@@ -163,7 +171,7 @@ app.post("/optimize", async (req, res) => {
 // Session management endpoint
 app.get("/sessions", async (req, res) => {
   try {
-    const sessions = await thinkingValidator.listSessions();
+    const { sessions } = await thinkingValidator.listSessions();
     res.json({
       status: "ok",
       sessions,
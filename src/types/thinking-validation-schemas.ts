@@ -0,0 +1,330 @@
+/**
+ * Zod schemas for structured validator responses
+ * Mirror the response interfaces in thinking-validation-types.ts (without
+ * metadata, which the server fills in) and are passed to generateObject
+ */
+
+import { z } from "zod";
+
+const PrioritySchema = z.enum(["high", "medium", "low"]);
+
+// Only requested when the session has issues from an earlier attempt
+const IssueTrackingSchema = z
+  .object({
+    resolved: z.array(z.string()),
+    stillOpen: z.array(z.string()),
+    new: z.array(z.string()),
+  })
+  .describe(
+    "Previously reported issues classified as resolved or still open, plus issues raised for the first time"
+  );
+
+// ============================================================================
+// THINKING VALIDATION
+// ============================================================================
+
+export const ThinkingValidationResultSchema = z.object({
+  validation: z.object({
+    confidence: z
+      .number()
+      .min(0)
+      .max(100)
+      .describe("Confidence in the proposed approach (0-100)"),
+    goAhead: z.boolean(),
+    criticalIssues: z.array(
+      z.object({
+        issue: z.string(),
+        suggestion: z.string(),
+        priority: PrioritySchema,
+      })
+    ),
+    recommendations: z.array(z.string()),
+    testCases: z.array(z.string()),
+  }),
+  issueTracking: IssueTrackingSchema.optional(),
+});
+
+// Second, adversarial pass of thinking validation; reports only what the
+// first verdict missed
+export const RedTeamResultSchema = z.object({
+  missedIssues:
+    ThinkingValidationResultSchema.shape.validation.shape.criticalIssues,
+});
+
+// ============================================================================
+// IMPACT ANALYSIS
+// ============================================================================
+
+export const ImpactAnalysisResultSchema = z.object({
+  impacts: z.object({
+    overallRisk: PrioritySchema,
+    affectedAreas: z.array(
+      z.object({
+        area: z.string(),
+        impact: z.string(),
+        mitigation: z.string(),
+      })
+    ),
+    cascadingRisks: z.array(
+      z.object({
+        risk: z.string(),
+        probability: PrioritySchema,
+        action: z.string(),
+      })
+    ),
+    quickTests: z.array(z.string()),
+  }),
+  issueTracking: IssueTrackingSchema.optional(),
+});
+
+// ============================================================================
+// ASSUMPTION CHECKER
+// ============================================================================
+
+export const AssumptionCheckerResultSchema = z.object({
+  validation: z.object({
+    validAssumptions: z.array(z.string()),
+    riskyAssumptions: z.array(
+      z.object({
+        assumption: z.string(),
+        risk: z.string(),
+        mitigation: z.string(),
+      })
+    ),
+    quickVerifications: z.array(z.string()),
+  }),
+  issueTracking: IssueTrackingSchema.optional(),
+});
+
+// ============================================================================
+// DEPENDENCY MAPPER
+// ============================================================================
+
+const DependencyEntrySchema = z.object({
+  dependency: z.string(),
+  impact: z.string(),
+  action: z.string(),
+});
+
+export const DependencyMapperResultSchema = z.object({
+  dependencies: z.object({
+    critical: z.array(DependencyEntrySchema),
+    secondary: z.array(DependencyEntrySchema),
+    testFocus: z.array(z.string()),
+  }),
+});
+
+// ============================================================================
+// THINKING OPTIMIZER
+// ============================================================================
+
+export const ThinkingOptimizerResultSchema = z.object({
+  optimizedStrategy: z.object({
+    approach: z.string(),
+    toolsToUse: z.array(z.string()),
+    timeAllocation: z.object({
+      thinking: z.string(),
+      implementation: z.string(),
+      testing: z.string(),
+    }),
+    successProbability: z
+      .number()
+      .min(0)
+      .max(100)
+      .describe("Estimated probability of success (0-100)"),
+    keyFocus: z.string(),
+  }),
+  tacticalPlan: z
+    .object({
+      classification: z.string().optional(),
+      grepFirst: z.array(z.string()).optional(),
+      keyFindingsHypothesis: z.array(z.string()).optional(),
+      decisionPoints: z.array(z.string()).optional(),
+      implementationSteps: z.array(z.string()).optional(),
+      testingPlan: z.array(z.string()).optional(),
+      riskMitigation: z.array(z.string()).optional(),
+      checkpoints: z.array(z.string()).optional(),
+      valueEffortNotes: z.string().optional(),
+    })
+    .optional(),
+});
+
+// ============================================================================
+// SESSION DIGEST
+// ============================================================================
+
+// Model-written part of a session digest; open issues are tracked separately
+export const SessionDigestSummarySchema = z.object({
+  summary: z.string(),
+  decisions: z.array(z.string()),
+});
+
+// ============================================================================
+// TOOL OUTPUT
+// ============================================================================
+// Full responses as returned to MCP clients and advertised as each tool's
+// outputSchema: the analysis section is absent when the call failed, and
+// metadata is filled in by the server
+
+const ResponseErrorSchema = z.union([
+  z.object({
+    parseFailed: z.literal(true),
+    message: z.string(),
+    attempts: z.number(),
+  }),
+  z.object({
+    timedOut: z.literal(true),
+    stage: z.enum(["file_analysis", "llm"]),
+    timeoutMs: z.number(),
+    message: z.string(),
+  }),
+]);
+
+const ConsensusVotingSchema = z.enum(["unanimous", "majority", "any_blocker"]);
+
+const ConsensusVerdictSchema = z.object({
+  provider: z.string(),
+  goAhead: z.boolean().optional(),
+  blocker: z.boolean().optional(),
+  result: z.any().optional(),
+  error: z.string().optional(),
+});
+
+const ConsensusSummarySchema = z.object({
+  voting: ConsensusVotingSchema,
+  goAhead: z.boolean(),
+  agreement: z.number(),
+  providers: z.array(z.string()),
+});
+
+const SelfConsistencyReportSchema = z.object({
+  samples: z.number(),
+  temperature: z.number(),
+  confidence: z.number(),
+  verdictAgreement: z.number().optional(),
+  findingAgreement: z.number(),
+  modelConfidence: z.number().optional(),
+});
+
+// Providers that reported a merged finding, in consensus mode
+const RaisedBySchema = z.array(z.string()).optional();
+
+const RedTeamReportSchema = z.object({
+  findings: z.number(),
+  error: z.string().optional(),
+});
+
+const ToolResponseMetadataSchema = z
+  .object({
+    providerUsed: z.string().optional(),
+    overrideRequested: z.boolean().optional(),
+    overrideSuccessful: z.boolean().optional(),
+    providersTried: z.array(z.string()).optional(),
+    providerFailures: z
+      .array(z.object({ provider: z.string(), reason: z.string() }))
+      .optional(),
+    retryAttempts: z.number().optional(),
+    fileAnalysisPerformed: z.boolean().optional(),
+    filesAnalyzed: z.number().optional(),
+    toolsUsed: z.array(z.string()).optional(),
+    sessionId: z.string().optional(),
+    attemptId: z.string().optional(),
+    consensusVerdicts: z.array(ConsensusVerdictSchema).optional(),
+    selfConsistency: SelfConsistencyReportSchema.optional(),
+    diffCheck: z
+      .array(
+        z.object({
+          file: z.string(),
+          hunk: z.string(),
+          status: z.enum(["applies", "stale", "does_not_apply", "unchecked"]),
+          foundAt: z.number().optional(),
+          message: z.string().optional(),
+        })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+const ToolResponseFieldsSchema = z.object({
+  error: ResponseErrorSchema.optional(),
+  metadata: ToolResponseMetadataSchema.optional(),
+});
+
+const ThinkingValidationSectionSchema =
+  ThinkingValidationResultSchema.shape.validation;
+const ImpactSectionSchema = ImpactAnalysisResultSchema.shape.impacts;
+
+export const ThinkingValidationResponseSchema =
+  ThinkingValidationResultSchema.partial()
+    .merge(ToolResponseFieldsSchema)
+    .extend({
+      validation: ThinkingValidationSectionSchema.extend({
+        criticalIssues: z.array(
+          ThinkingValidationSectionSchema.shape.criticalIssues.element.extend({
+            raisedBy: RaisedBySchema,
+            source: z.literal("red_team").optional(),
+          })
+        ),
+      }).optional(),
+      consensus: ConsensusSummarySchema.optional(),
+      metadata: ToolResponseMetadataSchema.extend({
+        agenticSteps: z.number().optional(),
+        redTeam: RedTeamReportSchema.optional(),
+      }).optional(),
+    });
+
+export const ImpactAnalysisResponseSchema = ImpactAnalysisResultSchema.partial()
+  .merge(ToolResponseFieldsSchema)
+  .extend({
+    impacts: ImpactSectionSchema.extend({
+      affectedAreas: z.array(
+        ImpactSectionSchema.shape.affectedAreas.element.extend({
+          raisedBy: RaisedBySchema,
+        })
+      ),
+      cascadingRisks: z.array(
+        ImpactSectionSchema.shape.cascadingRisks.element.extend({
+          raisedBy: RaisedBySchema,
+        })
+      ),
+    }).optional(),
+    consensus: ConsensusSummarySchema.optional(),
+  });
+
+export const AssumptionCheckerResponseSchema =
+  AssumptionCheckerResultSchema.partial().merge(ToolResponseFieldsSchema);
+
+export const DependencyMapperResponseSchema =
+  DependencyMapperResultSchema.partial().merge(ToolResponseFieldsSchema);
+
+export const ThinkingOptimizerResponseSchema =
+  ThinkingOptimizerResultSchema.partial().merge(ToolResponseFieldsSchema);
+
+export const FullReviewResponseSchema = z
+  .object({
+    verdict: z
+      .object({ goAhead: z.boolean(), blockers: z.array(z.string()) })
+      .optional(),
+    sections: z
+      .object({
+        assumptions: AssumptionCheckerResponseSchema.optional(),
+        dependencies: DependencyMapperResponseSchema.optional(),
+        impact: ImpactAnalysisResponseSchema.optional(),
+        validation: ThinkingValidationResponseSchema.optional(),
+      })
+      .optional(),
+    failures: z
+      .array(
+        z.object({
+          stage: z.enum([
+            "assumption_checker",
+            "dependency_mapper",
+            "impact_analysis",
+            "thinking_validation",
+          ]),
+          message: z.string(),
+        })
+      )
+      .optional(),
+  })
+  .merge(ToolResponseFieldsSchema);
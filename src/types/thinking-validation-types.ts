@@ -13,17 +13,176 @@ export interface AnalysisTarget {
   priority?: "critical" | "important" | "supplementary";
 }
 
+/**
+ * Result of checking one hunk of a change's unified diff against the
+ * current file under projectRoot
+ */
+export interface DiffHunkCheck {
+  file: string;
+  // "@@ -oldStart,oldLines +newStart,newLines @@"
+  hunk: string;
+  // stale: the lines are there, but not where the header says
+  status: "applies" | "stale" | "does_not_apply" | "unchecked";
+  // Line the hunk was found at, when stale
+  foundAt?: number;
+  message?: string;
+}
+
 export interface ProjectContext {
   projectRoot: string;
   workingDirectory?: string;
   analysisTargets?: AnalysisTarget[];
 }
 
+/**
+ * Explicit failure reported when the model output could not be turned into
+ * the response schema, even after JSON repair and re-asking the model.
+ * The analysis section of the response is omitted in that case.
+ */
+export interface ResponseParseError {
+  parseFailed: true;
+  message: string;
+  attempts: number;
+}
+
+/**
+ * Reported when a tool runs past its configured timeout. `stage` is the part
+ * of the call that was still running when the timeout fired.
+ */
+export interface ResponseTimeoutError {
+  timedOut: true;
+  stage: "file_analysis" | "llm";
+  timeoutMs: number;
+  message: string;
+}
+
+export type ResponseError = ResponseParseError | ResponseTimeoutError;
+
+/**
+ * Progress update emitted while a validation tool is running
+ */
+export interface ToolProgressUpdate {
+  // Increases with every update of the same call
+  progress: number;
+  message: string;
+}
+
+/**
+ * Per-call options for the validation tools
+ */
+export interface ToolRunOptions {
+  // Aborts the run, e.g. when the MCP client cancels the request
+  signal?: AbortSignal;
+  // Receives stage updates; when set, the model response is also streamed
+  onProgress?: (update: ToolProgressUpdate) => void;
+}
+
+/**
+ * Server-populated metadata shared by all analysis tool responses
+ */
+export interface ToolResponseMetadata {
+  providerUsed?: string;
+  overrideRequested?: boolean;
+  overrideSuccessful?: boolean;
+  // Providers in the order they were called; failures lists why each fell through
+  providersTried?: string[];
+  providerFailures?: { provider: string; reason: string }[];
+  // Retries of transient provider errors (rate limit, 5xx, timeout)
+  retryAttempts?: number;
+  fileAnalysisPerformed?: boolean;
+  filesAnalyzed?: number;
+  toolsUsed?: string[];
+  // Session the attempt was recorded in; pass it back to continue the thread
+  sessionId?: string;
+  // Recorded attempt; pass it to record_outcome once the change has landed
+  attemptId?: string;
+  // Raw verdict of each provider asked in consensus mode
+  consensusVerdicts?: ConsensusVerdict[];
+  // How consistently the samples agreed, when the answer was sampled
+  selfConsistency?: SelfConsistencyReport;
+  // Hunks of the change's diff checked against the current files
+  diffCheck?: DiffHunkCheck[];
+}
+
+/**
+ * Samples the same provider several times to estimate confidence; unset
+ * fields fall back to the SELF_CONSISTENCY_* configuration
+ */
+export interface SelfConsistencyOptions {
+  // 2 or more enables sampling
+  samples?: number;
+  temperature?: number;
+}
+
+export interface SelfConsistencyReport {
+  // Samples that returned an analysis
+  samples: number;
+  temperature: number;
+  // 0-100, the mean of the agreements below; stored as the attempt confidence
+  confidence: number;
+  // Share of samples giving the most common verdict; unset for tools without one
+  verdictAgreement?: number;
+  // Average share of samples reporting each finding
+  findingAgreement: number;
+  // Confidence the model itself reported in the returned sample, if any
+  modelConfidence?: number;
+}
+
+/**
+ * How the consensus go-ahead is decided:
+ * unanimous - every provider clears the change
+ * majority - more than half of the providers clear it
+ * any_blocker - cleared unless some provider reports a blocker, regardless
+ * of the verdicts themselves
+ */
+export type ConsensusVoting = "unanimous" | "majority" | "any_blocker";
+
+/**
+ * Asks several providers the same prompt and merges their answers; unset
+ * fields fall back to the CONSENSUS_* configuration
+ */
+export interface ConsensusOptions {
+  providers?: string[];
+  voting?: ConsensusVoting;
+}
+
+export interface ConsensusVerdict {
+  provider: string;
+  goAhead?: boolean;
+  // High-priority issue (thinking_validation) or high risk (impact_analysis)
+  blocker?: boolean;
+  // The provider's own analysis section, unmerged
+  result?: any;
+  // Why the provider gave no verdict
+  error?: string;
+}
+
+export interface ConsensusSummary {
+  voting: ConsensusVoting;
+  goAhead: boolean;
+  // 0-1: how far the providers agreed on the verdict and on the findings
+  agreement: number;
+  // Providers whose answers were merged
+  providers: string[];
+}
+
+/**
+ * Status of issues relative to the previous attempt of the same tool in the
+ * session. Issues are reported in their original wording.
+ */
+export interface IssueTracking {
+  resolved: string[];
+  stillOpen: string[];
+  new: string[];
+}
+
 export interface ThinkingValidationRequest {
   thinking: string;
   proposedChange: {
     description: string;
     code?: string;
+    // Unified diff of the change
+    diff?: string;
     files?: string[];
   };
   context: {
@@ -34,27 +193,44 @@ export interface ThinkingValidationRequest {
   urgency: "low" | "medium" | "high";
   projectContext?: ProjectContext;
   projectBackground?: string;
+  consensus?: ConsensusOptions;
+  selfConsistency?: SelfConsistencyOptions;
+  // Adversarial second pass; defaults to on when urgency is high
+  redTeam?: boolean;
+}
+
+/**
+ * Outcome of the red-team pass of thinking_validation
+ */
+export interface RedTeamReport {
+  // Issues added to criticalIssues
+  findings: number;
+  // Why the pass failed; the first verdict is kept as it is
+  error?: string;
 }
 
 export interface ThinkingValidationResponse {
-  validation: {
+  validation?: {
     confidence: number;
     goAhead: boolean;
     criticalIssues: {
       issue: string;
       suggestion: string;
       priority: "high" | "medium" | "low";
+      // Providers that reported the issue, in consensus mode
+      raisedBy?: string[];
+      // Set when the red-team pass found the issue
+      source?: "red_team";
     }[];
     recommendations: string[];
     testCases: string[];
   };
-  metadata?: {
-    providerUsed?: string;
-    overrideRequested?: boolean;
-    overrideSuccessful?: boolean;
-    fileAnalysisPerformed?: boolean;
-    filesAnalyzed?: number;
-    toolsUsed?: string[];
+  issueTracking?: IssueTracking;
+  consensus?: ConsensusSummary;
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata & {
+    agenticSteps?: number;
+    redTeam?: RedTeamReport;
   };
 }
 
@@ -62,6 +238,8 @@ export interface ImpactAnalysisRequest {
   change: {
     description: string;
     code?: string;
+    // Unified diff of the change
+    diff?: string;
     files?: string[];
   };
   systemContext: {
@@ -70,31 +248,32 @@ export interface ImpactAnalysisRequest {
   };
   projectContext?: ProjectContext;
   projectBackground?: string;
+  consensus?: ConsensusOptions;
+  selfConsistency?: SelfConsistencyOptions;
 }
 
 export interface ImpactAnalysisResponse {
-  impacts: {
+  impacts?: {
     overallRisk: "low" | "medium" | "high";
     affectedAreas: {
       area: string;
       impact: string;
       mitigation: string;
+      // Providers that reported the area, in consensus mode
+      raisedBy?: string[];
     }[];
     cascadingRisks: {
       risk: string;
       probability: "low" | "medium" | "high";
       action: string;
+      raisedBy?: string[];
     }[];
     quickTests: string[];
   };
-  metadata?: {
-    providerUsed?: string;
-    overrideRequested?: boolean;
-    overrideSuccessful?: boolean;
-    fileAnalysisPerformed?: boolean;
-    filesAnalyzed?: number;
-    toolsUsed?: string[];
-  };
+  issueTracking?: IssueTracking;
+  consensus?: ConsensusSummary;
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata;
 }
 
 export interface AssumptionCheckerRequest {
@@ -105,10 +284,11 @@ export interface AssumptionCheckerRequest {
   };
   projectContext?: ProjectContext;
   projectBackground?: string;
+  selfConsistency?: SelfConsistencyOptions;
 }
 
 export interface AssumptionCheckerResponse {
-  validation: {
+  validation?: {
     validAssumptions: string[];
     riskyAssumptions: {
       assumption: string;
@@ -117,28 +297,26 @@ export interface AssumptionCheckerResponse {
     }[];
     quickVerifications: string[];
   };
-  metadata?: {
-    providerUsed?: string;
-    overrideRequested?: boolean;
-    overrideSuccessful?: boolean;
-    fileAnalysisPerformed?: boolean;
-    filesAnalyzed?: number;
-    toolsUsed?: string[];
-  };
+  issueTracking?: IssueTracking;
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata;
 }
 
 export interface DependencyMapperRequest {
   change: {
     description: string;
+    // Unified diff of the change
+    diff?: string;
     files?: string[];
     components?: string[];
   };
   projectContext?: ProjectContext;
   projectBackground?: string;
+  selfConsistency?: SelfConsistencyOptions;
 }
 
 export interface DependencyMapperResponse {
-  dependencies: {
+  dependencies?: {
     critical: {
       dependency: string;
       impact: string;
@@ -151,14 +329,8 @@ export interface DependencyMapperResponse {
     }[];
     testFocus: string[];
   };
-  metadata?: {
-    providerUsed?: string;
-    overrideRequested?: boolean;
-    overrideSuccessful?: boolean;
-    fileAnalysisPerformed?: boolean;
-    filesAnalyzed?: number;
-    toolsUsed?: string[];
-  };
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata;
 }
 
 export interface ThinkingOptimizerRequest {
@@ -168,10 +340,11 @@ export interface ThinkingOptimizerRequest {
   currentApproach: string;
   projectContext?: ProjectContext;
   projectBackground?: string;
+  selfConsistency?: SelfConsistencyOptions;
 }
 
 export interface ThinkingOptimizerResponse {
-  optimizedStrategy: {
+  optimizedStrategy?: {
     approach: string;
     toolsToUse: string[];
     timeAllocation: {
@@ -193,14 +366,54 @@ export interface ThinkingOptimizerResponse {
     checkpoints?: string[];
     valueEffortNotes?: string;
   };
-  metadata?: {
-    providerUsed?: string;
-    overrideRequested?: boolean;
-    overrideSuccessful?: boolean;
-    fileAnalysisPerformed?: boolean;
-    filesAnalyzed?: number;
-    toolsUsed?: string[];
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata;
+}
+
+/**
+ * Input of full_review: everything the four analyses it chains need
+ */
+export interface FullReviewRequest {
+  thinking: string;
+  proposedChange: ThinkingValidationRequest["proposedChange"];
+  context: ThinkingValidationRequest["context"];
+  urgency: ThinkingValidationRequest["urgency"];
+  assumptions: string[];
+  // Component the assumptions are about; defaults to the changed files
+  component?: string;
+  // Defaults to production
+  environment?: string;
+  systemContext?: ImpactAnalysisRequest["systemContext"];
+  projectContext?: ProjectContext;
+  projectBackground?: string;
+  redTeam?: boolean;
+}
+
+export type FullReviewStage =
+  | "assumption_checker"
+  | "dependency_mapper"
+  | "impact_analysis"
+  | "thinking_validation";
+
+export interface FullReviewVerdict {
+  goAhead: boolean;
+  // Why the change may not go ahead; empty on a go-ahead
+  blockers: string[];
+}
+
+export interface FullReviewResponse {
+  verdict?: FullReviewVerdict;
+  // Each stage's response as its own tool returns it; unset when it failed
+  sections?: {
+    assumptions?: AssumptionCheckerResponse;
+    dependencies?: DependencyMapperResponse;
+    impact?: ImpactAnalysisResponse;
+    validation?: ThinkingValidationResponse;
   };
+  // Stages that threw, with the reason
+  failures?: { stage: FullReviewStage; message: string }[];
+  error?: ResponseError;
+  metadata?: ToolResponseMetadata;
 }
 
 export interface ValidationProjectContext {
@@ -220,11 +433,171 @@ export interface ValidationProjectContext {
   timeConstraint?: "tight" | "moderate" | "flexible";
 }
 
+export type SessionStatus = "open" | "closed";
+
 export interface ValidationSession {
   id: string;
   timestamp: string;
   context: ValidationProjectContext;
   validationHistory: ValidationAttempt[];
+  title?: string;
+  tags: string[];
+  status: SessionStatus;
+  archived: boolean;
+  // Condensed account of older attempts, once the session has been compacted
+  digest?: SessionDigest;
+}
+
+export interface DigestIssue {
+  tool: string;
+  issue: string;
+}
+
+/**
+ * Running summary that replaces the detail of condensed attempts
+ */
+export interface SessionDigest {
+  summary: string;
+  // Issues still unresolved as of the newest condensed attempt
+  openIssues: DigestIssue[];
+  // Outcomes of condensed attempts, oldest first
+  decisions: string[];
+  attemptsCondensed: number;
+  // Timestamp of the newest condensed attempt
+  condensedThrough: string;
+  updatedAt: string;
+}
+
+// What happens to the payloads of condensed attempts
+export interface CondensedPayloadPolicy {
+  // truncate keeps the attempt with shortened strings; drop removes it
+  mode: "truncate" | "drop";
+  maxChars: number;
+}
+
+/**
+ * Session fields that can be changed after creation
+ */
+export interface SessionUpdate {
+  title?: string;
+  tags?: string[];
+  status?: SessionStatus;
+  archived?: boolean;
+}
+
+/**
+ * Filters and pagination for listing sessions, newest first
+ */
+export interface SessionListFilter {
+  tag?: string;
+  status?: SessionStatus;
+  // Archived sessions are hidden unless requested
+  includeArchived?: boolean;
+  // ISO timestamps bounding the session creation time (inclusive)
+  createdAfter?: string;
+  createdBefore?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  timestamp: string;
+  lastUpdated: string;
+  title?: string;
+  tags: string[];
+  status: SessionStatus;
+  archived: boolean;
+  attemptCount: number;
+}
+
+export interface SessionListPage {
+  sessions: SessionSummary[];
+  // Number of sessions matching the filters before pagination
+  total: number;
+  offset: number;
+  nextOffset?: number;
+}
+
+// Limits applied by memory cleanup; 0 disables a limit
+export interface RetentionPolicy {
+  // Days since a session was last updated
+  maxAgeDays: number;
+  maxSessions: number;
+  // Serialized size of all sessions in a store
+  maxBytes: number;
+  // Sessions carrying any of these tags are never removed
+  keepTags: string[];
+}
+
+export interface RemovedSession {
+  sessionId: string;
+  title?: string;
+  lastUpdated: string;
+  reason: "max_age" | "max_sessions" | "max_bytes";
+}
+
+export interface CleanupReport {
+  removed: RemovedSession[];
+  remainingSessions: number;
+  remainingBytes: number;
+}
+
+export type KnowledgeKind = "fact" | "issue";
+
+/**
+ * Durable fact or recurring issue about a project, shared by all its sessions
+ */
+export interface KnowledgeEntry {
+  id: string;
+  kind: KnowledgeKind;
+  text: string;
+  tags: string[];
+  // Files the entry is about, as given in requests
+  files: string[];
+  // Added through knowledge_management, or reported by a validation
+  source: "user" | "validation";
+  // Tool that last reported an issue
+  tool?: string;
+  sessionId?: string;
+  // Times the entry was added or reported
+  occurrences: number;
+  // Set when a later validation reported the issue resolved
+  resolved?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Knowledge entry fields that can be changed after creation
+ */
+export interface KnowledgeUpdate {
+  kind?: KnowledgeKind;
+  text?: string;
+  tags?: string[];
+  files?: string[];
+  resolved?: boolean;
+}
+
+export interface KnowledgeListFilter {
+  kind?: KnowledgeKind;
+  tag?: string;
+  // Include issues later reported resolved (default false)
+  includeResolved?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+export interface KnowledgeListPage {
+  entries: KnowledgeEntry[];
+  total: number;
+  offset: number;
+  nextOffset?: number;
+}
+
+export interface KnowledgeSearchResult {
+  entry: KnowledgeEntry;
+  score: number;
 }
 
 export interface ValidationAttempt {
@@ -233,5 +606,59 @@ export interface ValidationAttempt {
   tool: string;
   request: any;
   response: any;
-  confidence: number;
+  // 0-100; unset when neither the model, sampling nor a consensus gave an
+  // estimate
+  confidence?: number;
+  // Set once the attempt is summarized in the session digest
+  condensed?: boolean;
+  // What happened to the change afterwards, as reported through record_outcome
+  outcome?: AttemptOutcome;
+}
+
+export type OutcomeStatus = "shipped" | "regression" | "abandoned";
+
+export interface AttemptOutcome {
+  // shipped: landed cleanly; regression: landed and broke something;
+  // abandoned: never landed
+  status: OutcomeStatus;
+  notes?: string;
+  // Agent or person reporting the outcome
+  reportedBy?: string;
+  recordedAt: string;
+}
+
+/**
+ * Outcomes of the attempts sharing one provider or tool
+ */
+export interface CalibrationBucket {
+  key: string;
+  outcomes: number;
+  shipped: number;
+  regressions: number;
+  abandoned: number;
+  averageConfidence: number;
+  // Attempts at or above the threshold that cleared the change to proceed
+  highConfidenceGoAheads: number;
+  highConfidenceRegressions: number;
+  // Regressions among high-confidence go-aheads that shipped or regressed;
+  // undefined until one of them has such an outcome
+  highConfidenceWrongRate?: number;
+}
+
+export interface CalibrationReport {
+  highConfidenceThreshold: number;
+  // Attempts with a recorded outcome, a verdict and a confidence estimate
+  totalOutcomes: number;
+  byProvider: CalibrationBucket[];
+  byTool: CalibrationBucket[];
+}
+
+/**
+ * Change recorded by the memory system, used to keep MCP resources current
+ */
+export interface MemoryChange {
+  type:
+    "session_created" | "session_updated" | "attempt_added" | "session_deleted";
+  sessionId: string;
+  attemptId?: string;
 }
@@ -0,0 +1,120 @@
+/**
+ * Tool Response Accessors
+ *
+ * What the rest of the server reads from each tool's response, in one place
+ * and typed against the response interfaces: its go/no-go verdict, its
+ * findings, the issues tracked across attempts, the model's own confidence
+ * and a one-line outcome. Stored attempts only carry the tool's name, so
+ * callers look the accessors up by tool. Fields are read defensively:
+ * stored and repaired responses may lack any of them.
+ */
+
+import {
+  AssumptionCheckerResponse,
+  DependencyMapperResponse,
+  ImpactAnalysisResponse,
+  ThinkingOptimizerResponse,
+  ThinkingValidationResponse,
+} from "./thinking-validation-types.js";
+
+export interface ToolResponseAccessors<R> {
+  // Whether the response cleared the change to proceed; only set for the
+  // tools that give a go/no-go verdict
+  goAhead?: (response: R | undefined) => boolean;
+  // Categorical verdict expected to reproduce across samples
+  verdict?: (response: R | undefined) => string | undefined;
+  // Findings compared across samples
+  findings: (response: R | undefined) => string[];
+  // Issues tracked across the attempts of a session; only set for the tools
+  // that track them
+  issues?: (response: R | undefined) => string[];
+  // The model's own confidence estimate (0-100), for the tools giving one
+  modelConfidence?: (response: R | undefined) => number | undefined;
+  // One-line outcome for session digests
+  outcome: (response: R | undefined) => string | undefined;
+}
+
+interface ToolResponses {
+  thinking_validation: ThinkingValidationResponse;
+  impact_analysis: ImpactAnalysisResponse;
+  assumption_checker: AssumptionCheckerResponse;
+  dependency_mapper: DependencyMapperResponse;
+  thinking_optimizer: ThinkingOptimizerResponse;
+}
+
+const criticalIssues = (response: ThinkingValidationResponse | undefined) =>
+  response?.validation?.criticalIssues?.map((entry) => entry.issue) ?? [];
+const cascadingRisks = (response: ImpactAnalysisResponse | undefined) =>
+  response?.impacts?.cascadingRisks?.map((entry) => entry.risk) ?? [];
+const riskyAssumptions = (response: AssumptionCheckerResponse | undefined) =>
+  response?.validation?.riskyAssumptions?.map((entry) => entry.assumption) ??
+  [];
+
+const TOOL_RESPONSE_ACCESSORS: {
+  [Tool in keyof ToolResponses]: ToolResponseAccessors<ToolResponses[Tool]>;
+} = {
+  thinking_validation: {
+    goAhead: (response) => response?.validation?.goAhead === true,
+    verdict: (response) =>
+      response?.validation && String(response.validation.goAhead),
+    findings: criticalIssues,
+    issues: criticalIssues,
+    modelConfidence: (response) => response?.validation?.confidence,
+    outcome: (response) =>
+      response?.validation &&
+      `${response.validation.goAhead ? "go ahead" : "do not proceed"} (confidence ${response.validation.confidence})`,
+  },
+  impact_analysis: {
+    goAhead: (response) => response?.impacts?.overallRisk !== "high",
+    verdict: (response) => response?.impacts?.overallRisk,
+    findings: (response) => [
+      ...(response?.impacts?.affectedAreas?.map((entry) => entry.area) ?? []),
+      ...cascadingRisks(response),
+    ],
+    issues: cascadingRisks,
+    outcome: (response) =>
+      response?.impacts && `overall risk ${response.impacts.overallRisk}`,
+  },
+  assumption_checker: {
+    findings: riskyAssumptions,
+    issues: riskyAssumptions,
+    outcome: (response) =>
+      response?.validation &&
+      `${response.validation.validAssumptions?.length ?? 0} valid, ${
+        response.validation.riskyAssumptions?.length ?? 0
+      } risky assumptions`,
+  },
+  dependency_mapper: {
+    findings: (response) =>
+      response?.dependencies?.critical?.map((entry) => entry.dependency) ?? [],
+    outcome: (response) =>
+      response?.dependencies &&
+      `${response.dependencies.critical?.length ?? 0} critical dependencies`,
+  },
+  thinking_optimizer: {
+    findings: (response) =>
+      response?.optimizedStrategy
+        ? [
+            response.optimizedStrategy.approach,
+            ...response.optimizedStrategy.toolsToUse,
+          ]
+        : [],
+    modelConfidence: (response) =>
+      response?.optimizedStrategy?.successProbability,
+    outcome: (response) =>
+      response?.optimizedStrategy &&
+      `approach: ${response.optimizedStrategy.approach}`,
+  },
+};
+
+/**
+ * Accessors for a tool's responses; undefined for tools that record no
+ * attempts of their own
+ */
+export function toolResponseAccessors(
+  tool: string
+): ToolResponseAccessors<any> | undefined {
+  return (
+    TOOL_RESPONSE_ACCESSORS as Record<string, ToolResponseAccessors<any>>
+  )[tool];
+}
@@ -1,9 +1,15 @@
-import { generateText } from "ai";
-import { PROVIDER_CLASSES } from "./ai-providers/index.js";
+import { generateText, stepCountIs, ToolSet } from "ai";
+import {
+  PROVIDER_CLASSES,
+  providerSupportsFeature,
+} from "./ai-providers/index.js";
 import {
   getApiKey,
   getModel,
   getBestAvailableProvider,
+  getProviderPriority,
+  getProviderFallbackMaxHops,
+  isProviderConfigured,
   getTemperature,
   getMaxTokens,
   getBaseUrl,
@@ -11,6 +17,14 @@ import {
   getProviderConfigWithOverrides,
 } from "./config-manager.js";
 import { getMetricsCollector } from "./utils/metrics-collector.js";
+import { StructuredOutputError } from "./utils/structured-output.js";
+import {
+  isRetryableError,
+  getRetryConfigForProvider,
+  NonRetryableError,
+  withRetry,
+} from "./utils/retry-logic.js";
+import { performanceMonitor } from "./utils/performance-monitor.js";
 
 // Lazy import provider classes
 const providerImports = PROVIDER_CLASSES;
@@ -36,9 +50,8 @@ async function getProvider(providerName: string) {
   }
 
   if (!providerInstanceCache.has(normalizedName)) {
-    const ProviderClass = await providerImports[
-      normalizedName as keyof typeof providerImports
-    ]();
+    const ProviderClass =
+      await providerImports[normalizedName as keyof typeof providerImports]();
     const providerInstance = new ProviderClass();
     providerInstanceCache.set(normalizedName, providerInstance);
   }
@@ -67,6 +80,216 @@ function getCachedClient(
   return client;
 }
 
+/**
+ * Per-call record of provider selection, filled in by the service functions
+ */
+export interface ProviderCallTrace {
+  providersTried: string[];
+  providerUsed?: string;
+  failures: { provider: string; reason: string }[];
+  // Retries of transient errors across all providers tried
+  retryAttempts: number;
+}
+
+export function createProviderCallTrace(): ProviderCallTrace {
+  return { providersTried: [], failures: [], retryAttempts: 0 };
+}
+
+/**
+ * Build the ordered providers that may serve one call: the best available
+ * provider, then configured providers from getProviderPriority(). An explicit
+ * override is never substituted.
+ */
+function getFallbackChain(
+  providerOverride: string | undefined,
+  canUse?: (providerName: string) => boolean
+): string[] {
+  if (providerOverride) {
+    return [providerOverride];
+  }
+
+  const primary = getBestAvailableProvider();
+  if (!primary) {
+    throw new Error(
+      "No provider available. Please configure at least one LLM provider."
+    );
+  }
+
+  const chain = [primary];
+  let priority: string[] = [];
+  try {
+    priority = getProviderPriority();
+  } catch {
+    // Invalid priority configuration: stay on the primary provider
+  }
+
+  for (const candidate of priority) {
+    if (
+      !chain.includes(candidate) &&
+      isProviderConfigured(candidate) &&
+      (!canUse || canUse(candidate))
+    ) {
+      chain.push(candidate);
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Run a provider call, moving down the fallback chain on retryable errors
+ * (rate limit, 5xx, timeout). Other errors are thrown immediately.
+ * Providers whose circuit breaker is open are skipped without counting as a hop.
+ */
+async function runWithProviderFallback<T>(
+  operationName: string,
+  options: {
+    providerOverride?: string;
+    maxFallbackHops?: number;
+    trace?: ProviderCallTrace;
+    abortSignal?: AbortSignal;
+  },
+  operation: (providerName: string) => Promise<T>,
+  canUse?: (providerName: string) => boolean
+): Promise<T> {
+  const chain = getFallbackChain(options.providerOverride, canUse);
+  const maxHops = options.maxFallbackHops ?? getProviderFallbackMaxHops();
+  const metricsCollector = getMetricsCollector();
+  const trace = options.trace;
+  const attempted: string[] = [];
+  let lastError: unknown;
+
+  for (const providerName of chain) {
+    if (attempted.length > maxHops) {
+      break;
+    }
+    options.abortSignal?.throwIfAborted();
+    // An explicit override is the caller's choice and bypasses the breaker
+    if (
+      !options.providerOverride &&
+      !metricsCollector.isProviderAvailable(providerName)
+    ) {
+      console.error(
+        `${operationName}: skipping ${providerName}, circuit breaker is open`
+      );
+      continue;
+    }
+
+    attempted.push(providerName);
+    trace?.providersTried.push(providerName);
+
+    try {
+      const result = await operation(providerName);
+      if (trace) {
+        trace.providerUsed = providerName;
+      }
+      return result;
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!isRetryableError(error, getRetryConfigForProvider(providerName))) {
+        throw error;
+      }
+
+      trace?.failures.push({ provider: providerName, reason: message });
+      lastError = error;
+      // Log to stderr to keep the stdio MCP stream clean
+      console.error(`${operationName} failed for ${providerName}: ${message}`);
+    }
+  }
+
+  if (!lastError) {
+    throw new Error(
+      `${operationName} failed: circuit breaker is open for every available provider (${chain.join(
+        ", "
+      )}). Try again after the cooldown.`
+    );
+  }
+  if (attempted.length === 1) {
+    throw lastError;
+  }
+  throw new Error(
+    `${operationName} failed on all providers tried (${attempted.join(
+      ", "
+    )}): ${(lastError as Error).message}`,
+    { cause: lastError }
+  );
+}
+
+/**
+ * Call a provider with its retry/backoff policy, recording the outcome of the
+ * call (after retries) in the metrics collector and the retry count in the
+ * performance tracker/trace. A call aborted by the caller is neither retried
+ * nor held against the provider.
+ * @param recordSuccess - False when the call only starts the work (a stream)
+ * and the caller records its outcome once the work is done
+ */
+async function callProviderWithRetry<T>(
+  providerName: string,
+  model: string,
+  operationName: string,
+  trace: ProviderCallTrace | undefined,
+  abortSignal: AbortSignal | undefined,
+  call: () => Promise<T>,
+  recordSuccess: boolean = true
+): Promise<T> {
+  const metricsCollector = getMetricsCollector();
+  const tracker = performanceMonitor.startOperation(
+    operationName,
+    providerName,
+    model
+  );
+
+  const startTime = Date.now();
+  try {
+    const result = await withRetry(
+      async () => {
+        try {
+          return await call();
+        } catch (providerError) {
+          if (abortSignal?.aborted) {
+            throw new NonRetryableError(
+              `${operationName} aborted: ${(providerError as Error).message}`,
+              undefined,
+              { cause: providerError }
+            );
+          }
+          throw providerError;
+        }
+      },
+      getRetryConfigForProvider(providerName),
+      `${providerName} ${operationName}`,
+      tracker,
+      abortSignal
+    );
+    if (recordSuccess) {
+      metricsCollector.recordProviderCall(
+        providerName,
+        Date.now() - startTime,
+        true
+      );
+    }
+    tracker.finish(true);
+    return result;
+  } catch (error) {
+    if (!abortSignal?.aborted) {
+      // Unusable structured output still means the provider answered
+      const answered = error instanceof StructuredOutputError;
+      metricsCollector.recordProviderCall(
+        providerName,
+        Date.now() - startTime,
+        answered,
+        answered ? undefined : (error as Error).message
+      );
+    }
+    tracker.finish(false, (error as Error).message);
+    throw error;
+  } finally {
+    if (trace) {
+      trace.retryAttempts += tracker.getRetryAttempts();
+    }
+  }
+}
+
 /**
  * Unified service for generating text with any configured provider
  */
@@ -74,18 +297,147 @@ export async function generateTextService(params: {
   systemPrompt?: string;
   prompt: string;
   providerOverride?: string;
+  maxFallbackHops?: number;
+  trace?: ProviderCallTrace;
+  abortSignal?: AbortSignal;
   modelOverride?: string;
   temperature?: number;
   maxTokens?: number;
 }): Promise<string> {
+  return runWithProviderFallback("Text generation", params, (providerName) =>
+    generateTextWithProvider(providerName, params)
+  );
+}
+
+async function generateTextWithProvider(
+  providerName: string,
+  params: Parameters<typeof generateTextService>[0]
+): Promise<string> {
   const { systemPrompt, prompt, providerOverride, modelOverride } = params;
 
-  const providerName = providerOverride || getBestAvailableProvider();
-  if (!providerName) {
+  // Get unified provider configuration with parameter overrides
+  const config = getProviderConfigWithOverrides(providerName, {
+    temperature: params.temperature,
+    maxTokens: params.maxTokens,
+    modelOverride: modelOverride,
+  });
+
+  if (!config.apiKey) {
+    throw new Error(`No API key configured for provider: ${providerName}`);
+  }
+
+  // Extract apiKey after null check to satisfy TypeScript
+  const apiKey = config.apiKey as string;
+  const provider = await getProvider(providerName);
+
+  try {
+    const client = getCachedClient(
+      provider,
+      providerName,
+      apiKey,
+      config.baseUrl || undefined
+    );
+    const model = client(config.model);
+
+    const messages = [];
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+    messages.push({ role: "user", content: prompt });
+
+    const apiParams: any = {
+      model,
+      messages,
+      temperature: config.temperature,
+      ...provider.prepareTokenParam(config.model, config.maxTokens),
+      // Retries are handled by withRetry with the provider's backoff policy
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
+    };
+
+    // Add GPT-5 specific parameters if supported (unified reasoning model support)
+    if (config.maxCompletionTokens) {
+      apiParams.maxCompletionTokens = config.maxCompletionTokens;
+    }
+    if (config.verbosity) {
+      apiParams.verbosity = config.verbosity;
+    }
+    if (config.reasoningEffort) {
+      apiParams.reasoningEffort = config.reasoningEffort;
+    }
+
+    const response = await callProviderWithRetry(
+      providerName,
+      config.model,
+      "generateText",
+      params.trace,
+      params.abortSignal,
+      () => generateText(apiParams)
+    );
+    return response.text;
+  } catch (error) {
+    // Enhanced error handling with provider override context
+    if (providerOverride) {
+      throw new Error(
+        `Provider override '${providerOverride}' failed: ${
+          (error as Error).message
+        }. ` +
+          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`,
+        { cause: error }
+      );
+    }
     throw new Error(
-      "No provider available. Please configure at least one LLM provider."
+      `API call failed for ${providerName}: ${(error as Error).message}`,
+      { cause: error }
     );
   }
+}
+
+/**
+ * Generate text while letting the model call the supplied tools
+ * Stops after maxSteps model steps; the final step is forced to answer in text
+ */
+export async function generateTextWithToolsService(params: {
+  systemPrompt?: string;
+  prompt: string;
+  tools: ToolSet;
+  maxSteps: number;
+  providerOverride?: string;
+  maxFallbackHops?: number;
+  trace?: ProviderCallTrace;
+  abortSignal?: AbortSignal;
+  modelOverride?: string;
+  temperature?: number;
+  maxTokens?: number;
+}): Promise<{
+  text: string;
+  toolCalls: Array<{ toolName: string; input: any }>;
+  steps: number;
+}> {
+  return runWithProviderFallback(
+    "Tool-assisted generation",
+    params,
+    (providerName) => generateTextWithToolsWithProvider(providerName, params),
+    (providerName) => providerSupportsFeature(providerName, "FUNCTION_CALLING")
+  );
+}
+
+async function generateTextWithToolsWithProvider(
+  providerName: string,
+  params: Parameters<typeof generateTextWithToolsService>[0]
+): Promise<{
+  text: string;
+  toolCalls: Array<{ toolName: string; input: any }>;
+  steps: number;
+}> {
+  const {
+    systemPrompt,
+    prompt,
+    tools,
+    maxSteps,
+    providerOverride,
+    modelOverride,
+  } = params;
 
   // Get unified provider configuration with parameter overrides
   const config = getProviderConfigWithOverrides(providerName, {
@@ -120,8 +472,16 @@ export async function generateTextService(params: {
     const apiParams: any = {
       model,
       messages,
+      tools,
+      stopWhen: stepCountIs(maxSteps),
+      // Withhold tools on the last step so the run always ends with an answer
+      prepareStep: ({ stepNumber }: { stepNumber: number }) =>
+        stepNumber >= maxSteps - 1 ? { toolChoice: "none" } : undefined,
       temperature: config.temperature,
       ...provider.prepareTokenParam(config.model, config.maxTokens),
+      // Retries are handled by withRetry with the provider's backoff policy
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
     };
 
     // Add GPT-5 specific parameters if supported (unified reasoning model support)
@@ -135,24 +495,24 @@ export async function generateTextService(params: {
       apiParams.reasoningEffort = config.reasoningEffort;
     }
 
-    const metricsCollector = getMetricsCollector();
-    const startTime = Date.now();
-
-    try {
-      const response = await generateText(apiParams);
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(providerName, responseTime, true);
-      return response.text;
-    } catch (providerError) {
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(
-        providerName,
-        responseTime,
-        false,
-        (providerError as Error).message
-      );
-      throw providerError;
-    }
+    const response = await callProviderWithRetry(
+      providerName,
+      config.model,
+      "generateTextWithTools",
+      params.trace,
+      params.abortSignal,
+      () => generateText(apiParams)
+    );
+    return {
+      text: response.text,
+      toolCalls: response.steps.flatMap((step: any) =>
+        step.toolCalls.map((call: any) => ({
+          toolName: call.toolName,
+          input: call.input,
+        }))
+      ),
+      steps: response.steps.length,
+    };
   } catch (error) {
     // Enhanced error handling with provider override context
     if (providerOverride) {
@@ -160,36 +520,49 @@ export async function generateTextService(params: {
         `Provider override '${providerOverride}' failed: ${
           (error as Error).message
         }. ` +
-          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`
+          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`,
+        { cause: error }
       );
     }
     throw new Error(
-      `API call failed for ${providerName}: ${(error as Error).message}`
+      `API call failed for ${providerName}: ${(error as Error).message}`,
+      { cause: error }
     );
   }
 }
 
 /**
  * Generate structured object using any configured provider
+ * Output that cannot be repaired into the schema is re-asked up to maxReasks
+ * times before a StructuredOutputError is thrown
  */
 export async function generateObjectService(params: {
   systemPrompt?: string;
   prompt: string;
   schema: any;
+  objectName?: string;
+  maxReasks?: number;
   providerOverride?: string;
+  maxFallbackHops?: number;
+  trace?: ProviderCallTrace;
+  abortSignal?: AbortSignal;
   modelOverride?: string;
   temperature?: number;
   maxTokens?: number;
 }): Promise<any> {
+  return runWithProviderFallback("Object generation", params, (providerName) =>
+    generateObjectWithProvider(providerName, params)
+  );
+}
+
+async function generateObjectWithProvider(
+  providerName: string,
+  params: Parameters<typeof generateObjectService>[0]
+): Promise<any> {
   const { systemPrompt, prompt, schema, providerOverride, modelOverride } =
     params;
-
-  const providerName = providerOverride || getBestAvailableProvider();
-  if (!providerName) {
-    throw new Error(
-      "No provider available. Please configure at least one LLM provider."
-    );
-  }
+  const objectName = params.objectName || "response";
+  const maxReasks = params.maxReasks ?? 1;
 
   // Get unified provider configuration with parameter overrides (includes GPT-5 support)
   const config = getProviderConfigWithOverrides(providerName, {
@@ -207,15 +580,25 @@ export async function generateObjectService(params: {
   const provider = await getProvider(providerName);
 
   try {
+    const messages: any[] = [];
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+    messages.push({ role: "user", content: prompt });
+
     // Build parameters object with GPT-5 support
     const apiParams: any = {
       apiKey: apiKey,
-      model: config.model,
-      systemPrompt,
-      prompt,
+      baseURL: config.baseUrl || undefined,
+      modelId: config.model,
+      messages,
       schema,
+      objectName,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      // Retries are handled by withRetry with the provider's backoff policy
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
     };
 
     // Add GPT-5 specific parameters if supported
@@ -229,61 +612,137 @@ export async function generateObjectService(params: {
       apiParams.reasoningEffort = config.reasoningEffort;
     }
 
-    const metricsCollector = getMetricsCollector();
-    const startTime = Date.now();
-
-    try {
-      const result = await provider.generateObject(apiParams);
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(providerName, responseTime, true);
-      return result;
-    } catch (providerError) {
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(
-        providerName,
-        responseTime,
-        false,
-        (providerError as Error).message
-      );
-      throw providerError;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await callProviderWithRetry<any>(
+          providerName,
+          config.model,
+          "generateObject",
+          params.trace,
+          params.abortSignal,
+          () => provider.generateObject(apiParams)
+        );
+        return { ...result, attempts: attempt };
+      } catch (providerError) {
+        // The provider answered, but not with a usable object: ask again
+        if (providerError instanceof StructuredOutputError) {
+          if (attempt > maxReasks) {
+            throw new StructuredOutputError(
+              providerError.message,
+              providerError.rawText,
+              attempt
+            );
+          }
+
+          apiParams.messages = [
+            ...messages,
+            { role: "assistant", content: providerError.rawText || "" },
+            {
+              role: "user",
+              content: `Your previous response could not be used: ${providerError.message}. Respond again with only a JSON object that matches the required schema.`,
+            },
+          ];
+          continue;
+        }
+
+        throw providerError;
+      }
     }
   } catch (error) {
+    // Parse failures are reported to the caller as-is so they can be surfaced
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+
     // Enhanced error handling with provider override context
     if (providerOverride) {
       throw new Error(
         `Provider override '${providerOverride}' failed: ${
           (error as Error).message
         }. ` +
-          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`
+          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`,
+        { cause: error }
       );
     }
     throw new Error(
       `Object generation failed for ${providerName}: ${
         (error as Error).message
-      }`
+      }`,
+      { cause: error }
     );
   }
 }
 
+/**
+ * Pass a text stream through and record the provider call once it ends
+ * AI SDK v5 hands errors during a stream to onError and just ends textStream,
+ * so the call only counts as a success when no error was reported and text
+ * arrived; otherwise the failure is recorded and thrown to the consumer.
+ */
+async function* recordStreamOutcome(
+  textStream: AsyncIterable<string>,
+  providerName: string,
+  startTime: number,
+  abortSignal: AbortSignal | undefined,
+  streamError: () => unknown
+): AsyncGenerator<string> {
+  const record = (failure?: unknown) => {
+    if (!abortSignal?.aborted) {
+      getMetricsCollector().recordProviderCall(
+        providerName,
+        Date.now() - startTime,
+        !failure,
+        failure ? (failure as Error).message : undefined
+      );
+    }
+  };
+
+  let text = "";
+  try {
+    for await (const chunk of textStream) {
+      text += chunk;
+      yield chunk;
+    }
+  } catch (error) {
+    record(error);
+    throw error;
+  }
+
+  const failure =
+    streamError() ??
+    (text ? undefined : new Error("The stream ended without any text"));
+  record(failure);
+  if (failure) {
+    throw failure;
+  }
+}
+
 /**
  * Stream text using any configured provider
+ * Resolves to { textStream }; the provider call is recorded once the stream
+ * has been consumed, and a stream that fails or yields no text throws.
  */
 export async function streamTextService(params: {
   systemPrompt?: string;
   prompt: string;
   providerOverride?: string;
+  maxFallbackHops?: number;
+  trace?: ProviderCallTrace;
+  abortSignal?: AbortSignal;
   modelOverride?: string;
   temperature?: number;
   maxTokens?: number;
 }): Promise<any> {
-  const { systemPrompt, prompt, providerOverride, modelOverride } = params;
+  return runWithProviderFallback("Text streaming", params, (providerName) =>
+    streamTextWithProvider(providerName, params)
+  );
+}
 
-  const providerName = providerOverride || getBestAvailableProvider();
-  if (!providerName) {
-    throw new Error(
-      "No provider available. Please configure at least one LLM provider."
-    );
-  }
+async function streamTextWithProvider(
+  providerName: string,
+  params: Parameters<typeof streamTextService>[0]
+): Promise<any> {
+  const { systemPrompt, prompt, providerOverride, modelOverride } = params;
 
   // Get unified provider configuration with parameter overrides (includes GPT-5 support)
   const config = getProviderConfigWithOverrides(providerName, {
@@ -313,6 +772,9 @@ export async function streamTextService(params: {
         : [{ role: "user", content: prompt }],
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      // Retries are handled by withRetry with the provider's backoff policy
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
     };
 
     // Add GPT-5 specific parameters if supported
@@ -326,24 +788,31 @@ export async function streamTextService(params: {
       apiParams.reasoningEffort = config.reasoningEffort;
     }
 
-    const metricsCollector = getMetricsCollector();
-    const startTime = Date.now();
+    let streamError: unknown;
+    apiParams.onError = ({ error }: { error: unknown }) => {
+      streamError = error;
+    };
 
-    try {
-      const result = await provider.streamText(apiParams);
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(providerName, responseTime, true);
-      return result;
-    } catch (providerError) {
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(
+    // Only stream creation is retried; errors while consuming the stream are not
+    const startTime = Date.now();
+    const stream = await callProviderWithRetry<any>(
+      providerName,
+      config.model,
+      "streamText",
+      params.trace,
+      params.abortSignal,
+      () => provider.streamText(apiParams),
+      false
+    );
+    return {
+      textStream: recordStreamOutcome(
+        stream.textStream,
         providerName,
-        responseTime,
-        false,
-        (providerError as Error).message
-      );
-      throw providerError;
-    }
+        startTime,
+        params.abortSignal,
+        () => streamError
+      ),
+    };
   } catch (error) {
     // Enhanced error handling with provider override context
     if (providerOverride) {
@@ -351,11 +820,13 @@ export async function streamTextService(params: {
         `Provider override '${providerOverride}' failed: ${
           (error as Error).message
         }. ` +
-          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`
+          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`,
+        { cause: error }
       );
     }
     throw new Error(
-      `Text streaming failed for ${providerName}: ${(error as Error).message}`
+      `Text streaming failed for ${providerName}: ${(error as Error).message}`,
+      { cause: error }
     );
   }
 }
@@ -368,20 +839,25 @@ export async function streamObjectService(params: {
   prompt: string;
   schema: any;
   providerOverride?: string;
+  maxFallbackHops?: number;
+  trace?: ProviderCallTrace;
+  abortSignal?: AbortSignal;
   modelOverride?: string;
   temperature?: number;
   maxTokens?: number;
 }): Promise<any> {
+  return runWithProviderFallback("Object streaming", params, (providerName) =>
+    streamObjectWithProvider(providerName, params)
+  );
+}
+
+async function streamObjectWithProvider(
+  providerName: string,
+  params: Parameters<typeof streamObjectService>[0]
+): Promise<any> {
   const { systemPrompt, prompt, schema, providerOverride, modelOverride } =
     params;
 
-  const providerName = providerOverride || getBestAvailableProvider();
-  if (!providerName) {
-    throw new Error(
-      "No provider available. Please configure at least one LLM provider."
-    );
-  }
-
   // Get unified provider configuration with parameter overrides (includes GPT-5 support)
   const config = getProviderConfigWithOverrides(providerName, {
     temperature: params.temperature,
@@ -411,6 +887,9 @@ export async function streamObjectService(params: {
       schema,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      // Retries are handled by withRetry with the provider's backoff policy
+      maxRetries: 0,
+      abortSignal: params.abortSignal,
     };
 
     // Add GPT-5 specific parameters if supported
@@ -424,24 +903,15 @@ export async function streamObjectService(params: {
       apiParams.reasoningEffort = config.reasoningEffort;
     }
 
-    const metricsCollector = getMetricsCollector();
-    const startTime = Date.now();
-
-    try {
-      const result = await provider.streamObject(apiParams);
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(providerName, responseTime, true);
-      return result;
-    } catch (providerError) {
-      const responseTime = Date.now() - startTime;
-      metricsCollector.recordProviderCall(
-        providerName,
-        responseTime,
-        false,
-        (providerError as Error).message
-      );
-      throw providerError;
-    }
+    // Only stream creation is retried; errors while consuming the stream are not
+    return await callProviderWithRetry(
+      providerName,
+      config.model,
+      "streamObject",
+      params.trace,
+      params.abortSignal,
+      () => provider.streamObject(apiParams)
+    );
   } catch (error) {
     // Enhanced error handling with provider override context
     if (providerOverride) {
@@ -449,11 +919,13 @@ export async function streamObjectService(params: {
         `Provider override '${providerOverride}' failed: ${
           (error as Error).message
         }. ` +
-          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`
+          `The specified provider override encountered an error. Try using the default provider or check your API credentials.`,
+        { cause: error }
       );
     }
     throw new Error(
-      `Object streaming failed for ${providerName}: ${(error as Error).message}`
+      `Object streaming failed for ${providerName}: ${(error as Error).message}`,
+      { cause: error }
     );
   }
 }
@@ -3,6 +3,8 @@
  * Tracks response times, success rates, and provider health metrics
  */
 
+import { getCircuitBreakerConfig } from "../config-manager.js";
+
 /**
  * Interface for provider performance metrics
  */
@@ -18,8 +20,43 @@ export interface ProviderMetrics {
   lastRequest: Date;
 }
 
+/**
+ * Circuit breaker state for a provider
+ * closed: calls flow normally; open: provider is skipped during selection;
+ * half_open: cooldown elapsed and a single probe call is allowed through
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Interface for circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  windowSize: number; // Most recent calls considered for the failure rate
+  minRequests: number; // Calls needed in the window before the breaker can open
+  failureRateThreshold: number; // Failure rate (%) in the window that opens the breaker
+  cooldownMs: number; // Time an open breaker waits before allowing a probe
+}
+
+/**
+ * Circuit breaker status reported by health endpoints
+ */
+export interface CircuitBreakerStatus {
+  provider: string;
+  state: CircuitState;
+  recentFailureRate: number;
+  recentRequests: number;
+  openedAt?: Date;
+  nextProbeAt?: Date;
+}
+
 /**
  * Interface for metrics collection configuration
+ * alertThresholds.maxFailureRate and circuitBreaker.failureRateThreshold are
+ * kept apart on purpose: the alert flags a provider worth looking at, over
+ * all its calls, while the breaker takes it out of rotation over its recent
+ * calls. At the 5% alert rate two failed calls in a window of 20 would open
+ * the breaker, so it only trips at the far higher rate of a provider that is
+ * down.
  */
 export interface MetricsConfig {
   maxHistorySize: number;
@@ -28,6 +65,7 @@ export interface MetricsConfig {
     maxResponseTime: number;
     maxFailureRate: number;
   };
+  circuitBreaker: CircuitBreakerConfig;
   persistenceEnabled: boolean;
 }
 
@@ -41,6 +79,12 @@ const DEFAULT_METRICS_CONFIG: MetricsConfig = {
     maxResponseTime: 10000, // 10 seconds
     maxFailureRate: 5,
   },
+  circuitBreaker: {
+    windowSize: 20,
+    minRequests: 5,
+    failureRateThreshold: 50,
+    cooldownMs: 60000, // 1 minute
+  },
   persistenceEnabled: false,
 };
 
@@ -54,12 +98,24 @@ interface RequestHistory {
   error?: string;
 }
 
+/**
+ * Internal circuit breaker bookkeeping per provider
+ */
+interface CircuitRecord {
+  state: CircuitState;
+  openedAt?: Date;
+  probeStartedAt?: Date;
+  // Only calls after this point count toward the failure rate
+  windowStart: Date;
+}
+
 /**
  * MetricsCollector class for provider performance monitoring
  */
 export class MetricsCollector {
   private metrics = new Map<string, ProviderMetrics>();
   private history = new Map<string, RequestHistory[]>();
+  private circuits = new Map<string, CircuitRecord>();
   private config: MetricsConfig;
   private startTime: Date;
 
@@ -110,6 +166,83 @@ export class MetricsCollector {
 
     // Store updated metrics
     this.metrics.set(provider, current);
+
+    this.updateCircuit(provider, success);
+  }
+
+  /**
+   * Check whether a provider may be called, per its circuit breaker
+   * An open breaker whose cooldown has elapsed moves to half-open and lets
+   * exactly one probe call through; the probe's outcome closes or reopens it
+   */
+  isProviderAvailable(provider: string): boolean {
+    const circuit = this.circuits.get(provider);
+    if (!circuit || circuit.state === "closed") {
+      return true;
+    }
+
+    const now = Date.now();
+    const { cooldownMs } = this.config.circuitBreaker;
+
+    if (circuit.state === "open") {
+      if (now - circuit.openedAt!.getTime() < cooldownMs) {
+        return false;
+      }
+      circuit.state = "half_open";
+    }
+
+    // Half-open: allow one probe, or another if the last one never reported back
+    if (
+      circuit.probeStartedAt &&
+      now - circuit.probeStartedAt.getTime() < cooldownMs
+    ) {
+      return false;
+    }
+    circuit.probeStartedAt = new Date(now);
+    return true;
+  }
+
+  /**
+   * Get the circuit breaker state for a provider
+   */
+  getCircuitState(provider: string): CircuitState {
+    const circuit = this.circuits.get(provider);
+    if (!circuit) {
+      return "closed";
+    }
+    // Report an open breaker whose cooldown elapsed as ready for a probe
+    if (
+      circuit.state === "open" &&
+      Date.now() - circuit.openedAt!.getTime() >=
+        this.config.circuitBreaker.cooldownMs
+    ) {
+      return "half_open";
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Get circuit breaker status for a provider
+   */
+  getCircuitBreakerStatus(provider: string): CircuitBreakerStatus {
+    const circuit = this.circuits.get(provider);
+    const recent = this.getRecentRequests(provider);
+    const failures = recent.filter((r) => !r.success).length;
+
+    return {
+      provider,
+      state: this.getCircuitState(provider),
+      recentFailureRate:
+        recent.length > 0 ? (failures / recent.length) * 100 : 0,
+      recentRequests: recent.length,
+      openedAt: circuit?.state !== "closed" ? circuit?.openedAt : undefined,
+      nextProbeAt:
+        circuit?.state === "open" && circuit.openedAt
+          ? new Date(
+              circuit.openedAt.getTime() + this.config.circuitBreaker.cooldownMs
+            )
+          : undefined,
+    };
   }
 
   /**
@@ -177,6 +310,7 @@ export class MetricsCollector {
   resetProviderMetrics(provider: string): void {
     this.metrics.delete(provider);
     this.history.delete(provider);
+    this.circuits.delete(provider);
   }
 
   /**
@@ -185,6 +319,7 @@ export class MetricsCollector {
   resetAllMetrics(): void {
     this.metrics.clear();
     this.history.clear();
+    this.circuits.clear();
     this.startTime = new Date();
   }
 
@@ -249,6 +384,61 @@ export class MetricsCollector {
     }
   }
 
+  /**
+   * Get the calls that count toward the breaker's failure rate
+   */
+  private getRecentRequests(provider: string): RequestHistory[] {
+    const history = this.history.get(provider) || [];
+    const windowStart = this.circuits.get(provider)?.windowStart;
+    const inWindow = windowStart
+      ? history.filter((h) => h.timestamp >= windowStart)
+      : history;
+    return inWindow.slice(-this.config.circuitBreaker.windowSize);
+  }
+
+  /**
+   * Move the provider's circuit breaker based on the latest call
+   */
+  private updateCircuit(provider: string, success: boolean): void {
+    const now = new Date();
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: "closed", windowStart: new Date(0) };
+      this.circuits.set(provider, circuit);
+    }
+
+    if (circuit.state !== "closed") {
+      // Result of a half-open probe (or of a call that started before opening)
+      if (success) {
+        this.circuits.set(provider, { state: "closed", windowStart: now });
+      } else {
+        circuit.state = "open";
+        circuit.openedAt = now;
+        circuit.probeStartedAt = undefined;
+      }
+      return;
+    }
+
+    const recent = this.getRecentRequests(provider);
+    if (recent.length < this.config.circuitBreaker.minRequests) {
+      return;
+    }
+
+    const failureRate =
+      (recent.filter((r) => !r.success).length / recent.length) * 100;
+    const { failureRateThreshold } = this.config.circuitBreaker;
+    if (failureRate > failureRateThreshold) {
+      circuit.state = "open";
+      circuit.openedAt = now;
+      // Log to stderr to keep the stdio MCP stream clean
+      console.error(
+        `Circuit breaker opened for ${provider}: recent failure rate ${failureRate.toFixed(
+          1
+        )}% exceeds ${failureRateThreshold}%`
+      );
+    }
+  }
+
   /**
    * Update response time metrics
    */
@@ -364,7 +554,9 @@ let globalMetricsCollector: MetricsCollector | null = null;
  */
 export function getMetricsCollector(): MetricsCollector {
   if (!globalMetricsCollector) {
-    globalMetricsCollector = new MetricsCollector();
+    globalMetricsCollector = new MetricsCollector({
+      circuitBreaker: getCircuitBreakerConfig(),
+    });
   }
   return globalMetricsCollector;
 }
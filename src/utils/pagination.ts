@@ -0,0 +1,39 @@
+/**
+ * Pagination Helpers
+ *
+ * Offset/limit paging shared by the list actions (sessions, knowledge
+ * entries), so every list reports total and nextOffset the same way.
+ */
+
+export interface Page<T> {
+  items: T[];
+  // Number of items matching the filters before pagination
+  total: number;
+  offset: number;
+  // Unset on the last page
+  nextOffset?: number;
+}
+
+/**
+ * Page of items already filtered and sorted
+ * @param limit - Page size; unset returns everything from offset on
+ */
+export function paginate<T>(
+  matching: T[],
+  offset: number = 0,
+  limit?: number
+): Page<T> {
+  const start = Math.max(0, offset);
+  const items =
+    limit === undefined
+      ? matching.slice(start)
+      : matching.slice(start, start + Math.max(0, limit));
+  const nextOffset = start + items.length;
+
+  return {
+    items,
+    total: matching.length,
+    offset: start,
+    nextOffset: nextOffset < matching.length ? nextOffset : undefined,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Path Access Helpers
+ *
+ * Resolve paths through their symlinks and check them against the
+ * directories file access is confined to: the project root for the agentic
+ * tools, and MCP_HTTP_ALLOWED_ROOTS when the server is shared over HTTP.
+ */
+
+import { promises as fs, realpathSync } from "fs";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+
+/**
+ * Path with every symlink resolved; the part that does not exist yet is
+ * kept as given under its nearest existing ancestor
+ */
+export async function realPath(path: string): Promise<string> {
+  try {
+    return await fs.realpath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === path) {
+      throw error;
+    }
+    return join(await realPath(parent), basename(path));
+  }
+}
+
+/**
+ * Synchronous realPath, for callers that cannot await
+ */
+export function realPathSync(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === path) {
+      throw error;
+    }
+    return join(realPathSync(parent), basename(path));
+  }
+}
+
+/**
+ * Whether a path is the root itself or lies below it
+ * Both paths are compared as given; resolve symlinks first where they matter.
+ */
+export function isInsideRoot(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Whether a path, symlinks resolved, lies inside one of the allowed roots
+ */
+export async function isInsideAllowedRoots(
+  path: string,
+  allowedRoots: string[]
+): Promise<boolean> {
+  const fullPath = await realPath(resolve(path));
+  for (const root of allowedRoots) {
+    if (isInsideRoot(await realPath(resolve(root)), fullPath)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Synchronous isInsideAllowedRoots, for callers that cannot await
+ */
+export function isInsideAllowedRootsSync(
+  path: string,
+  allowedRoots: string[]
+): boolean {
+  const fullPath = realPathSync(resolve(path));
+  return allowedRoots.some((root) =>
+    isInsideRoot(realPathSync(resolve(root)), fullPath)
+  );
+}
@@ -283,6 +283,10 @@ export class PerformanceTracker {
     this.retryAttempts = attempts;
   }
 
+  getRetryAttempts(): number {
+    return this.retryAttempts;
+  }
+
   finish(success: boolean, error?: string): void {
     const endTime = Date.now();
     const endMemory = process.memoryUsage();
@@ -1,6 +1,7 @@
 // Retry logic utility for LLM provider calls
 // Addresses MCP server reliability issues identified in audit
 
+import { setTimeout as sleep } from "timers/promises";
 import { PerformanceTracker } from "./performance-monitor.js";
 
 export interface RetryConfig {
@@ -41,8 +42,13 @@ export class RetryableError extends Error {
   public readonly retryAfter?: number;
   public readonly attempts: RetryAttempt[] = [];
 
-  constructor(message: string, statusCode?: number, retryAfter?: number) {
-    super(message);
+  constructor(
+    message: string,
+    statusCode?: number,
+    retryAfter?: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
     this.name = "RetryableError";
     this.statusCode = statusCode;
     this.retryAfter = retryAfter;
@@ -52,22 +58,38 @@ export class RetryableError extends Error {
 export class NonRetryableError extends Error {
   public readonly statusCode?: number;
 
-  constructor(message: string, statusCode?: number) {
-    super(message);
+  constructor(message: string, statusCode?: number, options?: ErrorOptions) {
+    super(message, options);
     this.name = "NonRetryableError";
     this.statusCode = statusCode;
   }
 }
 
+/**
+ * Walk an error and the errors it wraps (provider wrappers keep the original
+ * API error in `cause`; AI SDK retry errors keep it in `lastError`)
+ */
+function getErrorChain(error: any): any[] {
+  const chain: any[] = [];
+  let current = error;
+  while (current && typeof current === "object" && !chain.includes(current)) {
+    chain.push(current);
+    current = current.cause ?? current.lastError;
+  }
+  return chain;
+}
+
 export function isRetryableError(error: any, config: RetryConfig): boolean {
+  const chain = getErrorChain(error);
+
   // Check if it's explicitly marked as non-retryable
-  if (error instanceof NonRetryableError) {
+  if (chain.some((e) => e instanceof NonRetryableError)) {
     return false;
   }
 
   // Check HTTP status codes
-  if (error.status || error.statusCode) {
-    const status = error.status || error.statusCode;
+  const status = getErrorStatusCode(error);
+  if (status) {
     if (status === 401 || status === 403) {
       // Auth errors are not retryable
       return false;
@@ -76,10 +98,47 @@ export function isRetryableError(error: any, config: RetryConfig): boolean {
   }
 
   // Check error messages
-  const errorMessage = (error as Error).message?.toLowerCase() || "";
-  return config.retryableErrors.some((pattern) =>
-    errorMessage.includes(pattern.toLowerCase())
-  );
+  return chain.some((e) => {
+    const errorMessage = (e as Error).message?.toLowerCase() || "";
+    return config.retryableErrors.some((pattern) =>
+      errorMessage.includes(pattern.toLowerCase())
+    );
+  });
+}
+
+/**
+ * Find the HTTP status code of an error or of the API error it wraps
+ */
+export function getErrorStatusCode(error: any): number | undefined {
+  const withStatus = getErrorChain(error).find((e) => e.status || e.statusCode);
+  return withStatus ? withStatus.status || withStatus.statusCode : undefined;
+}
+
+/**
+ * Read a retry-after hint in seconds from an error or its response headers
+ * Accepts both delta-seconds and HTTP-date values
+ */
+export function getRetryAfterSeconds(error: any): number | undefined {
+  for (const e of getErrorChain(error)) {
+    const value =
+      e.retryAfter ??
+      e["retry-after"] ??
+      e.responseHeaders?.["retry-after"] ??
+      e.responseHeaders?.["Retry-After"];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return seconds;
+    }
+    const date = Date.parse(String(value));
+    if (!isNaN(date)) {
+      return Math.max(0, (date - Date.now()) / 1000);
+    }
+  }
+  return undefined;
 }
 
 export function calculateDelay(
@@ -101,11 +160,18 @@ export function calculateDelay(
   return Math.min(totalDelay, config.maxDelay);
 }
 
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ * Non-retryable errors are rethrown unchanged. All logging goes to stderr,
+ * because stdout carries the stdio MCP stream.
+ * @param signal - Aborting it ends a pending backoff wait with an AbortError
+ */
 export async function withRetry<T>(
   operation: () => Promise<T>,
   config: RetryConfig = DEFAULT_RETRY_CONFIG,
   operationName: string = "operation",
-  performanceTracker?: PerformanceTracker
+  performanceTracker?: PerformanceTracker,
+  signal?: AbortSignal
 ): Promise<T> {
   const attempts: RetryAttempt[] = [];
 
@@ -120,13 +186,27 @@ export async function withRetry<T>(
 
       // Log success if there were previous failures
       if (attempts.length > 0) {
-        console.log(
+        console.error(
           `✅ ${operationName} succeeded on attempt ${attempt} after ${attempts.length} retries`
         );
       }
 
       return result;
     } catch (error) {
+      // Check if error is retryable
+      if (!isRetryableError(error, config)) {
+        // Update performance tracker for non-retryable error
+        if (performanceTracker) {
+          performanceTracker.setRetryAttempts(attempts.length);
+        }
+
+        console.error(
+          `❌ ${operationName} failed with non-retryable error:`,
+          (error as Error).message
+        );
+        throw error;
+      }
+
       const attemptInfo: RetryAttempt = {
         attempt,
         error: error as Error,
@@ -139,7 +219,7 @@ export async function withRetry<T>(
       if (attempt === config.maxAttempts) {
         // Update performance tracker with final retry count and error
         if (performanceTracker) {
-          performanceTracker.setRetryAttempts(attempts.length);
+          performanceTracker.setRetryAttempts(attempts.length - 1);
         }
 
         console.error(
@@ -158,42 +238,28 @@ export async function withRetry<T>(
           `${operationName} failed after ${config.maxAttempts} attempts: ${
             (error as Error).message
           }`,
-          (error as any).status || (error as any).statusCode
+          getErrorStatusCode(error),
+          getRetryAfterSeconds(error),
+          { cause: error }
         );
         finalError.attempts.push(...attempts);
         throw finalError;
       }
 
-      // Check if error is retryable
-      if (!isRetryableError(error, config)) {
-        // Update performance tracker for non-retryable error
-        if (performanceTracker) {
-          performanceTracker.setRetryAttempts(attempts.length);
-        }
-
-        console.error(
-          `❌ ${operationName} failed with non-retryable error:`,
-          (error as Error).message
-        );
-        throw new NonRetryableError(
-          (error as Error).message,
-          (error as any).status || (error as any).statusCode
-        );
-      }
-
       // Calculate delay for next attempt
-      const retryAfter =
-        (error as any).retryAfter || (error as any)["retry-after"];
+      const retryAfter = getRetryAfterSeconds(error);
       const delay = calculateDelay(attempt, config, retryAfter);
       attemptInfo.delay = delay;
 
-      console.warn(
-        `⚠️ ${operationName} attempt ${attempt} failed, retrying in ${delay}ms:`,
+      console.error(
+        `⚠️ ${operationName} attempt ${attempt} failed, retrying in ${Math.round(
+          delay
+        )}ms:`,
         (error as Error).message
       );
 
-      // Wait before retrying
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      // Wait before retrying, unless the caller gives up first
+      await sleep(delay, undefined, { signal });
     }
   }
 
@@ -0,0 +1,84 @@
+/**
+ * Structured Output Helpers
+ *
+ * Repair and schema-validate model output that was supposed to be a JSON
+ * object. Used by providers when generateObject returns malformed JSON and by
+ * callers that receive free-form text which should contain the object.
+ */
+
+import { jsonrepair } from "jsonrepair";
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T; repaired: boolean }
+  | { success: false; error: string };
+
+/**
+ * Raised when model output cannot be turned into an object matching the schema
+ */
+export class StructuredOutputError extends Error {
+  public readonly rawText?: string;
+  public readonly attempts: number;
+
+  constructor(message: string, rawText?: string, attempts: number = 1) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.rawText = rawText;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Summarize zod issues into a single line the model can act on
+ */
+function describeIssues(issues: { path: (string | number)[]; message: string }[]): string {
+  return issues
+    .slice(0, 10)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Parse text into an object matching a zod schema, repairing malformed JSON
+ * @param text - Raw model output, possibly wrapped in prose or code fences
+ * @param schema - Zod schema the object must satisfy
+ */
+export function parseStructuredOutput<T = any>(
+  text: string,
+  schema: any
+): StructuredParseResult<T> {
+  // Drop any prose around the object; keep an unterminated tail for repair
+  const start = text.indexOf("{");
+  if (start === -1) {
+    return { success: false, error: "No JSON object found in response" };
+  }
+  const end = text.lastIndexOf("}");
+  const candidate = end > start ? text.slice(start, end + 1) : text.slice(start);
+
+  let parsed: unknown;
+  let repaired = false;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    try {
+      parsed = JSON.parse(jsonrepair(candidate));
+      repaired = true;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Malformed JSON could not be repaired: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  const validation = schema.safeParse(parsed);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: `Response does not match schema: ${describeIssues(
+        validation.error.issues
+      )}`,
+    };
+  }
+
+  return { success: true, data: validation.data as T, repaired };
+}
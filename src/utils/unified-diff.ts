@@ -0,0 +1,309 @@
+/**
+ * Unified Diff Helpers
+ *
+ * Parse the unified diff a change may be given as (proposedChange.diff or
+ * change.diff), check its hunks against the current file contents, and
+ * derive the line ranges around each hunk that should be read for the model.
+ */
+
+import {
+  AnalysisTarget,
+  DiffHunkCheck,
+} from "../types/thinking-validation-types.js";
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // "@@ -oldStart,oldLines +newStart,newLines @@"
+  header: string;
+  // Body lines with their " ", "-" or "+" prefix
+  lines: string[];
+}
+
+export interface DiffFile {
+  // Unset for a created (oldPath) or deleted (newPath) file
+  oldPath?: string;
+  newPath?: string;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Raised when a diff has no hunks or a hunk does not match its header
+ */
+export class DiffParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiffParseError";
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// "a/src/x.ts" -> "src/x.ts"; "/dev/null" -> undefined
+function diffPath(raw: string): string | undefined {
+  const path = raw
+    .split("\t")[0]
+    .trim()
+    .replace(/^"(.*)"$/, "$1");
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return path.replace(/^[ab]\//, "");
+}
+
+export function filePathOf(file: DiffFile): string {
+  return file.newPath ?? file.oldPath ?? "";
+}
+
+/**
+ * Parse a unified diff, as produced by git diff or diff -u
+ * Lines outside file headers and hunks are ignored.
+ * @throws DiffParseError when there is no hunk, a hunk precedes any file
+ * header, or a hunk body is shorter than its header says
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  let current: DiffFile | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.startsWith("diff --git ")) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      current = { oldPath: match?.[1], newPath: match?.[2], hunks: [] };
+      files.push(current);
+      continue;
+    }
+    if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+      // git diffs announced the file already; plain diffs start here
+      if (!current || current.hunks.length > 0) {
+        current = { hunks: [] };
+        files.push(current);
+      }
+      current.oldPath = diffPath(line.slice(4));
+      current.newPath = diffPath(lines[index + 1].slice(4));
+      index++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (!header) {
+      continue;
+    }
+    if (!current) {
+      throw new DiffParseError(
+        `Hunk "${line}" comes before any file header (--- / +++)`
+      );
+    }
+
+    const hunk: DiffHunk = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      header: line.match(/^@@ [^@]* @@/)![0],
+      lines: [],
+    };
+    let oldSeen = 0;
+    let newSeen = 0;
+    while (oldSeen < hunk.oldLines || newSeen < hunk.newLines) {
+      const body = lines[++index];
+      if (body === undefined || HUNK_HEADER.test(body)) {
+        throw new DiffParseError(
+          `Hunk ${hunk.header} of ${filePathOf(current)} is shorter than its header says`
+        );
+      }
+      if (body.startsWith("\\")) {
+        // "\ No newline at end of file"
+        continue;
+      }
+      // Editors often strip the single space of blank context lines
+      const entry = body === "" ? " " : body;
+      const kind = entry[0];
+      if (kind !== " " && kind !== "-" && kind !== "+") {
+        throw new DiffParseError(
+          `Hunk ${hunk.header} of ${filePathOf(current)} has a line that is not context, removal or addition: "${body}"`
+        );
+      }
+      if (kind !== "+") oldSeen++;
+      if (kind !== "-") newSeen++;
+      hunk.lines.push(entry);
+    }
+    current.hunks.push(hunk);
+  }
+
+  const withHunks = files.filter((file) => file.hunks.length > 0);
+  if (withHunks.length === 0) {
+    throw new DiffParseError("The diff contains no hunks");
+  }
+  return withHunks;
+}
+
+function splitLines(content: string): string[] {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line (1-based) where the hunk's old side is found in the file, the match
+ * nearest to where the header places it; undefined when it is not found
+ */
+function locateHunk(fileLines: string[], hunk: DiffHunk): number | undefined {
+  const old = hunk.lines
+    .filter((line) => line[0] !== "+")
+    .map((line) => line.slice(1).trimEnd());
+  if (old.length === 0) {
+    // Pure insertion after line oldStart
+    return hunk.oldStart <= fileLines.length ? hunk.oldStart : undefined;
+  }
+
+  let best: number | undefined;
+  for (let start = 0; start + old.length <= fileLines.length; start++) {
+    const matches = old.every(
+      (line, offset) => fileLines[start + offset].trimEnd() === line
+    );
+    if (
+      matches &&
+      (best === undefined ||
+        Math.abs(start + 1 - hunk.oldStart) < Math.abs(best - hunk.oldStart))
+    ) {
+      best = start + 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Check each hunk of a file against its current content
+ * @param content - Current content of the old path; undefined when the file
+ * does not exist
+ */
+export function checkDiffFile(
+  file: DiffFile,
+  content: string | undefined
+): DiffHunkCheck[] {
+  const path = filePathOf(file);
+  return file.hunks.map((hunk) => {
+    const check = { file: path, hunk: hunk.header };
+    if (!file.oldPath) {
+      return content === undefined
+        ? { ...check, status: "applies" as const }
+        : {
+            ...check,
+            status: "does_not_apply" as const,
+            message: "The diff creates the file, but it already exists",
+          };
+    }
+    if (content === undefined) {
+      return {
+        ...check,
+        status: "does_not_apply" as const,
+        message: "The file does not exist",
+      };
+    }
+
+    const foundAt = locateHunk(splitLines(content), hunk);
+    if (foundAt === undefined) {
+      return {
+        ...check,
+        status: "does_not_apply" as const,
+        message:
+          "The removed and context lines were not found in the current file",
+      };
+    }
+    return foundAt === hunk.oldStart
+      ? { ...check, status: "applies" as const }
+      : {
+          ...check,
+          status: "stale" as const,
+          foundAt,
+          message: `The lines moved from ${hunk.oldStart} to ${foundAt}`,
+        };
+  });
+}
+
+/**
+ * Range targets covering each hunk of an existing file plus the context
+ * lines around it, overlapping ranges merged
+ * @param resolvePath - Turns a diff path into the path the target reads
+ * @param checks - Checks of the file's hunks, used for hunks that moved
+ */
+export function diffAnalysisTargets(
+  file: DiffFile,
+  checks: DiffHunkCheck[],
+  contextLines: number,
+  resolvePath: (path: string) => string
+): AnalysisTarget[] {
+  if (!file.oldPath) {
+    return [];
+  }
+
+  const ranges = file.hunks
+    .map((hunk, index) => {
+      const start = checks[index]?.foundAt ?? hunk.oldStart;
+      return [
+        Math.max(1, start - contextLines),
+        Math.max(start, start + hunk.oldLines - 1) + contextLines,
+      ];
+    })
+    .sort((a, b) => a[0] - b[0]);
+  const merged: number[][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  return merged.map(([startLine, endLine]) => ({
+    file: resolvePath(file.oldPath!),
+    mode: "range" as const,
+    startLine,
+    endLine,
+    priority: "critical" as const,
+  }));
+}
+
+/**
+ * The change as a diff block for the prompt, followed by the result of the
+ * hunk checks when any hunk is out of date
+ */
+export function formatDiffSection(
+  files: DiffFile[],
+  checks: DiffHunkCheck[]
+): string {
+  const diff = files
+    .map((file) =>
+      [
+        `--- ${file.oldPath ? `a/${file.oldPath}` : "/dev/null"}`,
+        `+++ ${file.newPath ? `b/${file.newPath}` : "/dev/null"}`,
+        ...file.hunks.flatMap((hunk) => [hunk.header, ...hunk.lines]),
+      ].join("\n")
+    )
+    .join("\n");
+
+  const problems = checks.filter(
+    (check) => check.status === "stale" || check.status === "does_not_apply"
+  );
+  const notes =
+    problems.length > 0
+      ? `\n\nHunks that do not match the current files (the diff may have been written against another version; judge the change against the current code and point out the mismatch):\n${problems
+          .map(
+            (check) =>
+              `- ${check.file} ${check.hunk}: ${check.status}${
+                check.message ? ` (${check.message})` : ""
+              }`
+          )
+          .join("\n")}`
+      : "";
+
+  return `Diff:\n\`\`\`diff\n${diff}\n\`\`\`${notes}`;
+}
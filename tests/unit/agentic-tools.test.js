@@ -0,0 +1,172 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createAgenticTools } from "../../dist/services/agentic-tools.js";
+import { ToolCallingService } from "../../dist/services/tool-calling-service.js";
+
+const service = new ToolCallingService({
+  readFile: { enabled: true },
+  grep: { enabled: true },
+  listFiles: { enabled: true },
+  writeToFile: { enabled: false },
+  replaceInFile: { enabled: false },
+  executeCommand: { enabled: false },
+  maxFileSizeKB: 1,
+});
+
+async function withProject(run) {
+  const root = await mkdtemp(join(tmpdir(), "athena-agentic-"));
+  try {
+    await mkdir(join(root, "src", "nested"), { recursive: true });
+    await mkdir(join(root, "node_modules", "dep"), { recursive: true });
+    await mkdir(join(root, "dist"));
+    await writeFile(join(root, "src", "app.ts"), "const needle = 1;\n");
+    await writeFile(join(root, "src", "nested", "deep.ts"), "needle();\n");
+    await writeFile(join(root, "node_modules", "dep", "index.js"), "needle\n");
+    await writeFile(join(root, "dist", "app.js"), "needle\n");
+    await writeFile(join(root, "src", "blob.bin"), "needle\0\0\0");
+    await writeFile(join(root, "src", "big.ts"), `needle\n${"x".repeat(2048)}`);
+    await run(root);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+const call = (tool, input, abortSignal) =>
+  tool.execute(input, { toolCallId: "1", messages: [], abortSignal });
+
+test("grep skips dependency, build, binary and oversized files", () =>
+  withProject(async (root) => {
+    const tools = createAgenticTools(service, root);
+    const result = await call(tools.grep, { pattern: "needle" });
+
+    assert.equal(result.success, true);
+    const files = result.matches.map((match) => match.file).sort();
+    assert.deepEqual(files, [
+      join(root, "src", "app.ts"),
+      join(root, "src", "nested", "deep.ts"),
+    ]);
+  }));
+
+test("grep searches subdirectories only when recursive", () =>
+  withProject(async (root) => {
+    const tools = createAgenticTools(service, root);
+    const result = await call(tools.grep, {
+      pattern: "needle",
+      path: "src",
+      recursive: false,
+    });
+
+    assert.deepEqual(
+      result.matches.map((match) => match.file),
+      [join(root, "src", "app.ts")]
+    );
+  }));
+
+test("paths outside the project root are rejected", () =>
+  withProject(async (root) => {
+    const calls = [];
+    const tools = createAgenticTools(service, root, (entry) =>
+      calls.push(entry.toolName)
+    );
+    const result = await call(tools.readFileWithMode, { path: "../x.ts" });
+
+    assert.equal(result.success, false);
+    assert.match(result.error, /outside the project root/);
+    assert.deepEqual(calls, ["readFileWithMode"]);
+  }));
+
+test("glob matches across directories with **", () =>
+  withProject(async (root) => {
+    const tools = createAgenticTools(service, root);
+
+    const all = await call(tools.glob, { pattern: "src/**/*.ts" });
+    assert.deepEqual(all.matches.sort(), [
+      join("src", "app.ts"),
+      join("src", "big.ts"),
+      join("src", "nested", "deep.ts"),
+    ]);
+
+    const anywhere = await call(tools.glob, { pattern: "**/deep.ts" });
+    assert.deepEqual(anywhere.matches, [join("src", "nested", "deep.ts")]);
+  }));
+
+test("glob treats dots and other regex characters literally", () =>
+  withProject(async (root) => {
+    await writeFile(join(root, "src", "appxts"), "");
+    await writeFile(join(root, "src", "a+b(1).ts"), "");
+    const tools = createAgenticTools(service, root);
+
+    assert.deepEqual(
+      (await call(tools.glob, { pattern: "src/app.ts" })).matches,
+      [join("src", "app.ts")]
+    );
+    assert.deepEqual(
+      (await call(tools.glob, { pattern: "src/a+b(1).ts" })).matches,
+      [join("src", "a+b(1).ts")]
+    );
+  }));
+
+test("glob and recursive listings skip dependency and build directories", () =>
+  withProject(async (root) => {
+    const tools = createAgenticTools(service, root);
+
+    const globbed = await call(tools.glob, { pattern: "**/*.js" });
+    assert.deepEqual(globbed.matches, []);
+
+    const listed = await call(tools.listFiles, { recursive: true });
+    assert.ok(listed.files.includes(join("src", "nested", "deep.ts")));
+    assert.ok(listed.files.includes("node_modules/"));
+    assert.ok(
+      !listed.files.some((file) => file.startsWith(join("node_modules", "dep")))
+    );
+    assert.ok(
+      !listed.files.some((file) => file.startsWith(join("dist", "app")))
+    );
+  }));
+
+test("symlinks cannot lead the tools outside the project root", async () => {
+  const outside = await mkdtemp(join(tmpdir(), "athena-outside-"));
+  try {
+    await writeFile(join(outside, "secret.txt"), "needle secret\n");
+    await withProject(async (root) => {
+      await symlink(outside, join(root, "src", "linked"));
+      await symlink(
+        join(outside, "secret.txt"),
+        join(root, "src", "secret.txt")
+      );
+      const tools = createAgenticTools(service, root);
+
+      for (const path of ["src/linked/secret.txt", "src/secret.txt"]) {
+        const read = await call(tools.readFileWithMode, { path });
+        assert.equal(read.success, false);
+        assert.match(read.error, /outside the project root/);
+      }
+      const listed = await call(tools.listFiles, { path: "src/linked" });
+      assert.match(listed.error, /outside the project root/);
+
+      const grepped = await call(tools.grep, { pattern: "secret" });
+      assert.deepEqual(grepped.matches, []);
+    });
+  } finally {
+    await rm(outside, { recursive: true, force: true });
+  }
+});
+
+test("an aborted run stops directory walks", () =>
+  withProject(async (root) => {
+    const tools = createAgenticTools(service, root);
+    const controller = new AbortController();
+    controller.abort();
+
+    for (const [tool, input] of [
+      [tools.grep, { pattern: "needle" }],
+      [tools.listFiles, { recursive: true }],
+      [tools.glob, { pattern: "**/*.ts" }],
+    ]) {
+      const result = await call(tool, input, controller.signal);
+      assert.equal(result.success, false);
+    }
+  }));
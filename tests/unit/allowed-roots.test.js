@@ -0,0 +1,74 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const base = await mkdtemp(join(tmpdir(), "athena-roots-"));
+const project = join(base, "project");
+const secretFile = join(base, "server", ".env");
+await mkdir(join(project, "src"), { recursive: true });
+await mkdir(join(base, "server"));
+await writeFile(join(project, "src", "app.ts"), "export const app = 1;\n");
+await writeFile(secretFile, "OPENAI_API_KEY=sk-leaked\n");
+await symlink(secretFile, join(project, "linked.env"));
+after(() => rm(base, { recursive: true, force: true }));
+
+const validator = createValidator({ allowedRoots: [project] });
+
+function validate(projectContext) {
+  return validator.validateThinking({
+    ...thinkingValidationRequest,
+    projectContext,
+  });
+}
+
+test("files inside the allowed roots are read for the model", async () => {
+  const calls = await stubModel(() => thinkingValidationResult());
+
+  await validate({
+    projectRoot: project,
+    analysisTargets: [{ file: "src/app.ts", mode: "full" }],
+  });
+
+  assert.equal(calls.length, 1);
+  assert.match(JSON.stringify(calls[0]), /export const app = 1/);
+});
+
+test("targets outside the allowed roots are rejected before any model call", async () => {
+  const calls = await stubModel(() => thinkingValidationResult());
+
+  for (const file of [secretFile, "../server/.env", "linked.env"]) {
+    await assert.rejects(
+      validate({
+        projectRoot: project,
+        analysisTargets: [{ file, mode: "full" }],
+      }),
+      /is outside the allowed roots/
+    );
+  }
+  assert.equal(calls.length, 0);
+});
+
+test("a project root outside the allowed roots is rejected", async () => {
+  const calls = await stubModel(() => thinkingValidationResult());
+
+  await assert.rejects(
+    validate({
+      projectRoot: join(base, "server"),
+      analysisTargets: [{ file: ".env", mode: "full" }],
+    }),
+    /is outside the allowed roots/
+  );
+  assert.throws(
+    () => validator.getKnowledgeBase(join(base, "server")),
+    /is outside the allowed roots/
+  );
+  assert.equal(calls.length, 0);
+});
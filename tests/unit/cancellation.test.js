@@ -0,0 +1,53 @@
+import {
+  createValidator,
+  hangUntilAborted,
+  stubModel,
+  thinkingValidationRequest,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+test("a client cancellation rejects the run and aborts the model call", async () => {
+  let called;
+  const modelCalled = new Promise((resolve) => (called = resolve));
+  const calls = await stubModel((params) => {
+    called();
+    return hangUntilAborted(params);
+  });
+  const validator = createValidator();
+  const controller = new AbortController();
+
+  const run = validator.validateThinking(
+    thinkingValidationRequest,
+    "cancelled-first-call",
+    undefined,
+    { signal: controller.signal }
+  );
+  await modelCalled;
+  controller.abort();
+
+  await assert.rejects(run, /thinking_validation was cancelled by the client/);
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].abortSignal.aborted, true);
+  // The session is stored with its first attempt, which never came
+  assert.equal(await validator.getSession("cancelled-first-call"), null);
+});
+
+test("an already cancelled request never reaches the model", async () => {
+  const calls = await stubModel(hangUntilAborted);
+  const validator = createValidator();
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(
+    validator.validateThinking(
+      thinkingValidationRequest,
+      undefined,
+      undefined,
+      {
+        signal: controller.signal,
+      }
+    )
+  );
+  assert.equal(calls.length, 0);
+});
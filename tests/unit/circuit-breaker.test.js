@@ -0,0 +1,153 @@
+import "./provider-env.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { z } from "zod";
+import {
+  MetricsCollector,
+  initializeMetricsCollector,
+} from "../../dist/utils/metrics-collector.js";
+import {
+  generateObjectService,
+  getProviderInstance,
+} from "../../dist/unified-ai-service.js";
+
+const COOLDOWN_MS = 30;
+
+function createCollector() {
+  return new MetricsCollector({
+    circuitBreaker: {
+      windowSize: 10,
+      minRequests: 5,
+      failureRateThreshold: 50,
+      cooldownMs: COOLDOWN_MS,
+    },
+  });
+}
+
+function record(collector, outcomes) {
+  for (const success of outcomes) {
+    collector.recordProviderCall(
+      "openai",
+      10,
+      success,
+      success ? undefined : "boom"
+    );
+  }
+}
+
+test("stays closed until the window holds minRequests calls", () => {
+  const collector = createCollector();
+  record(collector, [false, false, false, false]);
+
+  assert.equal(collector.getCircuitState("openai"), "closed");
+  assert.equal(collector.isProviderAvailable("openai"), true);
+});
+
+test("tolerates occasional failures below the failure-rate threshold", () => {
+  const collector = createCollector();
+  record(collector, [true, false, true, false, true, true]);
+
+  assert.equal(collector.getCircuitState("openai"), "closed");
+});
+
+test("a failure rate that raises an alert leaves the breaker closed", () => {
+  const collector = createCollector();
+  record(collector, [true, true, true, true, false, true, true, true, true]);
+
+  assert.equal(collector.getCircuitState("openai"), "closed");
+  assert.ok(
+    collector
+      .getMetricsSummary()
+      .alerts.some((alert) => alert.type === "failure_rate")
+  );
+});
+
+test("opens above the threshold and skips the provider during cooldown", () => {
+  const collector = createCollector();
+  record(collector, [true, false, false, false, true]);
+
+  assert.equal(collector.getCircuitState("openai"), "open");
+  assert.equal(collector.isProviderAvailable("openai"), false);
+  assert.equal(collector.isProviderAvailable("google"), true);
+});
+
+test("lets one probe through after cooldown and closes when it succeeds", async () => {
+  const collector = createCollector();
+  record(collector, [false, false, false, false, false]);
+  await sleep(COOLDOWN_MS + 10);
+
+  assert.equal(collector.getCircuitState("openai"), "half_open");
+  assert.equal(collector.isProviderAvailable("openai"), true);
+  assert.equal(collector.isProviderAvailable("openai"), false);
+
+  record(collector, [true]);
+  assert.equal(collector.getCircuitState("openai"), "closed");
+  // Failures from before the breaker closed no longer count
+  record(collector, [false]);
+  assert.equal(collector.getCircuitBreakerStatus("openai").recentRequests, 2);
+  assert.equal(collector.getCircuitState("openai"), "closed");
+});
+
+test("reopens when the probe fails", async () => {
+  const collector = createCollector();
+  record(collector, [false, false, false, false, false]);
+  await sleep(COOLDOWN_MS + 10);
+  assert.equal(collector.isProviderAvailable("openai"), true);
+
+  record(collector, [false]);
+  assert.equal(collector.getCircuitState("openai"), "open");
+  assert.equal(collector.isProviderAvailable("openai"), false);
+});
+
+test("a call counts once, with its outcome after retries", async () => {
+  const collector = initializeMetricsCollector();
+  const provider = await getProviderInstance("openai");
+  let calls = 0;
+  provider.generateObject = async () => {
+    if (++calls < 3) {
+      throw Object.assign(new Error("HTTP 503"), {
+        status: 503,
+        retryAfter: 0.001,
+      });
+    }
+    return { object: { ok: true }, usage: {} };
+  };
+
+  await generateObjectService({
+    prompt: "q",
+    schema: z.object({ ok: z.boolean() }),
+  });
+
+  const metrics = collector.getProviderMetrics("openai");
+  assert.equal(metrics.totalRequests, 1);
+  assert.equal(metrics.failedRequests, 0);
+});
+
+test("provider selection skips a provider whose breaker is open", async () => {
+  const collector = initializeMetricsCollector({
+    circuitBreaker: {
+      windowSize: 10,
+      minRequests: 5,
+      failureRateThreshold: 50,
+      cooldownMs: 60_000,
+    },
+  });
+  record(collector, [false, false, false, false, false]);
+  const calls = [];
+  for (const name of ["openai", "google"]) {
+    const provider = await getProviderInstance(name);
+    provider.generateObject = async () => {
+      calls.push(name);
+      return { object: { ok: true }, usage: {} };
+    };
+  }
+
+  await generateObjectService({
+    prompt: "q",
+    schema: z.object({ ok: z.boolean() }),
+    maxFallbackHops: 0,
+  });
+
+  assert.deepEqual(calls, ["google"]);
+});
@@ -0,0 +1,236 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  agreementScore,
+  decideGoAhead,
+  mergeFindings,
+  mergeImpactAnalyses,
+  mergeThinkingValidations,
+  lexicalSimilarity,
+} from "../../dist/core/consensus.js";
+
+const issue = (text, priority = "medium") => ({
+  issue: text,
+  suggestion: "fix it",
+  priority,
+});
+
+const verdict = (provider, goAhead, blocker = false) => ({
+  provider,
+  goAhead,
+  blocker,
+});
+
+test("lexical similarity is the share of terms in common", () => {
+  assert.equal(lexicalSimilarity("cache eviction", "eviction of the cache"), 1);
+  assert.equal(lexicalSimilarity("cache eviction", "cache metrics"), 0.5);
+  assert.equal(lexicalSimilarity("cache", "database"), 0);
+  assert.equal(lexicalSimilarity("??", "??"), 1);
+});
+
+test("merges findings worded alike and lists who raised them", () => {
+  const merged = mergeFindings(
+    [
+      { provider: "openai", items: ["No cache eviction policy", "No metrics"] },
+      { provider: "google", items: ["Cache has no eviction policy"] },
+    ],
+    (item) => item,
+    0.6
+  );
+
+  assert.deepEqual(merged, [
+    { item: "No cache eviction policy", raisedBy: ["openai", "google"] },
+    { item: "No metrics", raisedBy: ["openai"] },
+  ]);
+});
+
+test("joins a finding to the most similar merged one", () => {
+  const merged = mergeFindings(
+    [
+      { provider: "openai", items: ["stale reads", "cache eviction"] },
+      { provider: "google", items: ["cache eviction reads"] },
+    ],
+    (item) => item,
+    0.3
+  );
+
+  assert.deepEqual(merged, [
+    { item: "cache eviction", raisedBy: ["openai", "google"] },
+    { item: "stale reads", raisedBy: ["openai"] },
+  ]);
+});
+
+test("decides the go-ahead by the voting rule", () => {
+  const verdicts = [
+    verdict("openai", true),
+    verdict("google", true, true),
+    verdict("anthropic", false),
+    { provider: "mistral", error: "timed out" },
+  ];
+
+  assert.equal(decideGoAhead(verdicts, "unanimous"), false);
+  assert.equal(decideGoAhead(verdicts, "majority"), true);
+  assert.equal(decideGoAhead(verdicts, "any_blocker"), false);
+  assert.equal(
+    decideGoAhead(
+      [verdict("openai", true), verdict("google", false)],
+      "majority"
+    ),
+    false
+  );
+});
+
+test("never goes ahead when no provider answered", () => {
+  const failed = [
+    { provider: "openai", error: "timed out" },
+    { provider: "google", error: "rate limited" },
+  ];
+
+  for (const voting of ["unanimous", "majority", "any_blocker"]) {
+    assert.equal(decideGoAhead(failed, voting), false);
+    assert.equal(decideGoAhead([], voting), false);
+  }
+});
+
+test("scores agreement on verdicts and findings", () => {
+  const verdicts = [verdict("openai", true), verdict("google", true)];
+
+  assert.equal(agreementScore(verdicts, []), 1);
+  assert.equal(
+    agreementScore(verdicts, [
+      { item: "a", raisedBy: ["openai", "google"] },
+      { item: "b", raisedBy: ["openai"] },
+    ]),
+    0.88
+  );
+  assert.equal(
+    agreementScore([verdict("openai", true), verdict("google", false)], []),
+    0.75
+  );
+  assert.equal(agreementScore([{ provider: "openai", error: "x" }], []), 0);
+});
+
+test("merges thinking validations and keeps each provider's verdict", () => {
+  const { response, verdicts } = mergeThinkingValidations(
+    [
+      {
+        provider: "openai",
+        result: thinkingValidationResult({
+          confidence: 90,
+          criticalIssues: [issue("No cache eviction policy", "low")],
+        }),
+      },
+      {
+        provider: "google",
+        result: thinkingValidationResult({
+          confidence: 70,
+          goAhead: false,
+          criticalIssues: [issue("Cache has no eviction policy", "high")],
+        }),
+      },
+      { provider: "anthropic", error: "rate limited" },
+    ],
+    "any_blocker",
+    0.6
+  );
+
+  assert.equal(response.validation.confidence, 80);
+  assert.equal(response.validation.goAhead, false);
+  assert.deepEqual(response.validation.criticalIssues, [
+    {
+      ...issue("No cache eviction policy", "high"),
+      raisedBy: ["openai", "google"],
+    },
+  ]);
+  assert.deepEqual(response.consensus.providers, ["openai", "google"]);
+  assert.equal(response.consensus.agreement, 0.75);
+  assert.deepEqual(
+    verdicts.map(({ provider, goAhead, blocker, error }) => ({
+      provider,
+      goAhead,
+      blocker,
+      error,
+    })),
+    [
+      { provider: "openai", goAhead: true, blocker: false, error: undefined },
+      { provider: "google", goAhead: false, blocker: true, error: undefined },
+      {
+        provider: "anthropic",
+        goAhead: undefined,
+        blocker: undefined,
+        error: "rate limited",
+      },
+    ]
+  );
+});
+
+test("merges impact analyses with the most cautious rating", () => {
+  const impacts = (overallRisk, probability) => ({
+    impacts: {
+      overallRisk,
+      affectedAreas: [
+        { area: "user service", impact: "lookups cached", files: [] },
+      ],
+      cascadingRisks: [{ risk: "stale user data", probability }],
+      quickTests: ["cache hit"],
+    },
+  });
+
+  const { response } = mergeImpactAnalyses(
+    [
+      { provider: "openai", result: impacts("low", "low") },
+      { provider: "google", result: impacts("medium", "high") },
+    ],
+    "majority",
+    0.6
+  );
+
+  assert.equal(response.impacts.overallRisk, "medium");
+  assert.equal(response.impacts.cascadingRisks[0].probability, "high");
+  assert.deepEqual(response.impacts.affectedAreas[0].raisedBy, [
+    "openai",
+    "google",
+  ]);
+  assert.deepEqual(response.impacts.quickTests, ["cache hit"]);
+  assert.equal(response.consensus.goAhead, true);
+  assert.equal(response.consensus.agreement, 1);
+});
+
+test("asks every consensus provider and records their verdicts", async () => {
+  const calls = await stubModel((params, provider) =>
+    thinkingValidationResult({
+      goAhead: provider === "openai",
+      criticalIssues: [issue("Stale reads after updates")],
+    })
+  );
+  const validator = createValidator();
+
+  const result = await validator.validateThinking(
+    {
+      ...thinkingValidationRequest,
+      consensus: { providers: ["openai", "google"], voting: "unanimous" },
+    },
+    "consensus-run"
+  );
+
+  assert.deepEqual(calls.map((call) => call.provider).sort(), [
+    "google",
+    "openai",
+  ]);
+  assert.equal(result.validation.goAhead, false);
+  assert.deepEqual(result.validation.criticalIssues[0].raisedBy, [
+    "openai",
+    "google",
+  ]);
+  assert.equal(result.consensus.agreement, 0.75);
+  assert.deepEqual(
+    result.metadata.consensusVerdicts.map((entry) => entry.provider),
+    ["openai", "google"]
+  );
+});
@@ -0,0 +1,74 @@
+// Validator wired to providers whose structured calls are answered by the
+// test instead of the network
+import "./provider-env.js";
+import "./memory-env.js";
+import { ThinkingValidator } from "../../dist/core/thinking-validator.js";
+import { ToolCallingService } from "../../dist/services/tool-calling-service.js";
+import { getProviderInstance } from "../../dist/unified-ai-service.js";
+import { initializeMetricsCollector } from "../../dist/utils/metrics-collector.js";
+
+export const thinkingValidationRequest = {
+  thinking: "Cache the user lookup to cut latency",
+  proposedChange: { description: "Add an LRU cache in front of getUser" },
+  context: { problem: "getUser is slow", techStack: "Node.js" },
+  urgency: "low",
+};
+
+export function thinkingValidationResult(validation = {}) {
+  return {
+    validation: {
+      confidence: 80,
+      goAhead: true,
+      criticalIssues: [],
+      recommendations: [],
+      testCases: [],
+      ...validation,
+    },
+  };
+}
+
+/**
+ * Answer every generateObject call with answer(params, provider); it may
+ * return the object, a promise of it, or throw
+ * @returns The calls made, in order
+ */
+export async function stubModel(answer) {
+  initializeMetricsCollector();
+  const calls = [];
+  for (const name of ["openai", "google"]) {
+    const provider = await getProviderInstance(name);
+    provider.generateObject = async (params) => {
+      calls.push({ provider: name, ...params });
+      return { object: await answer(params, name), usage: {} };
+    };
+  }
+  return calls;
+}
+
+export function createValidator(config = {}) {
+  const validator = new ThinkingValidator();
+  validator.setToolCallingService(
+    new ToolCallingService({
+      readFile: { enabled: true },
+      grep: { enabled: true },
+      listFiles: { enabled: true },
+      writeToFile: { enabled: false },
+      replaceInFile: { enabled: false },
+      executeCommand: { enabled: false },
+      agenticMaxSteps: 0,
+      ...config,
+    })
+  );
+  return validator;
+}
+
+/**
+ * Model call that only ends when its abort signal fires
+ */
+export function hangUntilAborted(params) {
+  return new Promise((_, reject) => {
+    params.abortSignal.addEventListener("abort", () =>
+      reject(params.abortSignal.reason)
+    );
+  });
+}
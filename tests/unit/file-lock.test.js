@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { mkdtemp, rm, utimes, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { withFileLock } from "../../dist/memory/file-lock.js";
+
+const options = { timeoutMs: 300, staleMs: 1000 };
+
+async function withLockPath(run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-lock-"));
+  try {
+    await run(join(directory, "store.lock"));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+// Pid of a process that has already exited
+function exitedPid() {
+  return spawnSync(process.execPath, ["-e", ""]).pid;
+}
+
+test("runs one holder at a time and releases the lock", () =>
+  withLockPath(async (lockPath) => {
+    let running = 0;
+    let overlapped = false;
+    const task = async () => {
+      overlapped ||= ++running > 1;
+      await sleep(10);
+      running--;
+    };
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        withFileLock(lockPath, task, { ...options, timeoutMs: 2000 })
+      )
+    );
+
+    assert.equal(overlapped, false);
+    assert.equal(existsSync(lockPath), false);
+  }));
+
+test("releases the lock when the task throws", () =>
+  withLockPath(async (lockPath) => {
+    await assert.rejects(
+      withFileLock(
+        lockPath,
+        async () => {
+          throw new Error("task failed");
+        },
+        options
+      ),
+      /task failed/
+    );
+    assert.equal(existsSync(lockPath), false);
+  }));
+
+test("breaks a lock whose owner has exited", () =>
+  withLockPath(async (lockPath) => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: exitedPid(), acquiredAt: Date.now() })
+    );
+
+    assert.equal(
+      await withFileLock(lockPath, async () => "ran", options),
+      "ran"
+    );
+  }));
+
+test("never breaks a live owner's lock, however old", () =>
+  withLockPath(async (lockPath) => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: process.pid, acquiredAt: 0 })
+    );
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+
+    await assert.rejects(
+      withFileLock(lockPath, async () => "ran", options),
+      /Timed out waiting for lock/
+    );
+    assert.equal(existsSync(lockPath), true);
+  }));
+
+test("breaks an ownerless lock only once it is stale", () =>
+  withLockPath(async (lockPath) => {
+    await writeFile(lockPath, "");
+    await assert.rejects(
+      withFileLock(lockPath, async () => "ran", options),
+      /Timed out/
+    );
+
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+    assert.equal(
+      await withFileLock(lockPath, async () => "ran", options),
+      "ran"
+    );
+  }));
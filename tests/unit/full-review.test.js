@@ -0,0 +1,207 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decideReviewVerdict,
+  formatEarlierFindings,
+} from "../../dist/core/full-review.js";
+
+const assumptions = {
+  validation: {
+    validAssumptions: ["Users are read more than written"],
+    riskyAssumptions: [
+      {
+        assumption: "User records rarely change",
+        risk: "Role changes take effect late",
+        mitigation: "Invalidate on update",
+      },
+    ],
+    quickVerifications: [],
+  },
+};
+
+const dependencies = {
+  dependencies: {
+    critical: [
+      {
+        dependency: "auth middleware",
+        impact: "Reads roles through getUser",
+        action: "Invalidate on role change",
+      },
+    ],
+    secondary: [],
+    testFocus: [],
+  },
+};
+
+const impact = (overallRisk = "medium") => ({
+  impacts: {
+    overallRisk,
+    affectedAreas: [
+      { area: "user service", impact: "Lookups are cached", files: [] },
+    ],
+    cascadingRisks: [{ risk: "Stale roles", probability: "medium" }],
+    quickTests: [],
+  },
+});
+
+const reviewRequest = {
+  thinking: thinkingValidationRequest.thinking,
+  proposedChange: thinkingValidationRequest.proposedChange,
+  context: thinkingValidationRequest.context,
+  urgency: "low",
+  assumptions: ["User records rarely change"],
+};
+
+// Answers each stage by the object it asks for
+function stages(overrides = {}) {
+  const answers = {
+    assumption_checker: () => assumptions,
+    dependency_mapper: () => dependencies,
+    impact_analysis: () => impact(),
+    thinking_validation: () => thinkingValidationResult(),
+    ...overrides,
+  };
+  return (params) => answers[params.objectName]();
+}
+
+const promptFor = (calls, objectName) =>
+  calls.find((call) => call.objectName === objectName).messages.at(-1).content;
+
+test("earlier findings are empty before any stage answered", () => {
+  assert.equal(formatEarlierFindings({}), "");
+  assert.equal(
+    formatEarlierFindings({
+      assumptions: {
+        validation: { ...assumptions.validation, riskyAssumptions: [] },
+      },
+    }),
+    ""
+  );
+});
+
+test("earlier findings list what each finished stage found", () => {
+  const text = formatEarlierFindings({
+    assumptions,
+    dependencies,
+    impact: impact(),
+  });
+
+  assert.match(text, /^Findings From Earlier Stages of This Review/);
+  assert.match(
+    text,
+    /- User records rarely change: Role changes take effect late \(mitigation: Invalidate on update\)/
+  );
+  assert.match(text, /- auth middleware: Reads roles through getUser/);
+  assert.match(text, /overall risk medium/);
+  assert.match(text, /- Cascading risk \(medium probability\): Stale roles/);
+});
+
+test("goes ahead only when every stage answered and none objected", () => {
+  const sections = {
+    assumptions,
+    dependencies,
+    impact: impact(),
+    validation: thinkingValidationResult(),
+  };
+
+  assert.deepEqual(decideReviewVerdict(sections, []), {
+    goAhead: true,
+    blockers: [],
+  });
+  assert.deepEqual(
+    decideReviewVerdict(
+      {
+        ...sections,
+        dependencies: undefined,
+        impact: impact("high"),
+        validation: thinkingValidationResult({
+          goAhead: false,
+          criticalIssues: [
+            { issue: "Stale roles", suggestion: "x", priority: "high" },
+            { issue: "No metrics", suggestion: "x", priority: "low" },
+          ],
+        }),
+        assumptions: { error: { message: "unparseable answer" } },
+      },
+      [{ stage: "dependency_mapper", message: "timed out" }]
+    ).blockers,
+    [
+      "dependency_mapper failed: timed out",
+      "assumption_checker returned no analysis: unparseable answer",
+      "thinking_validation withheld the go-ahead: Stale roles",
+      "impact_analysis rated the overall risk high",
+    ]
+  );
+});
+
+test("runs every stage in one session and passes findings on", async () => {
+  const calls = await stubModel(stages());
+  const validator = createValidator();
+
+  const result = await validator.fullReview(reviewRequest, "full-review");
+
+  assert.deepEqual(result.verdict, { goAhead: true, blockers: [] });
+  assert.deepEqual(Object.keys(result.sections).sort(), [
+    "assumptions",
+    "dependencies",
+    "impact",
+    "validation",
+  ]);
+  assert.equal(result.failures, undefined);
+  assert.equal(result.metadata.sessionId, "full-review");
+
+  assert.doesNotMatch(
+    promptFor(calls, "assumption_checker"),
+    /Findings From Earlier Stages/
+  );
+  assert.match(
+    promptFor(calls, "impact_analysis"),
+    /Findings From Earlier Stages[\s\S]*auth middleware/
+  );
+  assert.match(
+    promptFor(calls, "thinking_validation"),
+    /Findings From Earlier Stages[\s\S]*Stale roles/
+  );
+
+  const session = await validator.getSession("full-review");
+  assert.deepEqual(
+    session.validationHistory.map((attempt) => attempt.tool).sort(),
+    [
+      "assumption_checker",
+      "dependency_mapper",
+      "impact_analysis",
+      "thinking_validation",
+    ]
+  );
+});
+
+test("a failed stage blocks the go-ahead but the others still run", async () => {
+  await stubModel(
+    stages({
+      dependency_mapper: () => {
+        throw new Error("dependency stage down");
+      },
+    })
+  );
+  const validator = createValidator();
+
+  const result = await validator.fullReview(
+    reviewRequest,
+    "full-review-failed"
+  );
+
+  assert.equal(result.sections.dependencies, undefined);
+  assert.ok(result.sections.validation.validation);
+  assert.equal(result.failures[0].stage, "dependency_mapper");
+  assert.equal(result.verdict.goAhead, false);
+  assert.match(
+    result.verdict.blockers[0],
+    /^dependency_mapper failed: .*dependency stage down/
+  );
+});
@@ -0,0 +1,123 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { startHttpServer } from "../../dist/http-server.js";
+
+const IDLE_TIMEOUT_MS = 200;
+let httpServer;
+let url;
+
+function createServer() {
+  const server = new Server(
+    { name: "test", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+function post(body, { sessionId, token = "secret" } = {}) {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize() {
+  const response = await post({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "client", version: "1.0.0" },
+    },
+  });
+  await response.text();
+  return response;
+}
+
+const listTools = (sessionId) =>
+  post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { sessionId });
+
+async function closeSession(sessionId) {
+  await fetch(url, {
+    method: "DELETE",
+    headers: { authorization: "Bearer secret", "mcp-session-id": sessionId },
+  });
+}
+
+before(async () => {
+  httpServer = await startHttpServer(createServer, {
+    host: "127.0.0.1",
+    port: 0,
+    authToken: "secret",
+    sessionIdleTimeoutMs: IDLE_TIMEOUT_MS,
+    maxSessions: 2,
+  });
+  url = `http://127.0.0.1:${httpServer.address().port}/mcp`;
+});
+
+after(() => {
+  httpServer.closeAllConnections();
+  httpServer.close();
+});
+
+test("rejects requests without the bearer token", async () => {
+  const response = await post(
+    { jsonrpc: "2.0", id: 1, method: "tools/list" },
+    { token: "wrong" }
+  );
+
+  assert.equal(response.status, 401);
+});
+
+test("routes requests to the session they belong to", async () => {
+  const init = await initialize();
+  const sessionId = init.headers.get("mcp-session-id");
+  assert.equal(init.status, 200);
+  assert.ok(sessionId);
+
+  const listed = await listTools(sessionId);
+  assert.equal(listed.status, 200);
+  assert.match(await listed.text(), /"tools":\[\]/);
+
+  const unknown = await listTools("not-a-session");
+  assert.equal(unknown.status, 404);
+  await unknown.text();
+
+  await closeSession(sessionId);
+});
+
+test("refuses new sessions beyond the limit", async () => {
+  const first = await initialize();
+  const second = await initialize();
+  const third = await initialize();
+
+  assert.equal(first.status, 200);
+  assert.equal(second.status, 200);
+  assert.equal(third.status, 503);
+
+  await closeSession(first.headers.get("mcp-session-id"));
+  await closeSession(second.headers.get("mcp-session-id"));
+});
+
+test("closes sessions left idle past the timeout", async () => {
+  const init = await initialize();
+  const sessionId = init.headers.get("mcp-session-id");
+
+  await sleep(IDLE_TIMEOUT_MS * 3);
+  const response = await listTools(sessionId);
+
+  assert.equal(response.status, 404);
+  await response.text();
+});
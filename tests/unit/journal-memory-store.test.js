@@ -0,0 +1,164 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JournalMemoryStore } from "../../dist/memory/journal-memory-store.js";
+import { createEmptySession } from "../../dist/memory/memory-store.js";
+
+async function withDirectory(run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-journal-"));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+const attempt = (id) => ({
+  id,
+  timestamp: new Date().toISOString(),
+  tool: "thinking_validation",
+  request: {},
+  response: {},
+  confidence: 80,
+});
+
+const lineCount = async (file) =>
+  (await readFile(file, "utf-8")).split("\n").filter(Boolean).length;
+
+test("replays every kind of change when reopened", () =>
+  withDirectory(async (directory) => {
+    const journal = join(directory, "memory.jsonl");
+    const store = new JournalMemoryStore(journal);
+    await store.putSession(
+      createEmptySession("kept", new Date().toISOString())
+    );
+    await store.appendAttempt("kept", attempt("a1"));
+    await store.appendAttempt("kept", attempt("a2"));
+    await store.updateSession("kept", { title: "Cache", status: "closed" });
+    await store.recordOutcome("kept", "a1", {
+      status: "success",
+      recordedAt: new Date().toISOString(),
+    });
+    await store.appendAttempt("dropped", attempt("b1"));
+    await store.deleteSession("dropped");
+
+    const reopened = new JournalMemoryStore(journal);
+    const sessions = await reopened.listSessions();
+
+    assert.deepEqual(
+      sessions.map((session) => session.id),
+      ["kept"]
+    );
+    const [session] = sessions;
+    assert.equal(session.title, "Cache");
+    assert.equal(session.status, "closed");
+    assert.deepEqual(
+      session.validationHistory.map((entry) => entry.id),
+      ["a1", "a2"]
+    );
+    assert.equal(session.validationHistory[0].outcome.status, "success");
+  }));
+
+test("replay past the attempt cap keeps the newest attempts in order", () =>
+  withDirectory(async (directory) => {
+    const journal = join(directory, "memory.jsonl");
+    const store = new JournalMemoryStore(journal);
+    for (const id of ["a1", "a2", "a3", "a4"]) {
+      await store.appendAttempt("capped", attempt(id), 3);
+    }
+
+    const expected = ["a2", "a3", "a4"];
+    const session = await store.getSession("capped");
+    assert.deepEqual(
+      session.validationHistory.map((entry) => entry.id),
+      expected
+    );
+    const reopened = await new JournalMemoryStore(journal).getSession("capped");
+    assert.deepEqual(
+      reopened.validationHistory.map((entry) => entry.id),
+      expected
+    );
+  }));
+
+test("stores sharing a journal see each other's writes", () =>
+  withDirectory(async (directory) => {
+    const journal = join(directory, "memory.jsonl");
+    const first = new JournalMemoryStore(journal);
+    const second = new JournalMemoryStore(journal);
+
+    await Promise.all([
+      first.appendAttempt("shared", attempt("from-first")),
+      second.appendAttempt("shared", attempt("from-second")),
+    ]);
+
+    for (const store of [first, second]) {
+      const session = await store.getSession("shared");
+      assert.deepEqual(
+        session.validationHistory.map((entry) => entry.id).sort(),
+        ["from-first", "from-second"]
+      );
+    }
+  }));
+
+test("compaction keeps the state and other stores follow it", () =>
+  withDirectory(async (directory) => {
+    const journal = join(directory, "memory.jsonl");
+    const writer = new JournalMemoryStore(journal, { compactAfterEntries: 4 });
+    const reader = new JournalMemoryStore(journal);
+    await reader.listSessions();
+
+    for (const id of ["a1", "a2", "a3", "a4", "a5"]) {
+      await writer.appendAttempt("busy", attempt(id));
+    }
+    await writer.appendAttempt("quiet", attempt("q1"));
+
+    // One snapshot line per session, then the entries since compacting
+    assert.equal(await lineCount(journal), 3);
+    const session = await reader.getSession("busy");
+    assert.equal(session.validationHistory.length, 5);
+    assert.ok(await reader.getSession("quiet"));
+  }));
+
+test("skips a torn line and keeps later entries", () =>
+  withDirectory(async (directory) => {
+    const journal = join(directory, "memory.jsonl");
+    const store = new JournalMemoryStore(journal);
+    await store.appendAttempt("torn", attempt("a1"));
+    await appendFile(journal, '{"op":"attempt","sessionId":"torn",\n');
+    await store.appendAttempt("torn", attempt("a2"));
+
+    const session = await new JournalMemoryStore(journal).getSession("torn");
+
+    assert.deepEqual(
+      session.validationHistory.map((entry) => entry.id),
+      ["a1", "a2"]
+    );
+  }));
+
+test("imports the single-file store once and keeps a backup", () =>
+  withDirectory(async (directory) => {
+    const legacyPath = join(directory, "thinking-memory.json");
+    await writeFile(
+      legacyPath,
+      JSON.stringify({
+        old: {
+          id: "old",
+          timestamp: "2025-01-01T00:00:00.000Z",
+          context: { sessionId: "old", techStack: "", problem: "" },
+          validationHistory: [attempt("legacy")],
+        },
+      })
+    );
+
+    const store = new JournalMemoryStore(join(directory, "memory.jsonl"), {
+      legacyPath,
+    });
+    const session = await store.getSession("old");
+
+    assert.equal(session.validationHistory[0].id, "legacy");
+    assert.equal(existsSync(legacyPath), false);
+    assert.equal(existsSync(`${legacyPath}.migrated`), true);
+  }));
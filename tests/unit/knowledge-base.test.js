@@ -0,0 +1,182 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { paginate } from "../../dist/utils/pagination.js";
+import { rankBm25, tokenize } from "../../dist/memory/bm25.js";
+import { ProjectKnowledgeBase } from "../../dist/memory/project-knowledge-base.js";
+
+async function withKnowledgeBase(options, run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-knowledge-"));
+  try {
+    await run(
+      new ProjectKnowledgeBase(join(directory, "knowledge-base.json"), options),
+      join(directory, "knowledge-base.json")
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+const fact = (text, extra = {}) => ({
+  kind: "fact",
+  text,
+  source: "user",
+  ...extra,
+});
+
+test("paginates and reports the next offset until the last page", () => {
+  assert.deepEqual(paginate([1, 2, 3, 4, 5], 0, 2), {
+    items: [1, 2],
+    total: 5,
+    offset: 0,
+    nextOffset: 2,
+  });
+  assert.deepEqual(paginate([1, 2, 3, 4, 5], 4, 2), {
+    items: [5],
+    total: 5,
+    offset: 4,
+    nextOffset: undefined,
+  });
+  assert.deepEqual(paginate([1, 2, 3], -1).items, [1, 2, 3]);
+});
+
+test("tokenizes paths and camelCase, dropping stop words", () => {
+  assert.deepEqual(tokenize("The src/authMiddleware.ts is in Node"), [
+    "src",
+    "auth",
+    "middleware",
+    "ts",
+    "node",
+  ]);
+});
+
+test("ranks documents by shared and rarer terms", () => {
+  const [auth, both, none] = rankBm25(tokenize("auth middleware"), [
+    tokenize("auth lives in src"),
+    tokenize("auth middleware lives in src/middleware"),
+    tokenize("we never use default exports"),
+  ]);
+
+  assert.equal(none, 0);
+  assert.ok(both > auth);
+  assert.ok(auth > 0);
+  assert.deepEqual(rankBm25(["auth"], []), []);
+});
+
+test("merges the same fact instead of adding it twice", () =>
+  withKnowledgeBase({}, async (knowledge) => {
+    const first = await knowledge.add(fact("Auth lives in src/middleware"));
+    const again = await knowledge.add(
+      fact("  auth lives in   SRC/middleware ", { tags: ["auth"] })
+    );
+
+    assert.equal(again.id, first.id);
+    assert.equal(again.occurrences, 2);
+    assert.deepEqual(again.tags, ["auth"]);
+    assert.equal((await knowledge.list()).total, 1);
+  }));
+
+test("searches unresolved entries by relevance", () =>
+  withKnowledgeBase({}, async (knowledge) => {
+    await knowledge.add(fact("We never use default exports"));
+    await knowledge.add(
+      fact("Auth middleware lives here", { files: ["src/middleware/auth.ts"] })
+    );
+    await knowledge.recordIssues({
+      tool: "thinking_validation",
+      sessionId: "s1",
+      issues: ["Auth tokens are never rotated"],
+      resolved: [],
+      files: [],
+    });
+
+    const results = await knowledge.search("change the auth middleware");
+
+    assert.deepEqual(
+      results.map(({ entry }) => entry.text),
+      ["Auth middleware lives here", "Auth tokens are never rotated"]
+    );
+    assert.ok(results[0].score > results[1].score);
+  }));
+
+test("resolved issues leave search and the default list", () =>
+  withKnowledgeBase({}, async (knowledge) => {
+    const report = {
+      tool: "thinking_validation",
+      sessionId: "s1",
+      issues: ["Auth tokens are never rotated"],
+      resolved: [],
+      files: [],
+    };
+    await knowledge.recordIssues(report);
+    await knowledge.recordIssues({
+      ...report,
+      issues: [],
+      resolved: ["auth tokens are never rotated"],
+    });
+
+    assert.deepEqual(await knowledge.search("auth tokens"), []);
+    assert.equal((await knowledge.list()).total, 0);
+    const all = await knowledge.list({ includeResolved: true });
+    assert.equal(all.entries[0].resolved, true);
+
+    // Reported again, so open again
+    await knowledge.recordIssues(report);
+    assert.equal((await knowledge.list()).total, 1);
+  }));
+
+test("filters and pages the list", () =>
+  withKnowledgeBase({}, async (knowledge) => {
+    await knowledge.add(fact("One", { tags: ["style"] }));
+    await knowledge.add(fact("Two", { tags: ["style"] }));
+    await knowledge.add({ ...fact("Three"), kind: "issue" });
+
+    const page = await knowledge.list({ tag: "style", limit: 1 });
+
+    assert.equal(page.total, 2);
+    assert.equal(page.entries.length, 1);
+    assert.equal(page.nextOffset, 1);
+    assert.equal((await knowledge.list({ kind: "issue" })).total, 1);
+  }));
+
+test("updates and deletes entries", () =>
+  withKnowledgeBase({}, async (knowledge) => {
+    const entry = await knowledge.add(fact("Old wording"));
+
+    const updated = await knowledge.update(entry.id, { text: "New wording" });
+    assert.equal(updated.text, "New wording");
+    assert.equal(await knowledge.update("missing", { text: "x" }), undefined);
+
+    assert.equal(await knowledge.delete(entry.id), true);
+    assert.equal(await knowledge.delete(entry.id), false);
+    assert.equal(await knowledge.get(entry.id), undefined);
+  }));
+
+test("drops reported issues before user facts at the entry limit", () =>
+  withKnowledgeBase({ maxEntries: 2 }, async (knowledge) => {
+    await knowledge.add(fact("Keep me"));
+    await knowledge.recordIssues({
+      tool: "thinking_validation",
+      sessionId: "s1",
+      issues: ["First issue", "Second issue"],
+      resolved: [],
+      files: [],
+    });
+
+    const { entries } = await knowledge.list();
+
+    assert.equal(entries.length, 2);
+    assert.ok(entries.some((entry) => entry.text === "Keep me"));
+  }));
+
+test("instances sharing a file see each other's changes", () =>
+  withKnowledgeBase({}, async (knowledge, file) => {
+    const other = new ProjectKnowledgeBase(file);
+    await other.list();
+
+    await knowledge.add(fact("Shared fact"));
+
+    assert.equal((await other.list()).total, 1);
+  }));
@@ -0,0 +1,12 @@
+// Points memory storage at a temporary directory, removed on exit. Import it
+// before any dist module: configuration is read once and cached.
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export const memoryDir = mkdtempSync(join(tmpdir(), "athena-memory-"));
+process.env.MEMORY_STORAGE_DIR = memoryDir;
+// The legacy store is migrated from the working directory; keep the
+// checkout's out of reach
+process.chdir(memoryDir);
+process.on("exit", () => rmSync(memoryDir, { recursive: true, force: true }));
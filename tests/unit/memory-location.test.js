@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join, resolve } from "path";
+import {
+  GLOBAL_MEMORY_DIR,
+  ThinkingMemorySystem,
+  resolveMemoryDirectory,
+} from "../../dist/memory/thinking-memory-system.js";
+
+async function withDirectory(run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-location-"));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+const context = (sessionId) => ({
+  sessionId,
+  techStack: "node",
+  problem: "cache invalidation",
+});
+
+test("keeps each project's memory under its root", () => {
+  assert.equal(
+    resolveMemoryDirectory("/work/app"),
+    resolve("/work/app", ".athena", "memory")
+  );
+  assert.equal(
+    resolveMemoryDirectory("relative/app"),
+    resolve("relative/app", ".athena", "memory")
+  );
+});
+
+test("falls back to the global directory without a project", () => {
+  assert.equal(resolveMemoryDirectory(), GLOBAL_MEMORY_DIR);
+  assert.equal(GLOBAL_MEMORY_DIR, join(homedir(), ".athena", "memory"));
+});
+
+test("the storage override wins over the project root", () => {
+  assert.equal(
+    resolveMemoryDirectory("/work/app", "/var/athena"),
+    resolve("/var/athena")
+  );
+});
+
+test("writes the journal into the given directory", () =>
+  withDirectory(async (directory) => {
+    const memory = new ThinkingMemorySystem({ directory });
+    await memory.createSession(context("located"));
+
+    assert.equal(existsSync(join(directory, "thinking-memory.jsonl")), true);
+    const reopened = new ThinkingMemorySystem({ directory });
+    assert.ok(await reopened.getSession("located"));
+  }));
+
+test("relevance threshold filters attempts on the 0-100 confidence scale", () =>
+  withDirectory(async (directory) => {
+    const memory = new ThinkingMemorySystem({ directory });
+    await memory.createSession(context("relevance"));
+    await memory.addValidationAttempt(
+      "relevance",
+      "impact_analysis",
+      {},
+      {},
+      90,
+      "confident"
+    );
+    await memory.addValidationAttempt(
+      "relevance",
+      "impact_analysis",
+      {},
+      {},
+      20,
+      "doubtful"
+    );
+
+    const relevant = await memory.getRelevantValidationHistory(
+      "relevance",
+      context("relevance")
+    );
+
+    assert.deepEqual(
+      relevant.map((attempt) => attempt.id),
+      ["confident"]
+    );
+  }));
+
+test("uses the configured relevance threshold", () =>
+  withDirectory(async (directory) => {
+    const memory = new ThinkingMemorySystem({
+      directory,
+      relevanceThreshold: 0.1,
+    });
+    await memory.createSession(context("lenient"));
+    await memory.addValidationAttempt(
+      "lenient",
+      "impact_analysis",
+      {},
+      {},
+      20,
+      "doubtful"
+    );
+
+    const relevant = await memory.getRelevantValidationHistory(
+      "lenient",
+      context("lenient")
+    );
+
+    assert.deepEqual(
+      relevant.map((attempt) => attempt.id),
+      ["doubtful"]
+    );
+  }));
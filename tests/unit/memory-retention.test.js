@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JournalMemoryStore } from "../../dist/memory/journal-memory-store.js";
+import { createEmptySession } from "../../dist/memory/memory-store.js";
+import { ThinkingMemorySystem } from "../../dist/memory/thinking-memory-system.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const policy = (overrides) => ({
+  maxAgeDays: 0,
+  maxSessions: 0,
+  maxBytes: 0,
+  keepTags: ["keep"],
+  ...overrides,
+});
+
+// Memory holding one session per entry, last updated the given days ago
+async function withSessions(entries, run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-retention-"));
+  try {
+    const store = new JournalMemoryStore(join(directory, "memory.jsonl"));
+    for (const { id, daysAgo, tags = [] } of entries) {
+      const at = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+      await store.putSession({ ...createEmptySession(id, at), tags });
+    }
+    await run(new ThinkingMemorySystem({ store }), store);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+const removedIds = (report) =>
+  report.removed.map(({ sessionId, reason }) => `${sessionId}:${reason}`);
+
+test("removes sessions past the maximum age", () =>
+  withSessions(
+    [
+      { id: "stale", daysAgo: 10 },
+      { id: "fresh", daysAgo: 1 },
+    ],
+    async (memory, store) => {
+      const report = await memory.cleanup(policy({ maxAgeDays: 7 }));
+
+      assert.deepEqual(removedIds(report), ["stale:max_age"]);
+      assert.equal(report.remainingSessions, 1);
+      assert.deepEqual(
+        (await store.listSessions()).map((session) => session.id),
+        ["fresh"]
+      );
+    }
+  ));
+
+test("removes the least recently updated sessions over the count limit", () =>
+  withSessions(
+    [
+      { id: "newest", daysAgo: 1 },
+      { id: "oldest", daysAgo: 3 },
+      { id: "middle", daysAgo: 2 },
+    ],
+    async (memory) => {
+      const report = await memory.cleanup(policy({ maxSessions: 1 }));
+
+      assert.deepEqual(removedIds(report), [
+        "oldest:max_sessions",
+        "middle:max_sessions",
+      ]);
+      assert.equal(report.remainingSessions, 1);
+    }
+  ));
+
+test("removes sessions until the total size fits", () =>
+  withSessions(
+    [
+      { id: "older", daysAgo: 2 },
+      { id: "newer", daysAgo: 1 },
+    ],
+    async (memory) => {
+      const before = await memory.cleanup(policy({}));
+      const report = await memory.cleanup(
+        policy({ maxBytes: before.remainingBytes - 1 })
+      );
+
+      assert.deepEqual(removedIds(report), ["older:max_bytes"]);
+      assert.ok(report.remainingBytes < before.remainingBytes);
+    }
+  ));
+
+test("never removes kept sessions, though they count toward the limits", () =>
+  withSessions(
+    [
+      { id: "pinned", daysAgo: 30, tags: ["keep"] },
+      { id: "old", daysAgo: 2 },
+      { id: "new", daysAgo: 1 },
+    ],
+    async (memory) => {
+      const report = await memory.cleanup(
+        policy({ maxAgeDays: 7, maxSessions: 2 })
+      );
+
+      assert.deepEqual(removedIds(report), ["old:max_sessions"]);
+      assert.equal(report.remainingSessions, 2);
+    }
+  ));
+
+test("reports removed sessions to change listeners", () =>
+  withSessions([{ id: "stale", daysAgo: 10 }], async (memory) => {
+    const changes = [];
+    memory.onChange((change) => changes.push(change));
+
+    await memory.cleanup(policy({ maxAgeDays: 7 }));
+
+    assert.deepEqual(changes, [
+      { type: "session_deleted", sessionId: "stale" },
+    ]);
+    assert.equal(await memory.getSession("stale"), undefined);
+  }));
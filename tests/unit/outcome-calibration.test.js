@@ -0,0 +1,159 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildCalibrationReport,
+  isGoAhead,
+} from "../../dist/memory/outcome-calibration.js";
+import { ThinkingMemorySystem } from "../../dist/memory/thinking-memory-system.js";
+
+let nextId = 0;
+
+const validated = (goAhead, confidence, status, provider = "openai") => ({
+  id: `a${nextId++}`,
+  timestamp: new Date().toISOString(),
+  tool: "thinking_validation",
+  request: {},
+  response: {
+    validation: { goAhead, confidence: confidence ?? 0, criticalIssues: [] },
+    metadata: { providerUsed: provider },
+  },
+  confidence,
+  outcome: status && { status, recordedAt: new Date().toISOString() },
+});
+
+test("reads the go-ahead per tool", () => {
+  assert.equal(isGoAhead(validated(true, 90)), true);
+  assert.equal(isGoAhead(validated(false, 90)), false);
+  assert.equal(
+    isGoAhead({ ...validated(true, 90), response: { error: "failed" } }),
+    false
+  );
+  assert.equal(
+    isGoAhead({
+      tool: "impact_analysis",
+      response: { impacts: { overallRisk: "medium" } },
+    }),
+    true
+  );
+  assert.equal(
+    isGoAhead({
+      tool: "impact_analysis",
+      response: { impacts: { overallRisk: "high" } },
+    }),
+    false
+  );
+  assert.equal(
+    isGoAhead({ tool: "dependency_mapper", response: {} }),
+    undefined
+  );
+});
+
+test("counts high-confidence go-aheads that caused regressions", () => {
+  const report = buildCalibrationReport([
+    validated(true, 90, "shipped"),
+    validated(true, 85, "regression"),
+    validated(true, 95, "abandoned"),
+    validated(true, 50, "regression"),
+    validated(false, 90, "regression"),
+  ]);
+
+  const [openai] = report.byProvider;
+  assert.equal(report.totalOutcomes, 5);
+  assert.equal(openai.key, "openai");
+  assert.equal(openai.shipped, 1);
+  assert.equal(openai.regressions, 3);
+  assert.equal(openai.abandoned, 1);
+  assert.equal(openai.averageConfidence, 82);
+  assert.equal(openai.highConfidenceGoAheads, 3);
+  assert.equal(openai.highConfidenceRegressions, 1);
+  // The abandoned change never landed
+  assert.equal(openai.highConfidenceWrongRate, 0.5);
+  assert.deepEqual(
+    report.byTool.map((bucket) => bucket.key),
+    ["thinking_validation"]
+  );
+});
+
+test("leaves out attempts that cannot be calibrated", () => {
+  const report = buildCalibrationReport([
+    validated(true, 90),
+    validated(true, undefined, "shipped"),
+    {
+      ...validated(true, 90, "shipped"),
+      tool: "dependency_mapper",
+      response: {},
+    },
+  ]);
+
+  assert.equal(report.totalOutcomes, 0);
+  assert.deepEqual(report.byProvider, []);
+});
+
+test("groups by provider and honors the threshold", () => {
+  const report = buildCalibrationReport(
+    [
+      validated(true, 70, "regression", "google"),
+      validated(true, 70, "shipped", "openai"),
+      validated(true, 70, "shipped", "openai"),
+    ],
+    60
+  );
+
+  assert.equal(report.highConfidenceThreshold, 60);
+  assert.deepEqual(
+    report.byProvider.map((bucket) => [
+      bucket.key,
+      bucket.highConfidenceWrongRate,
+    ]),
+    [
+      ["openai", 0],
+      ["google", 1],
+    ]
+  );
+  assert.equal(
+    buildCalibrationReport([validated(true, 95, "abandoned")]).byProvider[0]
+      .highConfidenceWrongRate,
+    undefined
+  );
+});
+
+test("stores outcomes with the attempt they report on", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "athena-outcome-"));
+  try {
+    const memory = new ThinkingMemorySystem({ directory });
+    const attemptId = await memory.addValidationAttempt(
+      "shipped-session",
+      "thinking_validation",
+      {},
+      validated(true, 90).response,
+      90
+    );
+
+    const recorded = await memory.recordOutcome(attemptId, {
+      status: "shipped",
+      recordedAt: new Date().toISOString(),
+    });
+    assert.equal(recorded.sessionId, "shipped-session");
+    assert.equal(recorded.attempt.outcome.status, "shipped");
+    assert.equal(
+      await memory.recordOutcome("missing", {
+        status: "shipped",
+        recordedAt: new Date().toISOString(),
+      }),
+      undefined
+    );
+
+    const reopened = new ThinkingMemorySystem({ directory });
+    const reported = await reopened.listReportedAttempts();
+    assert.deepEqual(
+      reported.map((attempt) => attempt.id),
+      [attemptId]
+    );
+    assert.equal(buildCalibrationReport(reported).totalOutcomes, 1);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
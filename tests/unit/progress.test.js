@@ -0,0 +1,93 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getProviderInstance } from "../../dist/unified-ai-service.js";
+import { getMetricsCollector } from "../../dist/utils/metrics-collector.js";
+
+test("reports stages and the streamed answer as progress", async () => {
+  const objectCalls = await stubModel(() => thinkingValidationResult());
+  const answer = JSON.stringify(
+    thinkingValidationResult({ recommendations: ["x".repeat(1200)] })
+  );
+  const provider = await getProviderInstance("openai");
+  provider.streamText = async () => ({
+    textStream: (async function* () {
+      for (let start = 0; start < answer.length; start += 100) {
+        yield answer.slice(start, start + 100);
+      }
+    })(),
+  });
+  const updates = [];
+
+  const response = await createValidator().validateThinking(
+    thinkingValidationRequest,
+    undefined,
+    undefined,
+    { onProgress: (update) => updates.push(update) }
+  );
+
+  assert.equal(response.validation.recommendations[0].length, 1200);
+  // The streamed answer parsed, so no structured call was needed
+  assert.equal(objectCalls.length, 0);
+  assert.deepEqual(
+    updates.map((update) => update.progress),
+    updates.map((_, index) => index + 1)
+  );
+  const messages = updates.map((update) => update.message);
+  assert.ok(messages.includes("Building prompt"));
+  assert.ok(messages.includes("Waiting for model response"));
+  assert.ok(
+    messages.some((message) => /^Receiving model response/.test(message))
+  );
+});
+
+test("falls back to a structured call when the stream breaks", async () => {
+  const objectCalls = await stubModel(() => thinkingValidationResult());
+  const provider = await getProviderInstance("openai");
+  provider.streamText = async () => ({
+    textStream: (async function* () {
+      yield '{"validation": ';
+      throw new Error("connection reset");
+    })(),
+  });
+
+  const response = await createValidator().validateThinking(
+    thinkingValidationRequest,
+    undefined,
+    undefined,
+    { onProgress: () => {} }
+  );
+
+  assert.equal(objectCalls.length, 1);
+  assert.equal(response.validation.goAhead, true);
+});
+
+test("a stream that reports an error and yields no text counts as a failed call", async () => {
+  const objectCalls = await stubModel(() => thinkingValidationResult());
+  const provider = await getProviderInstance("openai");
+  // AI SDK v5 reports the error to onError and ends textStream quietly
+  provider.streamText = async (params) => ({
+    textStream: (async function* () {
+      params.onError({ error: new Error("rate limited") });
+    })(),
+  });
+
+  const response = await createValidator().validateThinking(
+    thinkingValidationRequest,
+    undefined,
+    undefined,
+    { onProgress: () => {} }
+  );
+
+  assert.equal(objectCalls.length, 1);
+  assert.equal(response.validation.goAhead, true);
+  const metrics = getMetricsCollector().getProviderMetrics("openai");
+  // The failed stream, then the structured call that replaced it
+  assert.equal(metrics.totalRequests, 2);
+  assert.equal(metrics.failedRequests, 1);
+});
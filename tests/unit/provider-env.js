@@ -0,0 +1,10 @@
+// Configures OpenAI and Google with well-formed placeholder keys. Import it
+// before any dist module: configuration is read once and cached. Tests
+// replace the providers' calls, so nothing reaches the network.
+process.env.PROVIDER_SELECTION_PRIORITY = "openai,google";
+process.env.DEFAULT_LLM_PROVIDER = "openai";
+process.env.PROVIDER_FALLBACK_MAX_HOPS = "2";
+process.env.OPENAI_API_KEY = "sk-proj1234567890abcdefghijklmnop";
+process.env.OPENAI_MODEL_DEFAULT = "gpt-4o-mini";
+process.env.GOOGLE_API_KEY = "AIza1234567890abcdefghijklmnopqrstuvwx";
+process.env.GOOGLE_MODEL_DEFAULT = "gemini-2.5-flash";
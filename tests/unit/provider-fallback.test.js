@@ -0,0 +1,89 @@
+import "./provider-env.js";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import {
+  createProviderCallTrace,
+  generateObjectService,
+  getProviderInstance,
+} from "../../dist/unified-ai-service.js";
+import { initializeMetricsCollector } from "../../dist/utils/metrics-collector.js";
+
+const schema = z.object({ answer: z.string() });
+
+// API error as the provider SDKs raise it; the retry-after hint keeps the
+// backoff between retries at a millisecond
+function apiError(status) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    status,
+    retryAfter: 0.001,
+  });
+}
+
+async function stubProviders(behaviour) {
+  const calls = [];
+  for (const name of ["openai", "google"]) {
+    const provider = await getProviderInstance(name);
+    provider.generateObject = async () => {
+      calls.push(name);
+      return behaviour(name);
+    };
+  }
+  return calls;
+}
+
+beforeEach(() => {
+  initializeMetricsCollector();
+});
+
+test("falls back to the next provider after retryable failures", async () => {
+  const calls = await stubProviders((name) => {
+    if (name === "openai") throw apiError(503);
+    return { object: { answer: "from google" }, usage: {} };
+  });
+  const trace = createProviderCallTrace();
+
+  const result = await generateObjectService({ prompt: "q", schema, trace });
+
+  assert.equal(result.object.answer, "from google");
+  assert.deepEqual(calls, ["openai", "openai", "openai", "google"]);
+  assert.deepEqual(trace.providersTried, ["openai", "google"]);
+  assert.equal(trace.providerUsed, "google");
+  assert.deepEqual(
+    trace.failures.map((failure) => failure.provider),
+    ["openai"]
+  );
+  assert.equal(trace.retryAttempts, 2);
+});
+
+test("does not fall back on errors another provider would repeat", async () => {
+  const calls = await stubProviders(() => {
+    throw apiError(401);
+  });
+
+  await assert.rejects(generateObjectService({ prompt: "q", schema }));
+  assert.deepEqual(calls, ["openai"]);
+});
+
+test("never substitutes an explicit provider override", async () => {
+  const calls = await stubProviders(() => {
+    throw apiError(503);
+  });
+
+  await assert.rejects(
+    generateObjectService({ prompt: "q", schema, providerOverride: "google" })
+  );
+  assert.deepEqual(calls, ["google", "google", "google"]);
+});
+
+test("stops after the configured number of hops", async () => {
+  const calls = await stubProviders(() => {
+    throw apiError(503);
+  });
+
+  await assert.rejects(
+    generateObjectService({ prompt: "q", schema, maxFallbackHops: 0 }),
+    /HTTP 503/
+  );
+  assert.deepEqual(calls, ["openai", "openai", "openai"]);
+});
@@ -0,0 +1,105 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+const issue = (text, priority = "high") => ({
+  issue: text,
+  suggestion: "fix it",
+  priority,
+});
+
+const firstVerdict = () =>
+  thinkingValidationResult({
+    criticalIssues: [issue("No cache eviction policy", "medium")],
+  });
+
+// Answers the first pass with firstVerdict and the red team with redTeam
+function answers(redTeam) {
+  return (params) =>
+    params.objectName === "red_team" ? redTeam(params) : firstVerdict();
+}
+
+const redTeamCalls = (calls) =>
+  calls.filter((call) => call.objectName === "red_team");
+
+test("high urgency adds what the first pass missed", async () => {
+  const calls = await stubModel(
+    answers(() => ({
+      missedIssues: [
+        issue("Cache has no eviction policy"),
+        issue("Concurrent misses stampede the database"),
+      ],
+    }))
+  );
+  const validator = createValidator();
+
+  const result = await validator.validateThinking(
+    { ...thinkingValidationRequest, urgency: "high" },
+    "red-team-high"
+  );
+
+  const [redTeam] = redTeamCalls(calls);
+  assert.match(
+    redTeam.messages.at(-1).content,
+    /First verdict:[\s\S]*No cache eviction policy/
+  );
+  assert.deepEqual(result.validation.criticalIssues, [
+    issue("No cache eviction policy", "medium"),
+    {
+      ...issue("Concurrent misses stampede the database"),
+      source: "red_team",
+    },
+  ]);
+  assert.deepEqual(result.metadata.redTeam, { findings: 1 });
+});
+
+test("lower urgency skips the pass unless asked for", async () => {
+  const calls = await stubModel(answers(() => ({ missedIssues: [] })));
+  const validator = createValidator();
+
+  const skipped = await validator.validateThinking(
+    thinkingValidationRequest,
+    "red-team-low"
+  );
+  assert.equal(redTeamCalls(calls).length, 0);
+  assert.equal(skipped.metadata.redTeam, undefined);
+
+  const requested = await validator.validateThinking(
+    { ...thinkingValidationRequest, redTeam: true },
+    "red-team-requested"
+  );
+  assert.equal(redTeamCalls(calls).length, 1);
+  assert.deepEqual(requested.metadata.redTeam, { findings: 0 });
+
+  await validator.validateThinking(
+    { ...thinkingValidationRequest, urgency: "high", redTeam: false },
+    "red-team-declined"
+  );
+  assert.equal(redTeamCalls(calls).length, 1);
+});
+
+test("a failed pass keeps the first verdict", async () => {
+  await stubModel(
+    answers(() => {
+      throw new Error("red team unavailable");
+    })
+  );
+  const validator = createValidator();
+
+  const result = await validator.validateThinking(
+    { ...thinkingValidationRequest, urgency: "high" },
+    "red-team-failed"
+  );
+
+  assert.deepEqual(
+    result.validation.criticalIssues,
+    firstVerdict().validation.criticalIssues
+  );
+  assert.equal(result.metadata.redTeam.findings, 0);
+  assert.match(result.metadata.redTeam.error, /red team unavailable/);
+});
@@ -0,0 +1,97 @@
+import {
+  createValidator,
+  hangUntilAborted,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DependencyMapperResponseSchema,
+  ThinkingOptimizerResponseSchema,
+  ThinkingValidationResponseSchema,
+} from "../../dist/types/thinking-validation-schemas.js";
+import { StructuredOutputError } from "../../dist/utils/structured-output.js";
+
+// Tool results carry the response as structuredContent, which clients check
+// against the tool's outputSchema
+function assertMatches(schema, response) {
+  const result = schema.safeParse(response);
+  assert.ok(result.success, JSON.stringify(result.error?.issues));
+}
+
+test("successful responses match their output schemas", async () => {
+  await stubModel((params) => {
+    switch (params.objectName) {
+      case "thinking_validation":
+        return thinkingValidationResult({
+          criticalIssues: [
+            { issue: "No eviction", suggestion: "Bound it", priority: "high" },
+          ],
+        });
+      case "dependency_mapper":
+        return {
+          dependencies: {
+            critical: [{ dependency: "db", impact: "reads", action: "test" }],
+            secondary: [],
+            testFocus: ["cache misses"],
+          },
+        };
+      default:
+        return {
+          optimizedStrategy: {
+            approach: "measure first",
+            toolsToUse: ["grep"],
+            timeAllocation: {
+              thinking: "10%",
+              implementation: "60%",
+              testing: "30%",
+            },
+            successProbability: 70,
+            keyFocus: "latency",
+          },
+        };
+    }
+  });
+  const validator = createValidator();
+
+  assertMatches(
+    ThinkingValidationResponseSchema,
+    await validator.validateThinking(thinkingValidationRequest)
+  );
+  assertMatches(
+    DependencyMapperResponseSchema,
+    await validator.mapDependencies({
+      change: { description: "Add a cache", files: ["src/user.ts"] },
+    })
+  );
+  assertMatches(
+    ThinkingOptimizerResponseSchema,
+    await validator.optimizeThinking({
+      problemType: "refactor",
+      complexity: "moderate",
+      timeConstraint: "moderate",
+      currentApproach: "Profile, then cache",
+    })
+  );
+});
+
+test("timeouts and unusable model output are reported as schema-valid errors", async () => {
+  await stubModel(hangUntilAborted);
+  const timedOut = await createValidator({
+    timeoutThinkingValidationMs: 20,
+  }).validateThinking(thinkingValidationRequest);
+  assertMatches(ThinkingValidationResponseSchema, timedOut);
+  assert.equal(timedOut.validation, undefined);
+
+  await stubModel(() => {
+    throw new StructuredOutputError("goAhead: Required", "{}");
+  });
+  const unparsed = await createValidator().validateThinking(
+    thinkingValidationRequest
+  );
+  assertMatches(ThinkingValidationResponseSchema, unparsed);
+  assert.equal(unparsed.error.parseFailed, true);
+  assert.equal(unparsed.validation, undefined);
+});
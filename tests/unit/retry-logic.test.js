@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_RETRY_CONFIG,
+  NonRetryableError,
+  RetryableError,
+  getErrorStatusCode,
+  getRetryAfterSeconds,
+  isRetryableError,
+  withRetry,
+} from "../../dist/utils/retry-logic.js";
+
+const fastRetries = { ...DEFAULT_RETRY_CONFIG, baseDelay: 1, maxDelay: 5 };
+
+function failingTimes(count, error) {
+  let calls = 0;
+  const operation = async () => {
+    calls++;
+    if (calls <= count) throw error();
+    return "done";
+  };
+  return { operation, calls: () => calls };
+}
+
+test("retries transient failures until the call succeeds", async () => {
+  const { operation, calls } = failingTimes(2, () =>
+    Object.assign(new Error("Service Unavailable"), { status: 503 })
+  );
+
+  assert.equal(await withRetry(operation, fastRetries), "done");
+  assert.equal(calls(), 3);
+});
+
+test("rethrows non-retryable errors without retrying", async () => {
+  const { operation, calls } = failingTimes(5, () =>
+    Object.assign(new Error("Unauthorized"), { status: 401 })
+  );
+
+  await assert.rejects(withRetry(operation, fastRetries), /Unauthorized/);
+  assert.equal(calls(), 1);
+});
+
+test("gives up after maxAttempts with the attempts recorded", async () => {
+  const { operation, calls } = failingTimes(5, () => new Error("ETIMEDOUT"));
+
+  await assert.rejects(withRetry(operation, fastRetries, "call"), (error) => {
+    assert.ok(error instanceof RetryableError);
+    assert.match(error.message, /call failed after 3 attempts: ETIMEDOUT/);
+    assert.equal(error.attempts.length, 3);
+    return true;
+  });
+  assert.equal(calls(), 3);
+});
+
+test("classifies errors through the errors they wrap", () => {
+  const wrapped = new Error("API call failed", {
+    cause: Object.assign(new Error("Too Many Requests"), { statusCode: 429 }),
+  });
+
+  assert.equal(getErrorStatusCode(wrapped), 429);
+  assert.equal(isRetryableError(wrapped, DEFAULT_RETRY_CONFIG), true);
+  assert.equal(
+    isRetryableError(
+      new Error("outer", { cause: new NonRetryableError("aborted", 503) }),
+      DEFAULT_RETRY_CONFIG
+    ),
+    false
+  );
+  assert.equal(
+    isRetryableError(new Error("invalid prompt"), DEFAULT_RETRY_CONFIG),
+    false
+  );
+});
+
+test("reads retry-after hints as seconds or HTTP dates", () => {
+  assert.equal(
+    getRetryAfterSeconds({ responseHeaders: { "retry-after": "7" } }),
+    7
+  );
+
+  const date = new Date(Date.now() + 30_000).toUTCString();
+  const seconds = getRetryAfterSeconds(
+    new Error("wrapper", {
+      cause: { responseHeaders: { "Retry-After": date } },
+    })
+  );
+  assert.ok(seconds > 25 && seconds <= 30);
+
+  assert.equal(getRetryAfterSeconds(new Error("no hint")), undefined);
+});
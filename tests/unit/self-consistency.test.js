@@ -0,0 +1,173 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  attemptConfidence,
+  measureConsistency,
+} from "../../dist/core/self-consistency.js";
+import { toolResponseAccessors } from "../../dist/types/tool-responses.js";
+
+const validation = (goAhead, issues, confidence = 60) =>
+  thinkingValidationResult({
+    goAhead,
+    confidence,
+    criticalIssues: issues.map((issue) => ({
+      issue,
+      suggestion: "fix it",
+      priority: "medium",
+    })),
+  });
+
+const impacts = (overallRisk, risks) => ({
+  impacts: {
+    overallRisk,
+    affectedAreas: [],
+    cascadingRisks: risks.map((risk) => ({ risk, probability: "low" })),
+    quickTests: [],
+  },
+});
+
+test("measures how often the verdict and findings reproduce", () => {
+  const { report, representative } = measureConsistency(
+    "thinking_validation",
+    [
+      validation(false, ["No eviction policy"], 90),
+      validation(true, ["No eviction policy"], 70),
+      validation(true, ["Stale reads"], 75),
+    ],
+    0.7,
+    0.6
+  );
+
+  assert.equal(representative, 1);
+  assert.deepEqual(report, {
+    samples: 3,
+    temperature: 0.7,
+    // Mean of 2/3 verdict agreement and (2/3 + 1/3) / 2 finding agreement
+    confidence: 58,
+    verdictAgreement: 0.67,
+    findingAgreement: 0.5,
+    modelConfidence: 70,
+  });
+});
+
+test("identical samples are fully consistent", () => {
+  const { report } = measureConsistency(
+    "impact_analysis",
+    [impacts("low", ["Stale data"]), impacts("low", ["Stale data"])],
+    0.7,
+    0.6
+  );
+
+  assert.equal(report.confidence, 100);
+  assert.equal(report.modelConfidence, undefined);
+});
+
+test("tools without a verdict are measured on findings alone", () => {
+  const { report } = measureConsistency(
+    "dependency_mapper",
+    [
+      { dependencies: { critical: [{ dependency: "redis" }] } },
+      { dependencies: { critical: [] } },
+    ],
+    0.7,
+    0.6
+  );
+
+  assert.equal(report.verdictAgreement, undefined);
+  assert.equal(report.confidence, 50);
+});
+
+test("stores the best confidence estimate available", () => {
+  const consistency = { confidence: 42 };
+
+  assert.equal(
+    attemptConfidence("thinking_validation", validation(true, []), consistency),
+    42
+  );
+  assert.equal(
+    attemptConfidence("thinking_validation", validation(true, [], 65)),
+    65
+  );
+  assert.equal(
+    attemptConfidence("impact_analysis", {
+      ...impacts("low", []),
+      consensus: { agreement: 0.875 },
+    }),
+    88
+  );
+  assert.equal(
+    attemptConfidence("impact_analysis", impacts("low", [])),
+    undefined
+  );
+  assert.equal(
+    attemptConfidence("thinking_validation", { error: { message: "x" } }),
+    0
+  );
+});
+
+test("reads each tool's response fields defensively", () => {
+  const validationFields = toolResponseAccessors("thinking_validation");
+  assert.equal(validationFields.goAhead(undefined), false);
+  assert.deepEqual(validationFields.findings({}), []);
+  assert.equal(validationFields.outcome(undefined), undefined);
+  assert.equal(
+    validationFields.outcome(validation(true, [], 65)),
+    "go ahead (confidence 65)"
+  );
+
+  const impactFields = toolResponseAccessors("impact_analysis");
+  assert.equal(impactFields.verdict(impacts("high", [])), "high");
+  assert.deepEqual(impactFields.issues(impacts("low", ["Stale data"])), [
+    "Stale data",
+  ]);
+
+  assert.equal(toolResponseAccessors("dependency_mapper").goAhead, undefined);
+  assert.equal(toolResponseAccessors("session_management"), undefined);
+});
+
+test("samples the provider and stores the empirical confidence", async () => {
+  let call = 0;
+  const calls = await stubModel(() =>
+    validation(call++ < 2, ["No eviction policy"], 95)
+  );
+  const validator = createValidator();
+
+  const result = await validator.validateThinking(
+    {
+      ...thinkingValidationRequest,
+      selfConsistency: { samples: 3, temperature: 0.9 },
+    },
+    "sampled"
+  );
+
+  assert.equal(calls.length, 3);
+  assert.ok(calls.every((entry) => entry.temperature === 0.9));
+  assert.equal(result.validation.goAhead, true);
+  // Mean of 2/3 verdict agreement and full finding agreement
+  assert.equal(result.validation.confidence, 83);
+  assert.equal(result.metadata.selfConsistency.modelConfidence, 95);
+  const session = await validator.getSession("sampled");
+  assert.equal(session.validationHistory[0].confidence, 83);
+});
+
+test("stores no made-up confidence for impact analysis", async () => {
+  await stubModel(() => impacts("medium", ["Stale data"]));
+  const validator = createValidator();
+
+  await validator.analyzeImpact(
+    {
+      change: { description: "Add an LRU cache in front of getUser" },
+      systemContext: {},
+    },
+    "unsampled-impact"
+  );
+
+  const session = await validator.getSession("unsampled-impact");
+  assert.equal(session.validationHistory[0].confidence, undefined);
+});
@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  describeAttemptOutcome,
+  summarizeAttempts,
+  trackOpenIssues,
+} from "../../dist/memory/session-summarizer.js";
+import { truncatePayload } from "../../dist/memory/memory-store.js";
+import { ThinkingMemorySystem } from "../../dist/memory/thinking-memory-system.js";
+
+let clock = Date.parse("2026-01-01T00:00:00.000Z");
+
+const validation = (id, issues, goAhead = false) => ({
+  id,
+  timestamp: new Date(clock++).toISOString(),
+  tool: "thinking_validation",
+  request: { proposedChange: { description: "Add a read-through cache" } },
+  response: {
+    validation: {
+      goAhead,
+      confidence: 70,
+      criticalIssues: issues.map((issue) => ({ issue })),
+    },
+  },
+  confidence: 70,
+});
+
+async function withMemory(options, run) {
+  const directory = await mkdtemp(join(tmpdir(), "athena-compaction-"));
+  try {
+    await run(new ThinkingMemorySystem({ directory, ...options }));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function addAttempts(memory, sessionId, count) {
+  for (let index = 1; index <= count; index++) {
+    const attempt = validation(`a${index}`, [`issue ${index}`]);
+    attempt.request.fileContent = "x".repeat(100);
+    await memory.addValidationAttempt(
+      sessionId,
+      attempt.tool,
+      attempt.request,
+      attempt.response,
+      attempt.confidence,
+      attempt.id
+    );
+  }
+}
+
+test("the latest attempt of a tool decides its open issues", () => {
+  const open = trackOpenIssues(
+    [
+      { tool: "impact_analysis", issue: "Migration order" },
+      { tool: "thinking_validation", issue: "Old issue" },
+    ],
+    [
+      validation("a1", ["Stale reads"]),
+      validation("a2", ["No eviction"]),
+      { ...validation("a3", ["Ignored"]), response: { error: "timed out" } },
+    ]
+  );
+
+  assert.deepEqual(open, [
+    { tool: "impact_analysis", issue: "Migration order" },
+    { tool: "thinking_validation", issue: "No eviction" },
+  ]);
+});
+
+test("issue tracking wins over the reported issues", () => {
+  const attempt = validation("a1", ["Stale reads", "No eviction"]);
+  attempt.response.issueTracking = {
+    resolved: ["Stale reads"],
+    stillOpen: ["No eviction"],
+    new: ["No metrics"],
+  };
+
+  assert.deepEqual(
+    trackOpenIssues([], [attempt]).map(({ issue }) => issue),
+    ["No eviction", "No metrics"]
+  );
+});
+
+test("describes what an attempt asked and concluded", () => {
+  assert.equal(
+    describeAttemptOutcome(validation("a1", [], true)),
+    "thinking_validation: Add a read-through cache -> go ahead (confidence 70)"
+  );
+  assert.equal(
+    describeAttemptOutcome({
+      ...validation("a2", []),
+      response: { error: "timed out" },
+    }),
+    "thinking_validation: Add a read-through cache -> failed"
+  );
+});
+
+test("folds attempts into the previous digest", async () => {
+  const first = await summarizeAttempts(undefined, [
+    validation("a1", ["Stale reads"]),
+  ]);
+  const second = await summarizeAttempts(first, [
+    validation("a2", ["No eviction"]),
+    validation("a3", ["No eviction"]),
+  ]);
+
+  assert.equal(second.attemptsCondensed, 3);
+  assert.equal(second.summary.split("\n").length, 2);
+  assert.match(second.summary, /2 attempt\(s\) \(thinking_validation x2\)/);
+  assert.equal(second.decisions.length, 3);
+  assert.deepEqual(second.openIssues, [
+    { tool: "thinking_validation", issue: "No eviction" },
+  ]);
+});
+
+test("truncates every string in a payload", () => {
+  assert.deepEqual(truncatePayload({ text: "abcdef", list: ["ab"], n: 1 }, 3), {
+    text: "abc... [3 characters truncated]",
+    list: ["ab"],
+    n: 1,
+  });
+});
+
+test("condenses older attempts once the threshold is crossed", () =>
+  withMemory(
+    {
+      maxShortTermEntries: 4,
+      compressionThreshold: 0.5,
+      condensedPayloads: { mode: "truncate", maxChars: 10 },
+    },
+    async (memory) => {
+      await addAttempts(memory, "long", 3);
+
+      const session = await memory.getSession("long");
+      const condensed = session.validationHistory.filter(
+        (attempt) => attempt.condensed
+      );
+
+      assert.deepEqual(
+        condensed.map((attempt) => attempt.id),
+        ["a1", "a2"]
+      );
+      assert.match(condensed[0].request.fileContent, /^x{10}\.\.\. \[90/);
+      assert.equal(session.digest.attemptsCondensed, 2);
+      assert.deepEqual(session.digest.openIssues, [
+        { tool: "thinking_validation", issue: "issue 2" },
+      ]);
+    }
+  ));
+
+test("drops condensed attempts when the policy says so", () =>
+  withMemory(
+    {
+      maxShortTermEntries: 4,
+      compressionThreshold: 0.5,
+      condensedPayloads: { mode: "drop", maxChars: 10 },
+    },
+    async (memory) => {
+      await addAttempts(memory, "dropped", 3);
+
+      const session = await memory.getSession("dropped");
+
+      assert.deepEqual(
+        session.validationHistory.map((attempt) => attempt.id),
+        ["a3"]
+      );
+      assert.equal(session.digest.attemptsCondensed, 2);
+    }
+  ));
+
+test("uses a custom summarizer", () =>
+  withMemory(
+    {
+      maxShortTermEntries: 4,
+      compressionThreshold: 0.5,
+      summarizer: async (previous, attempts) => ({
+        ...(await summarizeAttempts(previous, attempts)),
+        summary: `custom: ${attempts.length}`,
+      }),
+    },
+    async (memory) => {
+      await addAttempts(memory, "custom", 3);
+
+      const session = await memory.getSession("custom");
+
+      assert.equal(session.digest.summary, "custom: 2");
+    }
+  ));
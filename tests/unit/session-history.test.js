@@ -0,0 +1,92 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+const issue = (text) => ({
+  issue: text,
+  suggestion: "fix it",
+  priority: "high",
+});
+
+// Answers the n-th call with the n-th result
+function answers(...results) {
+  let call = 0;
+  return () => results[Math.min(call++, results.length - 1)];
+}
+
+const promptOf = (call) => call.messages.at(-1).content;
+
+test("later attempts see earlier ones and track their issues", async () => {
+  const calls = await stubModel(
+    answers(
+      thinkingValidationResult({
+        criticalIssues: [issue("No eviction policy"), issue("Stale reads")],
+      }),
+      thinkingValidationResult({
+        criticalIssues: [issue("stale reads"), issue("No metrics")],
+      })
+    )
+  );
+  const validator = createValidator();
+
+  const first = await validator.validateThinking(
+    thinkingValidationRequest,
+    "history-compare"
+  );
+  const second = await validator.validateThinking(
+    thinkingValidationRequest,
+    "history-compare"
+  );
+
+  assert.deepEqual(first.issueTracking.new, [
+    "No eviction policy",
+    "Stale reads",
+  ]);
+  assert.doesNotMatch(promptOf(calls[0]), /Session History/);
+  assert.match(promptOf(calls[1]), /Session History/);
+  assert.match(
+    promptOf(calls[1]),
+    /Previously Reported Issues[\s\S]*1\. No eviction policy\n2\. Stale reads/
+  );
+  assert.deepEqual(second.issueTracking, {
+    resolved: ["No eviction policy"],
+    stillOpen: ["Stale reads"],
+    new: ["No metrics"],
+  });
+});
+
+test("the model's own classification wins, limited to earlier issues", async () => {
+  await stubModel(
+    answers(
+      thinkingValidationResult({
+        criticalIssues: [issue("No eviction policy"), issue("Stale reads")],
+      }),
+      {
+        ...thinkingValidationResult({ criticalIssues: [issue("Stale reads")] }),
+        issueTracking: {
+          resolved: ["no eviction policy", "Something never reported"],
+          stillOpen: [],
+          new: [],
+        },
+      }
+    )
+  );
+  const validator = createValidator();
+
+  await validator.validateThinking(thinkingValidationRequest, "history-model");
+  const second = await validator.validateThinking(
+    thinkingValidationRequest,
+    "history-model"
+  );
+
+  assert.deepEqual(second.issueTracking, {
+    resolved: ["No eviction policy"],
+    stillOpen: ["Stale reads"],
+    new: [],
+  });
+});
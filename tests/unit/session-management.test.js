@@ -0,0 +1,91 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+test("creates, updates and deletes sessions", async () => {
+  const validator = createValidator();
+
+  const created = await validator.createSession("crud", {
+    title: "Cache work",
+    tags: ["crud"],
+  });
+  assert.equal(created.status, "open");
+  await assert.rejects(validator.createSession("crud"), /already exists/);
+
+  const updated = await validator.updateSession("crud", {
+    status: "closed",
+    tags: ["crud", "perf"],
+  });
+  assert.equal(updated.title, "Cache work");
+  assert.equal(updated.status, "closed");
+  assert.deepEqual((await validator.getSession("crud")).tags, ["crud", "perf"]);
+
+  assert.equal(await validator.deleteSession("crud"), true);
+  assert.equal(await validator.getSession("crud"), null);
+  assert.equal(await validator.deleteSession("crud"), false);
+  assert.equal(await validator.updateSession("crud", { title: "x" }), null);
+});
+
+test("a created session records each attempt once", async () => {
+  await stubModel(() => thinkingValidationResult());
+  const validator = createValidator();
+  await validator.createSession("created-first");
+
+  await validator.validateThinking(thinkingValidationRequest, "created-first");
+  await validator.validateThinking(thinkingValidationRequest, "created-first");
+
+  const session = await validator.getSession("created-first");
+  assert.equal(session.validationHistory.length, 2);
+  assert.notEqual(
+    session.validationHistory[0].id,
+    session.validationHistory[1].id
+  );
+});
+
+test("lists sessions newest first with filters and pages", async () => {
+  const validator = createValidator();
+  for (const id of ["list-1", "list-2", "list-3", "list-4"]) {
+    await validator.createSession(id, { tags: ["listing"] });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  await validator.updateSession("list-2", { archived: true });
+  await validator.updateSession("list-3", { status: "closed" });
+
+  const first = await validator.listSessions({ tag: "listing", limit: 2 });
+  assert.deepEqual(
+    first.sessions.map((session) => session.id),
+    ["list-4", "list-3"]
+  );
+  assert.equal(first.total, 3);
+  assert.equal(first.nextOffset, 2);
+
+  const rest = await validator.listSessions({
+    tag: "listing",
+    offset: first.nextOffset,
+  });
+  assert.deepEqual(
+    rest.sessions.map((session) => session.id),
+    ["list-1"]
+  );
+  assert.equal(rest.nextOffset, undefined);
+
+  const closed = await validator.listSessions({
+    tag: "listing",
+    status: "closed",
+  });
+  assert.deepEqual(
+    closed.sessions.map((session) => session.id),
+    ["list-3"]
+  );
+
+  const withArchived = await validator.listSessions({
+    tag: "listing",
+    includeArchived: true,
+  });
+  assert.equal(withArchived.total, 4);
+});
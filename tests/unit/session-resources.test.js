@@ -0,0 +1,96 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerSessionResources } from "../../dist/session-resources.js";
+
+async function connect(validator) {
+  const server = new Server(
+    { name: "test", version: "1.0.0" },
+    { capabilities: { resources: { subscribe: true, listChanged: true } } }
+  );
+  registerSessionResources(server, validator);
+  const client = new Client({ name: "client", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+test("lists sessions and reads them with their attempts", async () => {
+  await stubModel(() => thinkingValidationResult());
+  const validator = createValidator();
+  await validator.createSession("resources-read", { title: "Cache work" });
+  const response = await validator.validateThinking(
+    thinkingValidationRequest,
+    "resources-read"
+  );
+  const client = await connect(validator);
+
+  const { resources } = await client.listResources();
+  const listed = resources.find(
+    (resource) => resource.uri === "athena://sessions/resources-read"
+  );
+  assert.equal(listed.title, "Cache work");
+
+  const session = JSON.parse(
+    (await client.readResource({ uri: listed.uri })).contents[0].text
+  );
+  assert.equal(session.attempts.length, 1);
+  assert.equal(session.attempts[0].tool, "thinking_validation");
+
+  const attempt = JSON.parse(
+    (await client.readResource({ uri: session.attempts[0].uri })).contents[0]
+      .text
+  );
+  assert.equal(attempt.id, response.metadata.attemptId);
+  assert.equal(attempt.response.validation.goAhead, true);
+
+  await client.close();
+});
+
+test("reports unknown resources as errors", async () => {
+  const client = await connect(createValidator());
+
+  await assert.rejects(
+    client.readResource({ uri: "athena://sessions/missing" }),
+    { code: -32002 }
+  );
+  await assert.rejects(client.readResource({ uri: "file:///etc/passwd" }), {
+    code: -32602,
+  });
+
+  await client.close();
+});
+
+test("notifies subscribers when an attempt is added to their session", async () => {
+  await stubModel(() => thinkingValidationResult());
+  const validator = createValidator();
+  await validator.createSession("resources-subscribed");
+  const client = await connect(validator);
+  const updated = new Promise((resolve) =>
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (note) =>
+      resolve(note.params.uri)
+    )
+  );
+
+  await client.subscribeResource({
+    uri: "athena://sessions/resources-subscribed",
+  });
+  await validator.validateThinking(
+    thinkingValidationRequest,
+    "resources-subscribed"
+  );
+
+  assert.equal(await updated, "athena://sessions/resources-subscribed");
+  await client.close();
+});
@@ -0,0 +1,87 @@
+import "./provider-env.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import {
+  parseStructuredOutput,
+  StructuredOutputError,
+} from "../../dist/utils/structured-output.js";
+import {
+  generateObjectService,
+  getProviderInstance,
+} from "../../dist/unified-ai-service.js";
+
+const schema = z.object({ goAhead: z.boolean(), issues: z.array(z.string()) });
+
+test("parses an object wrapped in prose and code fences", () => {
+  const result = parseStructuredOutput(
+    'Here it is:\n```json\n{"goAhead": true, "issues": []}\n```\nDone.',
+    schema
+  );
+
+  assert.deepEqual(result, {
+    success: true,
+    data: { goAhead: true, issues: [] },
+    repaired: false,
+  });
+});
+
+test("repairs malformed and truncated JSON", () => {
+  const result = parseStructuredOutput(
+    "{goAhead: false, 'issues': ['missing test',",
+    schema
+  );
+
+  assert.equal(result.success, true);
+  assert.equal(result.repaired, true);
+  assert.deepEqual(result.data, { goAhead: false, issues: ["missing test"] });
+});
+
+test("reports schema violations and missing objects", () => {
+  const mismatch = parseStructuredOutput('{"goAhead": "yes"}', schema);
+  assert.equal(mismatch.success, false);
+  assert.match(mismatch.error, /does not match schema: goAhead/);
+
+  const missing = parseStructuredOutput("no object here", schema);
+  assert.deepEqual(missing, {
+    success: false,
+    error: "No JSON object found in response",
+  });
+});
+
+test("re-asks the provider when its output cannot be used", async () => {
+  const provider = await getProviderInstance("openai");
+  const prompts = [];
+  provider.generateObject = async (params) => {
+    prompts.push(params.messages);
+    if (prompts.length === 1) {
+      throw new StructuredOutputError("goAhead: Required", '{"issues": []}');
+    }
+    return { object: { goAhead: true, issues: [] }, usage: {} };
+  };
+
+  const result = await generateObjectService({ prompt: "Validate", schema });
+
+  assert.equal(result.attempts, 2);
+  assert.deepEqual(result.object, { goAhead: true, issues: [] });
+  assert.deepEqual(
+    prompts[1].slice(-2).map((message) => message.role),
+    ["assistant", "user"]
+  );
+  assert.match(prompts[1].at(-1).content, /goAhead: Required/);
+});
+
+test("gives up after the allowed re-asks", async () => {
+  const provider = await getProviderInstance("openai");
+  let calls = 0;
+  provider.generateObject = async () => {
+    calls++;
+    throw new StructuredOutputError("not JSON", "sorry");
+  };
+
+  await assert.rejects(
+    generateObjectService({ prompt: "Validate", schema, maxReasks: 2 }),
+    (error) => error instanceof StructuredOutputError && error.attempts === 3
+  );
+  assert.equal(calls, 3);
+});
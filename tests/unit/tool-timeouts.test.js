@@ -0,0 +1,121 @@
+import {
+  createValidator,
+  hangUntilAborted,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ToolCallingService } from "../../dist/services/tool-calling-service.js";
+import { loadToolCallingConfig } from "../../dist/config-manager.js";
+import {
+  DEFAULT_RETRY_CONFIG,
+  withRetry,
+} from "../../dist/utils/retry-logic.js";
+
+test("a run past its timeout returns an error naming the stage and aborts the model call", async () => {
+  const validator = createValidator({ timeoutThinkingValidationMs: 50 });
+  // Load config, providers and memory first, so the timeout cannot fire
+  // before the run gets to the model
+  await stubModel(() => thinkingValidationResult());
+  await validator.validateThinking(thinkingValidationRequest);
+  const calls = await stubModel(hangUntilAborted);
+
+  const response = await validator.validateThinking(thinkingValidationRequest);
+
+  assert.equal(response.error.timedOut, true);
+  assert.equal(response.error.stage, "llm");
+  assert.equal(response.error.timeoutMs, 50);
+  assert.match(
+    response.error.message,
+    /timed out after 50ms during the LLM call/
+  );
+  assert.equal(calls[0].abortSignal.aborted, true);
+});
+
+test("tools without a timeout run to completion", async () => {
+  await stubModel(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    return {
+      validation: {
+        validAssumptions: ["a"],
+        riskyAssumptions: [],
+        quickVerifications: [],
+      },
+    };
+  });
+  const validator = createValidator({ timeoutAssumptionCheckerMs: 0 });
+
+  const response = await validator.checkAssumptions({
+    assumptions: ["Input is validated upstream"],
+    context: { component: "api", environment: "production" },
+  });
+
+  assert.equal(response.error, undefined);
+  assert.deepEqual(response.validation.validAssumptions, ["a"]);
+});
+
+test("file reads stop once the run is aborted", async () => {
+  const root = await mkdtemp(join(tmpdir(), "athena-read-"));
+  try {
+    await writeFile(join(root, "a.ts"), "export const a = 1;\n");
+    const service = new ToolCallingService({
+      readFile: { enabled: true },
+      grep: { enabled: true },
+      listFiles: { enabled: true },
+      writeToFile: { enabled: false },
+      replaceInFile: { enabled: false },
+      executeCommand: { enabled: false },
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await service.readFileWithMode(
+      { path: join(root, "a.ts"), mode: "full" },
+      controller.signal
+    );
+
+    assert.equal(result.success, false);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("aborting ends a pending retry backoff", async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(
+    withRetry(
+      async () => {
+        throw Object.assign(new Error("HTTP 503"), { status: 503 });
+      },
+      { ...DEFAULT_RETRY_CONFIG, baseDelay: 10_000 },
+      "call",
+      undefined,
+      controller.signal
+    ),
+    { name: "AbortError" }
+  );
+  assert.ok(Date.now() - started < 5_000);
+});
+
+test("full_review gets the same default budget from the service and the config", () => {
+  delete process.env.TOOL_TIMEOUT_FULL_REVIEW_MS;
+  const service = new ToolCallingService({
+    readFile: { enabled: true },
+    grep: { enabled: true },
+    listFiles: { enabled: true },
+    writeToFile: { enabled: false },
+    replaceInFile: { enabled: false },
+    executeCommand: { enabled: false },
+  });
+
+  assert.equal(service.getToolTimeoutMs("full_review"), 600000);
+  assert.equal(loadToolCallingConfig().timeoutFullReviewMs, 600000);
+});
@@ -0,0 +1,218 @@
+import {
+  createValidator,
+  stubModel,
+  thinkingValidationRequest,
+  thinkingValidationResult,
+} from "./fake-llm.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DiffParseError,
+  checkDiffFile,
+  diffAnalysisTargets,
+  formatDiffSection,
+  parseUnifiedDiff,
+} from "../../dist/utils/unified-diff.js";
+
+const source = ["one", "two", "three", "four", "five", "six"].join("\n") + "\n";
+
+const gitDiff = `diff --git a/src/numbers.ts b/src/numbers.ts
+index 1111111..2222222 100644
+--- a/src/numbers.ts
++++ b/src/numbers.ts
+@@ -2,3 +2,3 @@ export
+ two
+-three
++THREE
+ four
+`;
+
+const hunk = (oldStart, lines, oldLines = 1) => ({
+  oldStart,
+  oldLines,
+  newStart: oldStart,
+  newLines: oldLines,
+  header: `@@ -${oldStart},${oldLines} +${oldStart},${oldLines} @@`,
+  lines,
+});
+
+test("parses git diffs", () => {
+  assert.deepEqual(parseUnifiedDiff(gitDiff), [
+    {
+      oldPath: "src/numbers.ts",
+      newPath: "src/numbers.ts",
+      hunks: [
+        {
+          oldStart: 2,
+          oldLines: 3,
+          newStart: 2,
+          newLines: 3,
+          header: "@@ -2,3 +2,3 @@",
+          lines: [" two", "-three", "+THREE", " four"],
+        },
+      ],
+    },
+  ]);
+});
+
+test("parses plain diffs, created files and stripped blank lines", () => {
+  const [changed, created] = parseUnifiedDiff(
+    [
+      "--- old/notes.txt\t2026-01-01",
+      "+++ new/notes.txt\t2026-01-02",
+      "@@ -1,3 +1,3 @@",
+      " first",
+      "",
+      "-last",
+      "+LAST",
+      "\\ No newline at end of file",
+      "--- /dev/null",
+      "+++ b/src/added.ts",
+      "@@ -0,0 +1 @@",
+      "+export const added = true;",
+    ].join("\n")
+  );
+
+  assert.equal(changed.oldPath, "old/notes.txt");
+  assert.deepEqual(changed.hunks[0].lines, [" first", " ", "-last", "+LAST"]);
+  assert.equal(created.oldPath, undefined);
+  assert.equal(created.newPath, "src/added.ts");
+  assert.equal(created.hunks[0].newLines, 1);
+});
+
+test("rejects diffs it cannot parse", () => {
+  assert.throws(() => parseUnifiedDiff("just some text"), DiffParseError);
+  assert.throws(
+    () => parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b"),
+    /before any file header/
+  );
+  assert.throws(
+    () => parseUnifiedDiff("--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n"),
+    /shorter than its header says/
+  );
+  assert.throws(
+    () => parseUnifiedDiff("--- a/x\n+++ b/x\n@@ -1 +1 @@\n*a\n"),
+    /not context, removal or addition/
+  );
+});
+
+test("checks hunks against the current file", () => {
+  const file = (hunks, paths = { oldPath: "x.ts", newPath: "x.ts" }) => ({
+    ...paths,
+    hunks,
+  });
+
+  assert.deepEqual(
+    checkDiffFile(file([hunk(3, ["-three", "+THREE"])]), source),
+    [{ file: "x.ts", hunk: "@@ -3,1 +3,1 @@", status: "applies" }]
+  );
+  assert.deepEqual(
+    checkDiffFile(file([hunk(1, ["-three", "+THREE"])]), source)[0],
+    {
+      file: "x.ts",
+      hunk: "@@ -1,1 +1,1 @@",
+      status: "stale",
+      foundAt: 3,
+      message: "The lines moved from 1 to 3",
+    }
+  );
+  assert.equal(
+    checkDiffFile(file([hunk(3, ["-seven", "+SEVEN"])]), source)[0].status,
+    "does_not_apply"
+  );
+  assert.match(
+    checkDiffFile(file([hunk(3, ["-three"])]), undefined)[0].message,
+    /does not exist/
+  );
+  assert.match(
+    checkDiffFile(file([hunk(0, ["+new"], 0)], { newPath: "x.ts" }), source)[0]
+      .message,
+    /already exists/
+  );
+});
+
+test("targets the lines around each hunk, merging overlaps", () => {
+  const file = {
+    oldPath: "src/x.ts",
+    newPath: "src/x.ts",
+    hunks: [
+      hunk(10, [" a", "-b", " c"], 3),
+      hunk(15, ["-d"]),
+      hunk(40, ["-e"]),
+    ],
+  };
+  const checks = [{}, {}, { status: "stale", foundAt: 50 }];
+
+  assert.deepEqual(
+    diffAnalysisTargets(file, checks, 3, (path) => `/root/${path}`).map(
+      ({ file, startLine, endLine }) => [file, startLine, endLine]
+    ),
+    [
+      ["/root/src/x.ts", 7, 18],
+      ["/root/src/x.ts", 47, 53],
+    ]
+  );
+  assert.deepEqual(
+    diffAnalysisTargets(
+      { newPath: "y.ts", hunks: [hunk(0, ["+y"], 0)] },
+      [],
+      3,
+      String
+    ),
+    []
+  );
+});
+
+test("shows the change as a diff with the mismatching hunks", () => {
+  const files = parseUnifiedDiff(gitDiff);
+
+  assert.equal(
+    formatDiffSection(files, [{ status: "applies" }]),
+    "Diff:\n```diff\n--- a/src/numbers.ts\n+++ b/src/numbers.ts\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n```"
+  );
+  assert.match(
+    formatDiffSection(files, [
+      {
+        file: "src/numbers.ts",
+        hunk: "@@ -2,3 +2,3 @@",
+        status: "stale",
+        message: "The lines moved from 2 to 5",
+      },
+    ]),
+    /do not match the current files[\s\S]*- src\/numbers.ts @@ -2,3 \+2,3 @@: stale \(The lines moved from 2 to 5\)$/
+  );
+});
+
+test("validates a diff against the project and reads around it", async () => {
+  const projectRoot = await mkdtemp(join(tmpdir(), "athena-diff-"));
+  try {
+    await writeFile(join(projectRoot, "numbers.ts"), source);
+    const calls = await stubModel(() => thinkingValidationResult());
+    const validator = createValidator();
+
+    const result = await validator.validateThinking(
+      {
+        ...thinkingValidationRequest,
+        proposedChange: {
+          description: "Capitalize three",
+          diff: gitDiff.replaceAll("src/numbers.ts", "numbers.ts"),
+        },
+        projectContext: { projectRoot },
+      },
+      "diff-check"
+    );
+
+    assert.deepEqual(result.metadata.diffCheck, [
+      { file: "numbers.ts", hunk: "@@ -2,3 +2,3 @@", status: "applies" },
+    ]);
+    assert.equal(result.metadata.fileAnalysisPerformed, true);
+    const prompt = calls[0].messages.at(-1).content;
+    assert.match(prompt, /```diff\n--- a\/numbers.ts/);
+    assert.match(prompt, /five/);
+  } finally {
+    await rm(projectRoot, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  WORKFLOW_PROMPTS,
+  buildWorkflowPrompt,
+  parseAnalysisTargets,
+} from "../../dist/prompts/workflow-prompts.js";
+
+// The tool arguments a prompt asks the client to send
+function toolArguments(result) {
+  const text = result.messages[0].content.text;
+  return JSON.parse(text.match(/```json\n([\s\S]*?)\n```/)[1]);
+}
+
+test("parses file lists with optional line ranges", () => {
+  assert.deepEqual(parseAnalysisTargets("src/a.ts, src/b.ts:10-40\n"), [
+    { file: "src/a.ts", mode: "full", priority: "critical" },
+    {
+      file: "src/b.ts",
+      mode: "range",
+      startLine: 10,
+      endLine: 40,
+      priority: "critical",
+    },
+  ]);
+});
+
+test("every published prompt expands with its required arguments", () => {
+  for (const prompt of WORKFLOW_PROMPTS) {
+    const args = Object.fromEntries(
+      prompt.arguments
+        .filter((argument) => argument.required)
+        .map((argument) => [argument.name, "src/a.ts"])
+    );
+
+    const result = buildWorkflowPrompt(prompt.name, args);
+
+    assert.equal(result.messages.length, 1);
+    assert.ok(toolArguments(result).projectContext);
+  }
+});
+
+test("every prompt leads into thinking_validation or impact_analysis", () => {
+  const tools = WORKFLOW_PROMPTS.map((prompt) => {
+    const args = Object.fromEntries(
+      prompt.arguments.map((argument) => [argument.name, "src/a.ts"])
+    );
+    const text = buildWorkflowPrompt(prompt.name, args).messages[0].content
+      .text;
+    return text.match(/Call the `(\w+)` tool/)[1];
+  });
+
+  assert.deepEqual(tools, [
+    "thinking_validation",
+    "thinking_validation",
+    "impact_analysis",
+  ]);
+});
+
+test("the assumption audit lists the assumptions in the thinking", () => {
+  const args = toolArguments(
+    buildWorkflowPrompt("assumption_audit", {
+      assumptions: "Users are cached\nThe cache is shared",
+      component: "user service",
+    })
+  );
+
+  assert.match(args.thinking, /- Users are cached\n- The cache is shared/);
+  assert.match(args.context.problem, /user service/);
+  assert.equal(args.proposedChange.files, undefined);
+});
+
+test("follow-up steps name the session field the server returns", () => {
+  const text = buildWorkflowPrompt("pre_change_review", {
+    change: "Add an LRU cache",
+    files: "src/user.ts",
+  }).messages[0].content.text;
+
+  assert.match(text, /`metadata\.sessionId`/);
+});
+
+test("fills the tool call from the prompt arguments", () => {
+  const args = toolArguments(
+    buildWorkflowPrompt("pre_change_review", {
+      change: "Add an LRU cache",
+      files: "src/user.ts:5-20",
+      projectRoot: "/work/app",
+    })
+  );
+
+  assert.equal(args.proposedChange.description, "Add an LRU cache");
+  assert.deepEqual(args.proposedChange.files, ["src/user.ts"]);
+  assert.equal(args.projectContext.projectRoot, "/work/app");
+  assert.equal(args.projectContext.analysisTargets[0].mode, "range");
+});
+
+test("rejects unknown prompts and missing arguments", () => {
+  assert.throws(() => buildWorkflowPrompt("no_such_prompt"), {
+    code: -32602,
+  });
+  assert.throws(
+    () => buildWorkflowPrompt("blast_radius_check", { change: "x" }),
+    /requires the "files" argument/
+  );
+});